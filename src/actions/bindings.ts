@@ -0,0 +1,116 @@
+import type { ActionEvent, ChartActionBinding } from "../types";
+
+/**
+ * The subset of ECharts event params that bindings filter on and payloads
+ * can reference. ECharts passes many more fields; we only read these.
+ */
+export type ChartEventParams = {
+  componentType?: string;
+  seriesType?: string;
+  seriesName?: string;
+  name?: string;
+  dataIndex?: number;
+  value?: unknown;
+  data?: unknown;
+};
+
+/** Values available to `{{ … }}` placeholders in an action payload. */
+export type ActionContext = {
+  name?: string;
+  value?: unknown;
+  entity_id?: string;
+  series_name?: string;
+  data_index?: number;
+  component_type?: string;
+};
+
+function matchesFilter(filter: string | string[] | undefined, actual: string | undefined) {
+  if (filter == null) return true;
+  if (actual == null) return false;
+  return Array.isArray(filter) ? filter.includes(actual) : filter === actual;
+}
+
+/** All bindings for `event` whose filters accept the clicked element, in config order. */
+export function matchBindings(
+  bindings: ChartActionBinding[] | undefined,
+  event: ActionEvent,
+  params: ChartEventParams,
+): ChartActionBinding[] {
+  return (bindings ?? []).filter(
+    (b) =>
+      (b.event ?? "click") === event &&
+      matchesFilter(b.component_type, params.componentType) &&
+      matchesFilter(b.series_name, params.seriesName) &&
+      matchesFilter(b.data_name, params.name),
+  );
+}
+
+/** True when some binding listens for `event` at all (used to decide click delays). */
+export function hasBindingFor(
+  bindings: ChartActionBinding[] | undefined,
+  event: ActionEvent,
+): boolean {
+  return (bindings ?? []).some((b) => (b.event ?? "click") === event);
+}
+
+/**
+ * Build the placeholder context for a chart event.
+ * The entity comes from the data item (`$data` pairs carry `entity_id`), or
+ * falls back to `lookupEntityId` on the data name, then the series name.
+ */
+export function buildActionContext(
+  params: ChartEventParams,
+  lookupEntityId: (name: string) => string | undefined,
+): ActionContext {
+  const item = params.data;
+  const itemEntity =
+    item && typeof item === "object" && !Array.isArray(item)
+      ? (item as Record<string, unknown>).entity_id
+      : undefined;
+
+  // For [ts, value] points, the interesting value is the y component.
+  const value = Array.isArray(params.value) ? params.value[params.value.length - 1] : params.value;
+
+  const entityId =
+    (typeof itemEntity === "string" ? itemEntity : undefined) ??
+    (params.name ? lookupEntityId(params.name) : undefined) ??
+    (params.seriesName ? lookupEntityId(params.seriesName) : undefined);
+
+  return {
+    name: params.name,
+    value,
+    entity_id: entityId,
+    series_name: params.seriesName,
+    data_index: params.dataIndex,
+    component_type: params.componentType,
+  };
+}
+
+const PLACEHOLDER = /\{\{\s*([a-z_]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([a-z_]+)\s*\}\}$/;
+
+/**
+ * Substitute `{{ name }}`, `{{ value }}`, `{{ entity_id }}`, `{{ series_name }}`,
+ * `{{ data_index }}` and `{{ component_type }}` throughout a payload.
+ * A string that is exactly one placeholder keeps the raw (e.g. numeric) value.
+ */
+export function renderActionPayload<T>(payload: T, ctx: ActionContext): T {
+  const lookup = (key: string): unknown => (ctx as Record<string, unknown>)[key];
+
+  const walk = (v: unknown): unknown => {
+    if (typeof v === "string") {
+      const whole = WHOLE_PLACEHOLDER.exec(v);
+      if (whole) return lookup(whole[1]) ?? "";
+      return v.replace(PLACEHOLDER, (_m, key: string) => String(lookup(key) ?? ""));
+    }
+    if (Array.isArray(v)) return v.map(walk);
+    if (v && typeof v === "object") {
+      const out: Record<string, unknown> = {};
+      for (const [k, child] of Object.entries(v as Record<string, unknown>)) out[k] = walk(child);
+      return out;
+    }
+    return v;
+  };
+
+  return walk(payload) as T;
+}
@@ -0,0 +1,72 @@
+import type { HomeAssistant } from "../ha-types";
+import type { ChartActionBinding } from "../types";
+import type { ActionContext } from "./bindings";
+import { renderActionPayload } from "./bindings";
+
+function fireEvent(node: HTMLElement | Window, type: string, detail: unknown): void {
+  node.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+}
+
+/**
+ * Run one HA action for a chart event. Mirrors Lovelace's own action handling
+ * closely enough that configs can be copied from tap_action blocks.
+ */
+export async function performChartAction(
+  element: HTMLElement,
+  hass: HomeAssistant | undefined,
+  binding: ChartActionBinding,
+  ctx: ActionContext,
+): Promise<void> {
+  const action = renderActionPayload(binding, ctx);
+
+  switch (action.action) {
+    case "more-info": {
+      const entityId = action.entity ?? ctx.entity_id;
+      if (!entityId) throw new Error("more-info action has no entity to open");
+      fireEvent(element, "hass-more-info", { entityId });
+      return;
+    }
+
+    case "toggle": {
+      const entityId = action.entity ?? ctx.entity_id;
+      if (!entityId) throw new Error("toggle action has no entity to toggle");
+      if (!hass?.callService) throw new Error("toggle action requires hass.callService");
+      await hass.callService("homeassistant", "toggle", { entity_id: entityId });
+      return;
+    }
+
+    case "call-service":
+    case "perform-action": {
+      const service = action.perform_action ?? action.service;
+      const [domain, name] = (service ?? "").split(".", 2);
+      if (!domain || !name) {
+        throw new Error(`${action.action} action needs a "domain.service", got "${service}"`);
+      }
+      if (!hass?.callService) throw new Error(`${action.action} action requires hass.callService`);
+      await hass.callService(domain, name, action.data ?? action.service_data, action.target);
+      return;
+    }
+
+    case "navigate": {
+      if (!action.navigation_path) throw new Error("navigate action needs navigation_path");
+      if (action.navigation_replace) {
+        history.replaceState(null, "", action.navigation_path);
+      } else {
+        history.pushState(null, "", action.navigation_path);
+      }
+      fireEvent(window, "location-changed", { replace: Boolean(action.navigation_replace) });
+      return;
+    }
+
+    case "url": {
+      if (!action.url_path) throw new Error("url action needs url_path");
+      if (action.new_tab === false) window.open(action.url_path, "_self");
+      // the opened page gets no window.opener handle back into the dashboard
+      else window.open(action.url_path, "_blank", "noopener");
+      return;
+    }
+
+    case "none":
+      return;
+  }
+}
@@ -0,0 +1,44 @@
+import { registerTheme } from "./echarts/instance";
+import type { FormatterFn } from "./format/builtins";
+import { registerFormatter } from "./format/registry";
+import type { OptionTemplate } from "./extends/templates";
+import { registerTemplate } from "./extends/templates";
+
+/**
+ * Public `window.echartsRawCard` hooks for dashboard-wide customisation.
+ * A dashboard resource may create the object before the card loads; entries
+ * declared that way (`themes`, `formatters`, `templates`) are picked up when the card installs.
+ */
+export type EchartsRawCardApi = {
+  /** Register (or replace) a named ECharts theme usable as `theme: <name>`. */
+  registerTheme: (name: string, theme: Record<string, unknown>) => void;
+  themes?: Record<string, Record<string, unknown>>;
+  /** Register (or replace) a named formatter usable as `$formatter: <name>`. */
+  registerFormatter: (name: string, fn: FormatterFn) => void;
+  formatters?: Record<string, FormatterFn>;
+  /** Register (or replace) a named option template usable as `extends: <name>`. */
+  registerTemplate: (name: string, template: OptionTemplate) => void;
+  templates?: Record<string, OptionTemplate>;
+};
+
+declare global {
+  interface Window {
+    echartsRawCard?: Partial<EchartsRawCardApi>;
+  }
+}
+
+export function installGlobalApi(): EchartsRawCardApi {
+  const api = (window.echartsRawCard ??= {}) as EchartsRawCardApi;
+
+  api.registerTheme = (name, theme) => registerTheme(name, theme);
+
+  api.registerFormatter = (name, fn) => registerFormatter(name, fn);
+
+  api.registerTemplate = (name, template) => registerTemplate(name, template);
+
+  for (const [name, theme] of Object.entries(api.themes ?? {})) registerTheme(name, theme);
+  for (const [name, fn] of Object.entries(api.formatters ?? {})) registerFormatter(name, fn);
+  for (const [name, t] of Object.entries(api.templates ?? {})) registerTemplate(name, t);
+
+  return api;
+}
@@ -0,0 +1,25 @@
+/**
+ * JSON.stringify that survives cycles, bigint and function values, and truncates
+ * very large output so debug panels stay responsive.
+ */
+export function safeStringify(value: unknown, maxChars: number): string {
+  const seen = new WeakSet<object>();
+
+  const json = JSON.stringify(
+    value,
+    (_key, v) => {
+      if (typeof v === "object" && v !== null) {
+        if (seen.has(v as object)) return "[Circular]";
+        seen.add(v as object);
+      }
+      if (typeof v === "bigint") return v.toString();
+      if (typeof v === "function") return "[Function]";
+      return v;
+    },
+    2,
+  );
+
+  if (json === undefined) return String(json);
+  if (json.length <= maxChars) return json;
+  return `${json.slice(0, maxChars)}\n\n… [truncated: ${json.length - maxChars} chars omitted]`;
+}
@@ -31,3 +31,29 @@ export function snapshotFingerprints(
     lastFingerprints.set(entityId, fp);
   }
 }
+
+/**
+ * True when entities were added to or removed from `hass.states` since the
+ * last snapshot — `include` selectors (domain, device_class, entity_glob…)
+ * may now match a different set.
+ */
+export function entityListChanged(
+  hass: HomeAssistant | undefined,
+  lastEntityIds: Set<string>,
+): boolean {
+  if (!hass?.states) return false;
+
+  const ids = Object.keys(hass.states);
+  if (ids.length !== lastEntityIds.size) return true;
+  return ids.some((id) => !lastEntityIds.has(id));
+}
+
+export function snapshotEntityIds(
+  hass: HomeAssistant | undefined,
+  lastEntityIds: Set<string>,
+): void {
+  if (!hass?.states) return;
+
+  lastEntityIds.clear();
+  for (const id of Object.keys(hass.states)) lastEntityIds.add(id);
+}
@@ -0,0 +1,146 @@
+/*
+ * Colour strings → RGBA and back.
+ * Understands hex, rgb()/rgba(), hsl()/hsla(), `var(--name[, fallback])` and
+ * Home Assistant's named colours ("red", "amber", "light-blue"…, read from the
+ * theme's `--<name>-color` variable when it is set).
+ */
+
+export type Rgba = { r: number; g: number; b: number; a: number };
+
+/** Reads a CSS custom property (e.g. "--error-color") from the card; undefined when unset. */
+export type CssVarReader = (name: string) => string | undefined;
+
+// HA frontend defaults for its named colours (`--red-color` …)
+const HA_COLORS: Record<string, string> = {
+  primary: "#03a9f4",
+  accent: "#ff9800",
+  red: "#f44336",
+  pink: "#e91e63",
+  purple: "#926bc7",
+  "deep-purple": "#6e41ab",
+  indigo: "#3f51b5",
+  blue: "#2196f3",
+  "light-blue": "#03a9f4",
+  cyan: "#00bcd4",
+  teal: "#009688",
+  green: "#4caf50",
+  "light-green": "#8bc34a",
+  lime: "#cddc39",
+  yellow: "#ffeb3b",
+  amber: "#ffc107",
+  orange: "#ff9800",
+  "deep-orange": "#ff6f22",
+  brown: "#795548",
+  "light-grey": "#bdbdbd",
+  grey: "#9e9e9e",
+  "dark-grey": "#606060",
+  "blue-grey": "#607d8b",
+  black: "#000000",
+  white: "#ffffff",
+  disabled: "#bdbdbd",
+};
+
+export const HA_COLOR_NAMES = Object.keys(HA_COLORS);
+
+/** A CssVarReader over an element's computed style (read once, on first use). */
+export function cssVarReader(el: Element): CssVarReader {
+  let style: CSSStyleDeclaration | undefined;
+  return (name) => {
+    style ??= getComputedStyle(el);
+    return style.getPropertyValue(name).trim() || undefined;
+  };
+}
+
+const VAR_RE = /^var\(\s*(--[\w-]+)\s*(?:,\s*(.+))?\)$/;
+const FUNC_RE = /^(rgba?|hsla?)\(\s*([^)]*)\)$/i;
+
+function clamp01(x: number): number {
+  return Math.min(1, Math.max(0, x));
+}
+
+function parseHex(hex: string): Rgba | undefined {
+  const h = hex.slice(1);
+  if (!/^[0-9a-f]+$/i.test(h) || ![3, 4, 6, 8].includes(h.length)) return undefined;
+  const full = h.length <= 4 ? [...h].map((c) => c + c).join("") : h;
+  const n = (i: number) => parseInt(full.slice(i, i + 2), 16);
+  return { r: n(0), g: n(2), b: n(4), a: full.length === 8 ? n(6) / 255 : 1 };
+}
+
+/** One rgb()/hsl() argument: a number or a percentage of `scale`. */
+function channel(text: string, scale: number): number {
+  const t = text.trim();
+  return t.endsWith("%") ? (parseFloat(t) / 100) * scale : parseFloat(t);
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return [f(0) * 255, f(8) * 255, f(4) * 255];
+}
+
+function parseFunction(name: string, body: string): Rgba | undefined {
+  // rgb(1, 2, 3) / rgb(1 2 3 / 50%)
+  const parts = body.split(/\s*[,/]\s*|\s+/).filter(Boolean);
+  if (parts.length < 3 || parts.length > 4) return undefined;
+
+  const alpha = parts[3] == null ? 1 : clamp01(channel(parts[3], 1));
+  let rgb: [number, number, number];
+  if (name.toLowerCase().startsWith("rgb")) {
+    rgb = [channel(parts[0], 255), channel(parts[1], 255), channel(parts[2], 255)];
+  } else {
+    const h = ((parseFloat(parts[0]) % 360) + 360) % 360;
+    rgb = hslToRgb(h, clamp01(channel(parts[1], 1)), clamp01(channel(parts[2], 1)));
+  }
+
+  if (rgb.some((c) => !Number.isFinite(c)) || !Number.isFinite(alpha)) return undefined;
+  const [r, g, b] = rgb.map((c) => Math.round(Math.min(255, Math.max(0, c))));
+  return { r, g, b, a: alpha };
+}
+
+/**
+ * Parse a colour string. CSS variables and HA colour names are looked up with
+ * `readVar`; undefined when the colour can't be understood.
+ */
+export function parseColor(text: string, readVar?: CssVarReader, depth = 0): Rgba | undefined {
+  const t = text.trim();
+  if (depth > 8) return undefined;
+
+  const v = VAR_RE.exec(t);
+  if (v) {
+    const value = readVar?.(v[1]) ?? v[2];
+    if (value) return parseColor(value, readVar, depth + 1);
+    // HA's own --<name>-color variables still work without a theme
+    const named = /^--([\w-]+)-color$/.exec(v[1]);
+    return named && Object.hasOwn(HA_COLORS, named[1])
+      ? parseColor(HA_COLORS[named[1]])
+      : undefined;
+  }
+
+  const lower = t.toLowerCase();
+  if (Object.hasOwn(HA_COLORS, lower)) {
+    const themed = readVar?.(`--${lower}-color`);
+    return parseColor(themed || HA_COLORS[lower], readVar, depth + 1);
+  }
+  if (lower === "transparent") return { r: 0, g: 0, b: 0, a: 0 };
+  if (t.startsWith("#")) return parseHex(t);
+
+  const f = FUNC_RE.exec(t);
+  return f ? parseFunction(f[1], f[2]) : undefined;
+}
+
+/** `#rrggbb`, or `rgba(…)` when the colour is translucent. */
+export function formatColor({ r, g, b, a }: Rgba): string {
+  const [R, G, B] = [r, g, b].map((c) => Math.round(Math.min(255, Math.max(0, c))));
+  if (a < 1) return `rgba(${R}, ${G}, ${B}, ${Math.round(clamp01(a) * 1000) / 1000})`;
+  return `#${[R, G, B].map((c) => c.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * A colour ECharts can draw: CSS variables and HA names become concrete colours;
+ * anything else unparseable (e.g. CSS keywords such as "rebeccapurple") is passed through.
+ */
+export function resolveColor(text: string, readVar?: CssVarReader): string {
+  const rgba = parseColor(text, readVar);
+  return rgba ? formatColor(rgba) : text;
+}
@@ -0,0 +1,157 @@
+import type { ColorScale } from "../types";
+import type { CssVarReader, Rgba } from "./parse";
+import { formatColor, parseColor, resolveColor } from "./parse";
+
+/*
+ * Value → colour for `$color` and `$data.color`.
+ *   thresholds  [[20, red], [50, amber], [100, green]]: the first step whose
+ *               limit is >= the value; values above the last limit take its colour
+ *   gradient    [[0, red], [50, amber], [100, green]]: interpolated between the
+ *               surrounding stops (clamped at the ends), in OKLCH (default) or RGB
+ */
+
+type Oklch = { l: number; c: number; h: number; a: number };
+
+function colorError(message: string): Error {
+  const err = new Error(`[echarts-raw-card] $color: ${message}`) as Error & { code?: string };
+  err.code = "ECHARTS_RAW_CARD_INVALID_COLOR";
+  return err;
+}
+
+/* ------------------------------------------------------------------
+ * sRGB ↔ OKLCH (https://bottosson.github.io/posts/oklab/)
+ * ------------------------------------------------------------------ */
+
+function toLinear(c: number): number {
+  const x = c / 255;
+  return x <= 0.04045 ? x / 12.92 : Math.pow((x + 0.055) / 1.055, 2.4);
+}
+
+function fromLinear(x: number): number {
+  const c = x <= 0.0031308 ? 12.92 * x : 1.055 * Math.pow(x, 1 / 2.4) - 0.055;
+  return c * 255;
+}
+
+export function rgbToOklch({ r, g, b, a }: Rgba): Oklch {
+  const [R, G, B] = [r, g, b].map(toLinear);
+  const l = Math.cbrt(0.4122214708 * R + 0.5363325363 * G + 0.0514459929 * B);
+  const m = Math.cbrt(0.2119034982 * R + 0.6806995451 * G + 0.1073969566 * B);
+  const s = Math.cbrt(0.0883024619 * R + 0.2817188376 * G + 0.6299787005 * B);
+
+  const L = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const A = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const Bb = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+
+  const h = (Math.atan2(Bb, A) * 180) / Math.PI;
+  return { l: L, c: Math.hypot(A, Bb), h: (h + 360) % 360, a };
+}
+
+export function oklchToRgb({ l: L, c, h, a }: Oklch): Rgba {
+  const rad = (h * Math.PI) / 180;
+  const A = c * Math.cos(rad);
+  const B = c * Math.sin(rad);
+
+  const l = Math.pow(L + 0.3963377774 * A + 0.2158037573 * B, 3);
+  const m = Math.pow(L - 0.1055613458 * A - 0.0638541728 * B, 3);
+  const s = Math.pow(L - 0.0894841775 * A - 1.291485548 * B, 3);
+
+  return {
+    r: fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    g: fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    b: fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+    a,
+  };
+}
+
+function lerp(x: number, y: number, t: number): number {
+  return x + (y - x) * t;
+}
+
+function mixRgb(x: Rgba, y: Rgba, t: number): Rgba {
+  return { r: lerp(x.r, y.r, t), g: lerp(x.g, y.g, t), b: lerp(x.b, y.b, t), a: lerp(x.a, y.a, t) };
+}
+
+// greys have no meaningful hue; borrow the other end's so the blend doesn't swing through red
+const ACHROMATIC = 0.02;
+
+function mixOklch(x: Rgba, y: Rgba, t: number): Rgba {
+  const p = rgbToOklch(x);
+  const q = rgbToOklch(y);
+  const hp = p.c < ACHROMATIC ? q.h : p.h;
+  const hq = q.c < ACHROMATIC ? p.h : q.h;
+
+  // shortest way round the hue circle
+  let dh = hq - hp;
+  if (dh > 180) dh -= 360;
+  if (dh < -180) dh += 360;
+
+  return oklchToRgb({
+    l: lerp(p.l, q.l, t),
+    c: lerp(p.c, q.c, t),
+    h: (hp + dh * t + 360) % 360,
+    a: lerp(p.a, q.a, t),
+  });
+}
+
+/* ------------------------------------------------------------------
+ * Scales
+ * ------------------------------------------------------------------ */
+
+function toNumber(v: unknown): number | undefined {
+  const n = typeof v === "number" ? v : typeof v === "string" && v.trim() ? Number(v) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function thresholdColor(value: number, steps: Array<[number, string]>): string {
+  for (const [limit, color] of steps) if (value <= limit) return color;
+  return steps[steps.length - 1][1];
+}
+
+function gradientColor(
+  value: number,
+  stops: Array<[number, string]>,
+  scale: ColorScale,
+  readVar?: CssVarReader,
+): string {
+  const parsed = stops.map(([at, text]) => {
+    const rgba = parseColor(text, readVar);
+    if (!rgba) {
+      throw colorError(`can't interpolate "${text}" (use hex, rgb(), hsl() or a HA colour)`);
+    }
+    return [at, rgba] as const;
+  });
+
+  if (value <= parsed[0][0]) return formatColor(parsed[0][1]);
+  for (let i = 1; i < parsed.length; i++) {
+    const [at, rgba] = parsed[i];
+    if (value > at) continue;
+    const [prevAt, prev] = parsed[i - 1];
+    const t = at === prevAt ? 1 : (value - prevAt) / (at - prevAt);
+    return formatColor(scale.space === "rgb" ? mixRgb(prev, rgba, t) : mixOklch(prev, rgba, t));
+  }
+  return formatColor(parsed[parsed.length - 1][1]);
+}
+
+/**
+ * Colour for `value` on `scale`, or `fallback` when the value isn't a number.
+ * Without thresholds or a gradient a string value is taken as the colour itself.
+ */
+export function colorForValue(
+  value: unknown,
+  scale: ColorScale,
+  readVar?: CssVarReader,
+  fallback?: string,
+): string | undefined {
+  const steps = scale.thresholds ?? scale.gradient;
+  if (!steps?.length) {
+    if (typeof value === "string" && value) return resolveColor(value, readVar);
+    return fallback == null ? undefined : resolveColor(fallback, readVar);
+  }
+
+  const n = toNumber(value);
+  if (n == null) return fallback == null ? undefined : resolveColor(fallback, readVar);
+
+  const sorted = [...steps].sort((x, y) => x[0] - y[0]);
+  if (scale.thresholds) return resolveColor(thresholdColor(n, sorted), readVar);
+  return gradientColor(n, sorted, scale, readVar);
+}
@@ -0,0 +1,379 @@
+import { LitElement, css, html, nothing } from "lit";
+import type { HomeAssistant } from "./ha-types";
+
+import type { EchartsRawCardConfig, HistoryGenerator, StatisticsGenerator } from "./types";
+
+import { deepResolveTokensAsync } from "./tokens/resolve";
+import { expandRefs } from "./tokens/refs";
+import { cssVarReader } from "./color/parse";
+import { resolveExtends } from "./extends/templates";
+
+import { fetchHistory } from "./history/fetch";
+import { fetchStatistics } from "./statistics/fetch";
+import { fetchService } from "./service/fetch";
+import { LruMap } from "./history/lru-map";
+import { TemplateStore } from "./template/store";
+import { RegistryStore } from "./registry/registries";
+
+import { safeStringify } from "./card/stringify";
+import {
+  EDITOR_FORM_SCHEMA,
+  applyFormValues,
+  formValuesFromConfig,
+  servicePreviewPlaceholder,
+  validateOptionValue,
+  type EditorFormValues,
+} from "./editor/config";
+import { validateCardConfig, type ValidationIssue } from "./validation/validate";
+
+const PREVIEW_DEBOUNCE_MS = 400;
+const PREVIEW_MAX_CHARS = 50_000;
+
+const FORM_LABELS: Record<string, string> = {
+  title: "Title",
+  height: "Height (CSS length)",
+  renderer: "Renderer",
+  debug: "Debug (show resolved option on the card)",
+};
+
+/* ------------------------------------------------------------------
+ * Editor
+ * ------------------------------------------------------------------ */
+
+export class EchartsRawCardEditor extends LitElement {
+  static properties = {
+    hass: { attribute: false },
+    _config: { state: true },
+    _optionError: { state: true },
+    _issues: { state: true },
+    _previewText: { state: true },
+    _previewError: { state: true },
+    _previewLoading: { state: true },
+    _callServices: { state: true },
+    _previewUsesServices: { state: true },
+  };
+
+  public hass?: HomeAssistant;
+
+  private _config?: EchartsRawCardConfig;
+  private _optionError?: string;
+  private _issues: ValidationIssue[] = [];
+  private _previewText?: string;
+  private _previewError?: string;
+  private _previewLoading?: boolean;
+  // `$service` / `$forecast` run for real, so the preview only calls them when asked to
+  private _callServices = false;
+  private _previewUsesServices = false;
+
+  private _previewRunId = 0;
+  private _previewTimer?: ReturnType<typeof setTimeout>;
+  private _previewedOption?: unknown;
+  private _previewedVars?: unknown;
+  private _previewedExtends?: string;
+  private _previewedCallServices = false;
+
+  // Separate caches from the card: the editor preview must not evict dashboard entries.
+  private _historyCache = new LruMap<string, { ts: number; value: unknown; expiresAt: number }>(20);
+  private _statisticsCache = new LruMap<string, { ts: number; value: unknown; expiresAt: number }>(
+    20,
+  );
+  private _serviceCache = new LruMap<string, { ts: number; value: unknown; expiresAt: number }>(20);
+
+  // The preview is a snapshot: template pushes don't re-run it.
+  private _templates = new TemplateStore(() => {});
+  private _registries = new RegistryStore(() => {});
+
+  public setConfig(config: EchartsRawCardConfig): void {
+    this._config = config;
+    this._issues = validateCardConfig(config);
+    this._schedulePreview();
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    if (this._previewTimer) clearTimeout(this._previewTimer);
+    this._previewTimer = undefined;
+    this._previewRunId++;
+    this._templates.clear();
+    this._registries.clear();
+  }
+
+  protected updated(changed: Map<string, unknown>): void {
+    // The preview needs hass to resolve tokens; the first hass may arrive after setConfig.
+    if (changed.has("hass") && this._previewText === undefined && !this._previewLoading) {
+      this._schedulePreview();
+    }
+  }
+
+  private _fireConfigChanged(config: EchartsRawCardConfig): void {
+    this._config = config;
+    this._issues = validateCardConfig(config);
+    this.dispatchEvent(
+      new CustomEvent("config-changed", {
+        detail: { config },
+        bubbles: true,
+        composed: true,
+      }),
+    );
+    this._schedulePreview();
+  }
+
+  private _onFormChanged(ev: CustomEvent<{ value: EditorFormValues }>): void {
+    ev.stopPropagation();
+    if (!this._config) return;
+    this._fireConfigChanged(applyFormValues(this._config, ev.detail.value));
+  }
+
+  private _onOptionChanged(ev: CustomEvent<{ value: unknown; isValid?: boolean }>): void {
+    ev.stopPropagation();
+    if (!this._config) return;
+
+    // <ha-yaml-editor> reports every keystroke; keep the last good config while the YAML is broken.
+    if (ev.detail.isValid === false) {
+      this._optionError = "YAML syntax error — the chart keeps the last valid option.";
+      return;
+    }
+
+    const option = ev.detail.value;
+    const err = validateOptionValue(option);
+    this._optionError = err;
+    if (err) return;
+
+    this._fireConfigChanged({ ...this._config, option } as EchartsRawCardConfig);
+  }
+
+  private _onCallServicesChanged(ev: Event): void {
+    this._callServices = (ev.target as HTMLInputElement).checked;
+    this._schedulePreview();
+  }
+
+  private _schedulePreview(): void {
+    if (this._previewTimer) clearTimeout(this._previewTimer);
+    this._previewTimer = setTimeout(() => {
+      this._previewTimer = undefined;
+      void this._resolvePreview();
+    }, PREVIEW_DEBOUNCE_MS);
+  }
+
+  private async _resolvePreview(): Promise<void> {
+    const hass = this.hass;
+    const config = this._config;
+    const option = config?.option;
+    if (!hass || !config || (!option && !config.extends)) return;
+
+    // Form-only edits (title, height…) don't change what the tokens resolve to.
+    if (
+      option === this._previewedOption &&
+      config.vars === this._previewedVars &&
+      config.extends === this._previewedExtends &&
+      this._callServices === this._previewedCallServices &&
+      this._previewText !== undefined
+    ) {
+      return;
+    }
+
+    const runId = ++this._previewRunId;
+    const callServices = this._callServices;
+    let usesServices = false;
+    this._previewLoading = true;
+
+    try {
+      const merged = await resolveExtends(config);
+      // template files are loaded now, so validation can check the merged card
+      if (merged !== config && this._config === config) this._issues = validateCardConfig(config);
+
+      const readCssVar = cssVarReader(this);
+      const resolved = await deepResolveTokensAsync(expandRefs(merged.option, merged), {
+        hass,
+        watched: new Set<string>(),
+        fetchHistory: async (spec: HistoryGenerator["$history"]) =>
+          fetchHistory({
+            hass,
+            spec,
+            watchedEntities: new Set<string>(),
+            cache: this._historyCache,
+            nowMs: Date.now(),
+            readCssVar,
+          }),
+        fetchStatistics: async (spec: StatisticsGenerator["$statistics"]) =>
+          fetchStatistics({
+            hass,
+            spec,
+            watchedEntities: new Set<string>(),
+            cache: this._statisticsCache,
+            nowMs: Date.now(),
+          }),
+        renderTemplate: async (token) => this._templates.resolve(hass, token),
+        loadRegistries: async () => this._registries.get(hass),
+        readCssVar,
+        fetchService: async (spec) => {
+          usesServices = true;
+          if (!callServices) return servicePreviewPlaceholder(spec);
+          return fetchService({ hass, spec, cache: this._serviceCache, nowMs: Date.now() });
+        },
+      });
+
+      // superseded by a newer edit
+      if (runId !== this._previewRunId) return;
+
+      this._previewedOption = option;
+      this._previewedVars = config.vars;
+      this._previewedExtends = config.extends;
+      this._previewedCallServices = callServices;
+      this._previewUsesServices = usesServices;
+      this._previewText = safeStringify(resolved, PREVIEW_MAX_CHARS);
+      this._previewError = undefined;
+    } catch (err) {
+      if (runId !== this._previewRunId) return;
+      this._previewError = err instanceof Error ? err.message : String(err);
+    } finally {
+      if (runId === this._previewRunId) this._previewLoading = false;
+    }
+  }
+
+  protected render() {
+    if (!this._config) return nothing;
+    const previewText = this._previewText ?? (this.hass ? "" : "Waiting for Home Assistant…");
+
+    return html`
+      <div class="editor">
+        <div class="column">
+          <ha-form
+            .hass=${this.hass}
+            .data=${formValuesFromConfig(this._config)}
+            .schema=${EDITOR_FORM_SCHEMA}
+            .computeLabel=${(s: { name: string }) => FORM_LABELS[s.name] ?? s.name}
+            @value-changed=${this._onFormChanged}
+          ></ha-form>
+
+          <div class="section-title">ECharts option</div>
+          <ha-yaml-editor
+            .hass=${this.hass}
+            .defaultValue=${this._config.option}
+            @value-changed=${this._onOptionChanged}
+          ></ha-yaml-editor>
+          ${this._optionError
+            ? html`<div class="inline-error" role="alert">${this._optionError}</div>`
+            : nothing}
+          ${this._issues.length
+            ? html`
+                <ul class="issues">
+                  ${this._issues.map(
+                    (i) => html`
+                      <li class=${i.level}>
+                        <code>${i.path}</code>
+                        ${i.message}
+                      </li>
+                    `,
+                  )}
+                </ul>
+              `
+            : nothing}
+        </div>
+
+        <div class="column preview">
+          <div class="section-title">
+            Resolved option preview
+            ${this._previewLoading ? html`<span class="busy">…</span>` : nothing}
+          </div>
+          ${this._previewUsesServices || this._callServices
+            ? html`
+                <ha-formfield label="Call services (runs them, scripts included)">
+                  <ha-switch
+                    .checked=${this._callServices}
+                    @change=${this._onCallServicesChanged}
+                  ></ha-switch>
+                </ha-formfield>
+              `
+            : nothing}
+          ${this._previewError
+            ? html`<div class="inline-error" role="alert">${this._previewError}</div>`
+            : nothing}
+          <pre class="preview-pre">${previewText}</pre>
+        </div>
+      </div>
+    `;
+  }
+
+  static styles = css`
+    :host {
+      display: block;
+    }
+    .editor {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 16px;
+    }
+    .column {
+      flex: 1 1 320px;
+      min-width: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+    }
+    .section-title {
+      font-weight: 600;
+      margin-top: 8px;
+    }
+    .busy {
+      opacity: 0.6;
+    }
+    .inline-error {
+      padding: 8px 10px;
+      border-radius: 8px;
+      border: 1px solid var(--error-color);
+      background: color-mix(in srgb, var(--error-color) 10%, transparent);
+      white-space: pre-wrap;
+      word-break: break-word;
+      font-size: 12px;
+    }
+    .issues {
+      margin: 0;
+      padding: 0;
+      list-style: none;
+      font-size: 12px;
+    }
+    .issues li {
+      padding: 4px 8px;
+      border-left: 3px solid var(--warning-color, #b26a00);
+      margin-bottom: 4px;
+      word-break: break-word;
+    }
+    .issues li.error {
+      border-left-color: var(--error-color);
+    }
+    .preview-pre {
+      margin: 0;
+      padding: 10px 12px;
+      max-height: 480px;
+      overflow: auto;
+      border-radius: 8px;
+      border: 1px solid color-mix(in srgb, var(--primary-text-color) 18%, transparent);
+      white-space: pre;
+      font-family: var(
+        --code-font-family,
+        ui-monospace,
+        SFMono-Regular,
+        Menlo,
+        Monaco,
+        Consolas,
+        "Liberation Mono",
+        "Courier New",
+        monospace
+      );
+      font-size: 12px;
+      line-height: 1.35;
+    }
+  `;
+}
+
+// Register element (no decorators)
+if (!customElements.get("echarts-raw-card-editor")) {
+  customElements.define("echarts-raw-card-editor", EchartsRawCardEditor);
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "echarts-raw-card-editor": EchartsRawCardEditor;
+  }
+}
@@ -2,26 +2,84 @@ import { LitElement, css, html, nothing } from "lit";
 import type { ECharts, EChartsOption, SetOptionOpts } from "echarts";
 import type { HomeAssistant, LovelaceCardConfig } from "./ha-types";
 
-import type { EchartsRawCardConfig, HistoryGenerator, StatisticsGenerator } from "./types";
+import type {
+  EchartsRawCardConfig,
+  HistoryGenerator,
+  ServiceToken,
+  StatisticsGenerator,
+} from "./types";
 
-import { containsHistoryToken } from "./tokens/guards";
+import {
+  containsEntitySelector,
+  containsHistoryToken,
+  containsLiveHistoryToken,
+} from "./tokens/guards";
 import { deepResolveTokensAsync } from "./tokens/resolve";
+import { expandRefs } from "./tokens/refs";
+import { cssVarReader, type CssVarReader } from "./color/parse";
+import {
+  applyExtends,
+  extendsChain,
+  loadTemplateFile,
+  missingTemplate,
+  onTemplateRegistered,
+  pendingTemplateFile,
+} from "./extends/templates";
 
 import { minHistoryCacheSecondsInOptionTree } from "./history/cache-ttl";
-import { fetchHistory } from "./history/fetch";
+import { fetchHistory, historyUnitWarnings } from "./history/fetch";
+import { LiveHistoryStore } from "./history/live";
+import { HistoryStreamStore } from "./history/stream";
+import { TemplateStore } from "./template/store";
+import { isGeneratedFormatter } from "./format/registry";
+import { formatRefreshSeconds } from "./format/interpolate";
+import { renderTimelineItem } from "./history/timeline";
+import { EMPTY_REGISTRIES, RegistryStore } from "./registry/registries";
 import { fetchStatistics } from "./statistics/fetch";
+import { fetchService, serviceRefreshSeconds } from "./service/fetch";
 import { LruMap } from "./history/lru-map";
 
 import {
   disposeChart,
+  ensureThemeRegistered,
   getAttachedInstance,
   getContainer,
   hasSize,
   initChart,
+  isThemeRegistered,
   safeResize,
 } from "./echarts/instance";
+import { planOptionUpdate } from "./echarts/diff";
+import {
+  THEME_KEYWORDS,
+  buildEchartsTheme,
+  chooseTheme,
+  haThemeKey,
+  readHaThemeVars,
+  themeNameFor,
+} from "./echarts/theme";
 
-import { shouldUpdateForHassChange, snapshotFingerprints } from "./card/watched";
+import {
+  entityListChanged,
+  shouldUpdateForHassChange,
+  snapshotEntityIds,
+  snapshotFingerprints,
+} from "./card/watched";
+import { safeStringify } from "./card/stringify";
+import { formatIssues, validateCardConfig } from "./validation/validate";
+
+import type { ActionEvent } from "./types";
+import {
+  buildActionContext,
+  hasBindingFor,
+  matchBindings,
+  type ChartEventParams,
+} from "./actions/bindings";
+import { performChartAction } from "./actions/perform";
+
+// long-press threshold and the window in which a second click turns into a dblclick
+const HOLD_MS = 500;
+const DBLCLICK_WINDOW_MS = 250;
 
 /* ------------------------------------------------------------------
  * Guards + helpers
@@ -39,6 +97,7 @@ export class EchartsRawCard extends LitElement {
     _warning: { state: true },
     _loading: { state: true },
     _debugResolvedOptionText: { state: true },
+    _debugMergedOptionText: { state: true },
   };
 
   public hass?: HomeAssistant;
@@ -48,8 +107,19 @@ export class EchartsRawCard extends LitElement {
   private _warning?: string;
   private _loading?: boolean;
   private _debugResolvedOptionText?: string;
+  // the option after `extends` merging, before tokens resolve
+  private _debugMergedOptionText?: string;
+  private _rawConfig?: LovelaceCardConfig;
+  private _pendingTemplate?: string;
+  // a named template the config extends that wasn't registered at setConfig time
+  private _missingTemplate?: string;
+  private _unsubscribeTemplates?: () => void;
   private _runId = 0;
 
+  // schema validation results from setConfig (shown in the error / warning panels)
+  private _configError?: string;
+  private _configWarning?: string;
+
   private _chart?: ECharts;
   private _resizeObserver?: ResizeObserver;
 
@@ -58,6 +128,8 @@ export class EchartsRawCard extends LitElement {
 
   private _watchedEntities = new Set<string>();
   private _lastFingerprints = new Map<string, string>();
+  // hass.states keys at the last resolve, for `include` selectors
+  private _lastEntityIds = new Set<string>();
 
   // history cache — LRU-bounded to prevent unbounded growth on long-running dashboards
   private _historyCache = new LruMap<string, { ts: number; value: unknown; expiresAt: number }>(
@@ -69,30 +141,128 @@ export class EchartsRawCard extends LitElement {
     50,
   );
 
+  // $service / $forecast responses, re-requested every cache_seconds
+  private _serviceCache = new LruMap<string, { ts: number; value: unknown; expiresAt: number }>(50);
+  // re-runs for service responses and relative times in $format
+  private _refreshTimer?: ReturnType<typeof setTimeout>;
+
+  // live $history windows (seeded once, then appended from hass updates)
+  private _liveHistory = new LiveHistoryStore();
+
+  // stream $history subscriptions (history/stream pushes re-render in place)
+  private _historyStream = new HistoryStreamStore(() => this._applyOption("diff"));
+
+  // $template render_template subscriptions (each new result re-renders in place)
+  private _templates = new TemplateStore(() => this._applyOption("diff"));
+
+  // entity/device/area/label registries for include/exclude selectors (reloaded on change)
+  private _registries = new RegistryStore(() => this._applyOption("diff"));
+
   // prevent hass-driven re-fetch storms
   private _nextHistoryAllowedMs = 0;
 
-  // track current ECharts theme ("dark" | undefined)
+  // last option handed to ECharts, and the instance it went to (for merge-mode diffs)
+  private _appliedOption?: Record<string, unknown>;
+  private _appliedChart?: ECharts;
+
+  // track current ECharts theme (registered name, or undefined for the default look)
   private _echartsTheme: string | undefined;
 
+  // HA theme + dark mode the derived theme was last built for
+  private _haThemeKey?: string;
+  private _haThemeName?: string;
+
+  // chart element actions (tap / double-tap / hold)
+  private _holdTimer?: ReturnType<typeof setTimeout>;
+  private _holdFired = false;
+  private _pendingClick?: ReturnType<typeof setTimeout>;
+
+  // Lovelace visual editor hooks
+  public static getConfigElement(): HTMLElement {
+    return document.createElement("echarts-raw-card-editor");
+  }
+
+  public static getStubConfig(): Record<string, unknown> {
+    return {
+      option: {
+        tooltip: {},
+        xAxis: { type: "category", data: ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"] },
+        yAxis: { type: "value" },
+        series: [{ type: "line", data: [150, 230, 224, 218, 135, 147, 260] }],
+      },
+    };
+  }
+
   public setConfig(config: LovelaceCardConfig): void {
     if (!config) throw new Error("Invalid configuration");
-    if (!("option" in config)) throw new Error("Missing required `option`");
+    if (!("option" in config) && !("extends" in config)) {
+      throw new Error("Missing required `option`");
+    }
 
-    this._config = { height: "300px", renderer: "canvas", ...config } as EchartsRawCardConfig;
+    this._rawConfig = config;
+
+    // `extends` templates from /local/ files load once; setConfig re-runs when they're in
+    this._pendingTemplate = pendingTemplateFile(config);
+    this._missingTemplate = missingTemplate(config);
+    if (this._pendingTemplate) {
+      loadTemplateFile(this._pendingTemplate).then(
+        () => {
+          if (this._rawConfig === config) this.setConfig(config);
+        },
+        (err: Error) => {
+          if (this._rawConfig !== config) return;
+          this._pendingTemplate = undefined;
+          this._configError = err.message;
+          this._error = err.message;
+          this._loading = false;
+        },
+      );
+    }
 
-    this._error = undefined;
-    this._warning = undefined;
-    this._loading = false;
+    let merged = config;
+    try {
+      if (!this._pendingTemplate) merged = applyExtends(config);
+    } catch {
+      // unknown templates and cycles are reported by validateCardConfig below
+    }
+
+    const next = { height: "300px", renderer: "canvas", ...merged } as EchartsRawCardConfig;
+    // `$ref` / `$var` expand once per config; everything downstream sees the plain option
+    try {
+      next.option = expandRefs(merged.option, merged) as EChartsOption;
+    } catch {
+      // broken references are reported by validateCardConfig below
+    }
+    this._config = next;
+
+    const issues = validateCardConfig(config);
+    this._configError = formatIssues(issues.filter((i) => i.level === "error")) || undefined;
+    this._configWarning = formatIssues(issues.filter((i) => i.level === "warning")) || undefined;
+
+    this._error = this._configError;
+    this._warning = this._baseWarning();
+    this._loading = !!this._pendingTemplate;
     this._debugResolvedOptionText = undefined;
+    this._debugMergedOptionText =
+      typeof config.extends === "string" && !this._pendingTemplate
+        ? safeStringify(next.option, this._debugFlags().maxChars)
+        : undefined;
     this._watchedEntities.clear();
     this._lastFingerprints.clear();
+    this._lastEntityIds.clear();
 
     // reset throttle on config change
     this._nextHistoryAllowedMs = 0;
+    this._appliedOption = undefined;
+    this._liveHistory.clear();
+    this._historyStream.clear();
+    this._templates.clear();
+    this._registries.clear();
+    this._clearRefresh();
 
     // ensure theme is re-evaluated after config changes
     this._echartsTheme = undefined;
+    this._haThemeKey = undefined;
   }
 
   private _debugFlags(): {
@@ -116,27 +286,6 @@ export class EchartsRawCard extends LitElement {
     return { showResolvedOption, logResolvedOption, maxChars };
   }
 
-  private _safeStringify(value: unknown, maxChars: number): string {
-    const seen = new WeakSet<object>();
-
-    const json = JSON.stringify(
-      value,
-      (_key, v) => {
-        if (typeof v === "object" && v !== null) {
-          if (seen.has(v as object)) return "[Circular]";
-          seen.add(v as object);
-        }
-        if (typeof v === "bigint") return v.toString();
-        if (typeof v === "function") return "[Function]";
-        return v;
-      },
-      2,
-    );
-
-    if (json.length <= maxChars) return json;
-    return `${json.slice(0, maxChars)}\n\n… [truncated: ${json.length - maxChars} chars omitted]`;
-  }
-
   disconnectedCallback(): void {
     super.disconnectedCallback();
     this._isConnected = false;
@@ -153,6 +302,18 @@ export class EchartsRawCard extends LitElement {
     disposeChart(this._chart);
     this._chart = undefined;
 
+    this._clearActionTimers();
+    this._clearRefresh();
+
+    this._unsubscribeTemplates?.();
+    this._unsubscribeTemplates = undefined;
+
+    // states that arrive while detached are never appended; re-seed on reconnect
+    this._liveHistory.clear();
+    this._historyStream.clear();
+    this._templates.clear();
+    this._registries.clear();
+
     this._runId++;
   }
 
@@ -160,6 +321,21 @@ export class EchartsRawCard extends LitElement {
     super.connectedCallback();
     this._isConnected = true;
 
+    // `extends: <name>` may be registered by a dashboard resource that loads after
+    // setConfig ran (or while the card was detached): re-apply the config then
+    this._unsubscribeTemplates ??= onTemplateRegistered((name) => {
+      if (this._rawConfig && extendsChain(this._rawConfig).includes(name)) {
+        this.setConfig(this._rawConfig);
+      }
+    });
+    if (
+      this._rawConfig &&
+      this._missingTemplate &&
+      missingTemplate(this._rawConfig) !== this._missingTemplate
+    ) {
+      this.setConfig(this._rawConfig);
+    }
+
     // When navigating between Lovelace views, cards can be kept alive and become
     // hidden/shown without a full disconnect. ECharts frequently needs an
     // explicit resize once the element is visible again; otherwise it can render
@@ -190,14 +366,45 @@ export class EchartsRawCard extends LitElement {
     }
   }
 
-  // HA dark-mode helpers
+  // HA theme helpers
   private _isHassDarkMode(hass: HomeAssistant | undefined): boolean {
     return Boolean(hass?.themes?.darkMode);
   }
 
   private _desiredEchartsTheme(hass: HomeAssistant | undefined): string | undefined {
-    // ECharts built-in theme: "dark". Light is default (undefined)
-    return this._isHassDarkMode(hass) ? "dark" : undefined;
+    const choice = chooseTheme(this._config?.theme, this._isHassDarkMode(hass));
+    if (choice.kind === "ha") return this._derivedHaTheme(hass);
+
+    this._haThemeKey = haThemeKey(hass?.themes);
+    if (choice.kind === "inline") ensureThemeRegistered(choice.name, choice.theme);
+    return choice.name;
+  }
+
+  private _derivedHaTheme(hass: HomeAssistant | undefined): string | undefined {
+    // Derive an ECharts theme from the HA theme's CSS variables; rebuilt only when
+    // the HA theme or dark mode changes (reading computed style on every hass tick is wasteful).
+    const key = haThemeKey(hass?.themes);
+    if (key !== this._haThemeKey || !this._haThemeName) {
+      const theme = buildEchartsTheme(readHaThemeVars(this, this._isHassDarkMode(hass)));
+      const name = themeNameFor("ha", theme);
+      ensureThemeRegistered(name, theme);
+      this._haThemeKey = key;
+      this._haThemeName = name;
+    }
+    return this._haThemeName;
+  }
+
+  private _themeWarning(): string | undefined {
+    const setting = this._config?.theme;
+    if (typeof setting !== "string") return undefined;
+    if ((THEME_KEYWORDS as readonly string[]).includes(setting)) return undefined;
+    if (isThemeRegistered(setting)) return undefined;
+    return `[echarts-raw-card] theme "${setting}" is not registered; using the default ECharts look.`;
+  }
+
+  /** Warnings that hold for the whole config: schema warnings plus theme lookup. */
+  private _baseWarning(): string | undefined {
+    return [this._configWarning, this._themeWarning()].filter(Boolean).join("\n\n") || undefined;
   }
 
   // ---- NEW: size-safe init helpers ---------------------------------
@@ -227,6 +434,85 @@ export class EchartsRawCard extends LitElement {
     // Create a new instance
     this._echartsTheme = this._desiredEchartsTheme(this.hass);
     this._chart = initChart(el, this._echartsTheme, this._config?.renderer ?? "canvas");
+    this._bindChartActions(this._chart);
+  }
+
+  // ---- chart element actions ----------------------------------------
+
+  private _clearActionTimers(): void {
+    if (this._holdTimer) clearTimeout(this._holdTimer);
+    if (this._pendingClick) clearTimeout(this._pendingClick);
+    this._holdTimer = undefined;
+    this._pendingClick = undefined;
+  }
+
+  private _bindChartActions(chart: ECharts): void {
+    // Bindings are read from the config at event time, so config edits don't need a rebind.
+    chart.on("mousedown", (p) => {
+      this._holdFired = false;
+      if (!hasBindingFor(this._config?.actions, "hold")) return;
+      if (this._holdTimer) clearTimeout(this._holdTimer);
+      this._holdTimer = setTimeout(() => {
+        this._holdTimer = undefined;
+        this._holdFired = true;
+        this._runChartActions("hold", p as ChartEventParams);
+      }, HOLD_MS);
+    });
+
+    const cancelHold = () => {
+      if (this._holdTimer) clearTimeout(this._holdTimer);
+      this._holdTimer = undefined;
+    };
+    chart.on("mouseup", cancelHold);
+    chart.on("mouseout", cancelHold);
+
+    chart.on("click", (p) => {
+      // the click that ends a long-press belongs to the hold
+      if (this._holdFired) {
+        this._holdFired = false;
+        return;
+      }
+
+      // With a dblclick binding, wait briefly so a double-tap doesn't also fire the tap.
+      if (hasBindingFor(this._config?.actions, "dblclick")) {
+        if (this._pendingClick) clearTimeout(this._pendingClick);
+        this._pendingClick = setTimeout(() => {
+          this._pendingClick = undefined;
+          this._runChartActions("click", p as ChartEventParams);
+        }, DBLCLICK_WINDOW_MS);
+        return;
+      }
+
+      this._runChartActions("click", p as ChartEventParams);
+    });
+
+    chart.on("dblclick", (p) => {
+      if (this._pendingClick) clearTimeout(this._pendingClick);
+      this._pendingClick = undefined;
+      this._runChartActions("dblclick", p as ChartEventParams);
+    });
+  }
+
+  private _lookupEntityId(name: string): string | undefined {
+    for (const id of this._watchedEntities) {
+      if (id === name) return id;
+      if (this.hass?.states?.[id]?.attributes?.friendly_name === name) return id;
+    }
+    return undefined;
+  }
+
+  private _runChartActions(event: ActionEvent, params: ChartEventParams): void {
+    const bindings = matchBindings(this._config?.actions, event, params);
+    if (bindings.length === 0) return;
+
+    const ctx = buildActionContext(params, (name) => this._lookupEntityId(name));
+    for (const binding of bindings) {
+      performChartAction(this, this.hass, binding, ctx).catch((err) => {
+        const msg = err instanceof Error ? err.message : String(err);
+        this._warning = `[echarts-raw-card] ${event} action failed: ${msg}`;
+        console.error("[echarts-raw-card] action error:", err);
+      });
+    }
   }
 
   private _recreateChartForTheme(): void {
@@ -304,12 +590,22 @@ export class EchartsRawCard extends LitElement {
     }
 
     if (changed.has("hass")) {
-      // Detect HA theme (dark/light) switch and recreate ECharts instance
-      const nextTheme = this._desiredEchartsTheme(this.hass);
-      if (nextTheme !== this._echartsTheme) {
-        this._recreateChartForTheme();
-        this._applyOption();
-        return;
+      // Detect HA theme / dark-mode switch and recreate the ECharts instance.
+      // HA applies the new theme's CSS variables in the same update cycle, so
+      // read them on the next frame rather than now.
+      if (haThemeKey(this.hass?.themes) !== this._haThemeKey) {
+        requestAnimationFrame(() => {
+          if (!this._isConnected) return;
+          const nextTheme = this._desiredEchartsTheme(this.hass);
+          if (nextTheme !== this._echartsTheme) {
+            this._recreateChartForTheme();
+            this._applyOption();
+          } else {
+            // a pinned theme keeps its instance, but `$color` and colour names read the
+            // HA theme's variables: resolve them again
+            this._applyOption("diff");
+          }
+        });
       }
 
       // While a $history option is currently loading, don't restart due to hass churn.
@@ -319,26 +615,77 @@ export class EchartsRawCard extends LitElement {
 
       // If the card contains $history, do NOT continuously re-run on hass churn;
       // only allow once per cache window (minimum of all cache_seconds tokens).
-      if (this._config?.option && containsHistoryToken(this._config.option)) {
+      // Live $history is the exception: it appends from hass instead of re-fetching.
+      if (
+        this._config?.option &&
+        containsHistoryToken(this._config.option) &&
+        !containsLiveHistoryToken(this._config.option)
+      ) {
         if (Date.now() < this._nextHistoryAllowedMs) return;
       }
 
-      if (shouldUpdateForHassChange(this.hass, this._watchedEntities, this._lastFingerprints)) {
-        this._applyOption();
+      // selectors: a newly added (or removed) entity may change what they match
+      const selectionChanged =
+        !!this._config?.option &&
+        containsEntitySelector(this._config.option) &&
+        entityListChanged(this.hass, this._lastEntityIds);
+
+      if (
+        selectionChanged ||
+        shouldUpdateForHassChange(this.hass, this._watchedEntities, this._lastFingerprints)
+      ) {
+        // entity values changed: patch the chart in place where possible
+        this._applyOption("diff");
       }
     }
   }
 
-  private async _fetchHistory(spec: HistoryGenerator["$history"]): Promise<unknown> {
+  private async _fetchHistory(
+    spec: HistoryGenerator["$history"],
+    warnings: string[],
+    readCssVar: CssVarReader,
+  ): Promise<unknown> {
     if (!this.hass) return [];
+    warnings.push(...historyUnitWarnings(this.hass, spec));
 
     try {
+      if (spec.stream && spec.end == null && this.hass.connection) {
+        const hass = this.hass;
+        return await this._historyStream.resolve(
+          hass,
+          spec,
+          this._watchedEntities,
+          Date.now(),
+          () =>
+            fetchHistory({
+              hass,
+              spec,
+              watchedEntities: this._watchedEntities,
+              cache: this._historyCache,
+              nowMs: Date.now(),
+              readCssVar,
+            }),
+          readCssVar,
+        );
+      }
+
+      if ((spec.live || spec.stream) && spec.end == null) {
+        return await this._liveHistory.resolve(
+          this.hass,
+          spec,
+          this._watchedEntities,
+          Date.now(),
+          readCssVar,
+        );
+      }
+
       return await fetchHistory({
         hass: this.hass,
         spec,
         watchedEntities: this._watchedEntities,
         cache: this._historyCache,
         nowMs: Date.now(),
+        readCssVar,
       });
     } catch (err) {
       const e = err as Error & { code?: string };
@@ -357,6 +704,46 @@ export class EchartsRawCard extends LitElement {
     }
   }
 
+  private async _fetchService(spec: ServiceToken, warnings: string[]): Promise<unknown> {
+    if (!this.hass) return [];
+
+    try {
+      return await fetchService({
+        hass: this.hass,
+        spec,
+        cache: this._serviceCache,
+        nowMs: Date.now(),
+      });
+    } catch (err) {
+      // a failed call drops this value only; it stays failed for cache_seconds and the
+      // scheduled refresh retries it
+      warnings.push((err as Error).message);
+      return [];
+    }
+  }
+
+  private _clearRefresh(): void {
+    if (this._refreshTimer) clearTimeout(this._refreshTimer);
+    this._refreshTimer = undefined;
+  }
+
+  /**
+   * Re-run after the shortest `$service` cache window so responses stay fresh,
+   * or sooner when a `$format` shows a relative time that has to keep moving.
+   */
+  private _scheduleRefresh(option: unknown): void {
+    this._clearRefresh();
+    const seconds = Math.min(
+      serviceRefreshSeconds(option) ?? Infinity,
+      formatRefreshSeconds(option) ?? Infinity,
+    );
+    if (!Number.isFinite(seconds) || !this._isConnected) return;
+    this._refreshTimer = setTimeout(() => {
+      this._refreshTimer = undefined;
+      this._applyOption("diff");
+    }, seconds * 1000);
+  }
+
   private async _fetchStatistics(spec: StatisticsGenerator["$statistics"]): Promise<unknown> {
     if (!this.hass) return [];
 
@@ -374,8 +761,14 @@ export class EchartsRawCard extends LitElement {
     }
   }
 
-  private _applyOption(): void {
-    void this._applyOptionAsync();
+  /**
+   * Resolve tokens and push the option to ECharts.
+   * - "full": notMerge rebuild (config, theme, resize/visibility recovery)
+   * - "diff": merge only changed values into the existing chart, falling back to
+   *   a full rebuild when the option's structure changed
+   */
+  private _applyOption(mode: "full" | "diff" = "full"): void {
+    void this._applyOptionAsync(mode);
   }
 
   private _findFunctions(value: unknown, path = "option"): string[] {
@@ -384,7 +777,8 @@ export class EchartsRawCard extends LitElement {
 
     const walk = (v: unknown, p: string) => {
       if (typeof v === "function") {
-        out.push(p);
+        // $formatter functions and the timeline renderItem are ours, not pasted JavaScript
+        if (!isGeneratedFormatter(v) && v !== renderTimelineItem) out.push(p);
         return;
       }
       if (typeof v !== "object" || v === null) return;
@@ -404,12 +798,21 @@ export class EchartsRawCard extends LitElement {
     return out;
   }
 
-  private async _applyOptionAsync(): Promise<void> {
+  private async _applyOptionAsync(mode: "full" | "diff" = "full"): Promise<void> {
     const hass = this.hass;
     const config = this._config;
 
     if (!config?.option) return;
 
+    // the option is incomplete until its template file arrives
+    if (this._pendingTemplate) return;
+
+    // Schema errors: show them instead of rendering a half-broken chart.
+    if (this._configError) {
+      this._error = this._configError;
+      return;
+    }
+
     // If container isn't laid out yet, wait for ResizeObserver to call again.
     const el = this._getContainer();
     if (!el || !this._hasSize(el)) return;
@@ -426,22 +829,31 @@ export class EchartsRawCard extends LitElement {
     if (needsHistory) {
       const ttl = minHistoryCacheSecondsInOptionTree(config.option, 30) * 1000;
       this._nextHistoryAllowedMs = Date.now() + ttl;
-      this._loading = true;
+
+      // Live appends resolve without a fetch; don't flash the spinner on every tick.
+      const liveTick = mode === "diff" && containsLiveHistoryToken(config.option);
+      if (!liveTick) this._loading = true;
     }
 
     this._error = undefined;
-    this._warning = undefined;
+    this._warning = this._baseWarning();
 
     try {
       const watched = new Set<string>();
+      const warnings: string[] = [];
+      const readCssVar = cssVarReader(this);
 
-      const resolved = (await deepResolveTokensAsync(
-        config.option,
+      const resolved = (await deepResolveTokensAsync(config.option, {
         hass,
         watched,
-        async (spec) => this._fetchHistory(spec),
-        async (spec) => this._fetchStatistics(spec),
-      )) as EChartsOption;
+        fetchHistory: async (spec) => this._fetchHistory(spec, warnings, readCssVar),
+        fetchStatistics: async (spec) => this._fetchStatistics(spec),
+        renderTemplate: async (token) => (hass ? this._templates.resolve(hass, token) : undefined),
+        loadRegistries: async () => (hass ? this._registries.get(hass) : EMPTY_REGISTRIES),
+        readCssVar,
+        fetchService: async (spec) => this._fetchService(spec, warnings),
+        warn: (message) => warnings.push(message),
+      })) as EChartsOption;
 
       // cancelled/replaced
       if (runId !== this._runId) return;
@@ -451,7 +863,10 @@ export class EchartsRawCard extends LitElement {
       if (!this._chart) return;
 
       this._watchedEntities = watched;
-      this._warning = undefined;
+      this._warning =
+        // one entity can be converted by several tokens: show each message once
+        [this._baseWarning(), ...new Set(warnings)].filter(Boolean).join("\n\n") || undefined;
+      this._scheduleRefresh(config.option);
 
       const opt = resolved as Record<string, unknown>;
       const option: EChartsOption =
@@ -467,11 +882,11 @@ export class EchartsRawCard extends LitElement {
         const msg =
           `This card config contains JavaScript functions at: ${fnPaths.join(", ")}. ` +
           `Home Assistant YAML config does not support real function values inside the ` +
-          `ECharts option. Use string templates supported by ECharts, or move advanced ` +
-          `formatting into a token/transform. Disabling those functions should make the ` +
+          `ECharts option. Use string templates supported by ECharts, or a \`$formatter\` ` +
+          `token for advanced formatting. Disabling those functions should make the ` +
           `chart render.`;
 
-        this._warning = `[echarts-raw-card] ${msg}`;
+        this._warning = [this._warning, `[echarts-raw-card] ${msg}`].filter(Boolean).join("\n\n");
 
         if (this._debugFlags().logResolvedOption) {
           console.warn("[echarts-raw-card]", msg);
@@ -481,7 +896,7 @@ export class EchartsRawCard extends LitElement {
       // Debug: store and/or log the *resolved* option (after token resolution)
       const dbg = this._debugFlags();
       if (dbg.showResolvedOption || dbg.logResolvedOption) {
-        const text = this._safeStringify(option, dbg.maxChars);
+        const text = safeStringify(option, dbg.maxChars);
         this._debugResolvedOptionText = text;
         if (dbg.logResolvedOption) {
           console.debug("[echarts-raw-card] resolved option:", option);
@@ -490,10 +905,23 @@ export class EchartsRawCard extends LitElement {
         this._debugResolvedOptionText = undefined;
       }
 
-      const opts: SetOptionOpts = { notMerge: true, lazyUpdate: true };
+      const next = option as Record<string, unknown>;
+      const plan =
+        mode === "diff" && this._appliedChart === this._chart
+          ? planOptionUpdate(this._appliedOption, next)
+          : ({ kind: "full" } as const);
+
+      if (plan.kind === "full") {
+        const opts: SetOptionOpts = { notMerge: true, lazyUpdate: true };
+        this._chart.setOption(option, opts);
+      } else if (plan.kind === "merge") {
+        this._chart.setOption(plan.patch as EChartsOption, { lazyUpdate: true });
+      }
+      this._appliedOption = next;
+      this._appliedChart = this._chart;
 
-      this._chart.setOption(option, opts);
       snapshotFingerprints(this.hass, this._watchedEntities, this._lastFingerprints);
+      snapshotEntityIds(hass, this._lastEntityIds);
 
       // Resize once after setting option (helps when HA lays out late)
       safeResize(this._chart, el);
@@ -551,6 +979,14 @@ export class EchartsRawCard extends LitElement {
             : nothing}
         </div>
 
+        ${dbg.showResolvedOption && this._debugMergedOptionText
+          ? html`
+              <details class="debug">
+                <summary>Debug: merged option (extends: ${this._config.extends})</summary>
+                <pre class="debug-pre">${this._debugMergedOptionText}</pre>
+              </details>
+            `
+          : nothing}
         ${dbg.showResolvedOption && this._debugResolvedOptionText
           ? html`
               <details class="debug">
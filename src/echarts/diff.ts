@@ -0,0 +1,121 @@
+import { isPlainObject } from "../tokens/guards";
+
+/*
+ * Option diffing for incremental updates.
+ * When a re-resolved option only differs in values (series data, gauge values,
+ * axis min/max…), we hand ECharts a merge-mode patch containing just those
+ * values. That keeps animations smooth and preserves user state such as legend
+ * toggles and the dataZoom window. Anything structural falls back to notMerge.
+ */
+
+export type OptionUpdatePlan =
+  | { kind: "full" }
+  | { kind: "none" }
+  | { kind: "merge"; patch: Record<string, unknown> };
+
+const FULL = Symbol("full");
+const NO_CHANGE = Symbol("no-change");
+
+type Diff = unknown | typeof FULL | typeof NO_CHANGE;
+
+// Keys that identify a component: if they change, merge-by-index would mis-map.
+const IDENTITY_KEYS = new Set(["type", "id", "name"]);
+
+/** Structural equality for resolved options (functions compare by identity). */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null) return false;
+  if (typeof a === "number") return Number.isNaN(a) && Number.isNaN(b as number);
+  if (typeof a !== "object") return false;
+
+  if (Array.isArray(a)) {
+    if (!Array.isArray(b) || a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) if (!deepEqual(a[i], b[i])) return false;
+    return true;
+  }
+  if (Array.isArray(b)) return false;
+
+  const ak = Object.keys(a as object);
+  const bk = Object.keys(b as object);
+  if (ak.length !== bk.length) return false;
+  for (const k of ak) {
+    if (!Object.prototype.hasOwnProperty.call(b, k)) return false;
+    if (!deepEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function diffObject(prev: Record<string, unknown>, next: Record<string, unknown>): Diff {
+  // Merge mode can't delete keys.
+  for (const k of Object.keys(prev)) if (!(k in next)) return FULL;
+
+  const out: Record<string, unknown> = {};
+  let changed = false;
+
+  for (const [k, v] of Object.entries(next)) {
+    if (!(k in prev)) {
+      out[k] = v;
+      changed = true;
+      continue;
+    }
+    const d = diffNode(prev[k], v, false);
+    if (d === FULL) return FULL;
+    if (d === NO_CHANGE) continue;
+    if (IDENTITY_KEYS.has(k)) return FULL;
+    out[k] = d;
+    changed = true;
+  }
+
+  return changed ? out : NO_CHANGE;
+}
+
+function diffNode(prev: unknown, next: unknown, componentArray: boolean): Diff {
+  if (deepEqual(prev, next)) return NO_CHANGE;
+
+  if (isPlainObject(prev) && isPlainObject(next)) return diffObject(prev, next);
+
+  // Top-level component lists (series, xAxis…) merge by index, so they must
+  // keep their length; unchanged entries become `{}` placeholders.
+  if (componentArray && Array.isArray(prev) && Array.isArray(next)) {
+    if (prev.length !== next.length) return FULL;
+    const out: unknown[] = [];
+    for (let i = 0; i < next.length; i++) {
+      if (!isPlainObject(prev[i]) || !isPlainObject(next[i])) return FULL;
+      const d = diffObject(prev[i] as Record<string, unknown>, next[i] as Record<string, unknown>);
+      if (d === FULL) return FULL;
+      out.push(d === NO_CHANGE ? {} : d);
+    }
+    return out;
+  }
+
+  // A component changing between single-object and list form is structural.
+  if (componentArray && (Array.isArray(prev) || Array.isArray(next))) return FULL;
+
+  // Leaves and plain arrays (data, color…) are replaced wholesale by ECharts.
+  return next;
+}
+
+/**
+ * Decide how to move the chart from `prev` to `next`.
+ * `merge` patches are safe for `setOption(patch)` without notMerge.
+ */
+export function planOptionUpdate(
+  prev: Record<string, unknown> | undefined,
+  next: Record<string, unknown>,
+): OptionUpdatePlan {
+  if (!prev) return { kind: "full" };
+
+  for (const k of Object.keys(prev)) if (!(k in next)) return { kind: "full" };
+
+  const patch: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(next)) {
+    if (!(k in prev)) return { kind: "full" };
+    const d = diffNode(prev[k], v, true);
+    if (d === FULL) return { kind: "full" };
+    if (d !== NO_CHANGE) patch[k] = d;
+  }
+
+  return Object.keys(patch).length ? { kind: "merge", patch } : { kind: "none" };
+}
@@ -25,6 +25,25 @@ export function initChart(
   return echarts.init(el, theme, { renderer }) as unknown as ECharts;
 }
 
+// ECharts ships "light" and "dark"; it has no API to list the rest.
+const registeredThemes = new Set<string>(["light", "dark"]);
+
+/** Register a theme with ECharts once per name (names are content hashes). */
+export function ensureThemeRegistered(name: string, theme: Record<string, unknown>): void {
+  if (registeredThemes.has(name)) return;
+  registerTheme(name, theme);
+}
+
+/** Register (or replace) a named theme. */
+export function registerTheme(name: string, theme: Record<string, unknown>): void {
+  echarts.registerTheme(name, theme);
+  registeredThemes.add(name);
+}
+
+export function isThemeRegistered(name: string): boolean {
+  return registeredThemes.has(name);
+}
+
 export function disposeChart(chart?: ECharts): void {
   if (!chart) return;
   try {
@@ -0,0 +1,184 @@
+/*
+ * ECharts theme derived from the active Home Assistant theme.
+ * HA exposes its palette as CSS custom properties on the card's host; we read
+ * those and turn them into an ECharts theme object (text, axes, split lines,
+ * tooltip, colour palette).
+ */
+
+export type HaThemeVars = {
+  primaryText: string;
+  secondaryText: string;
+  divider: string;
+  cardBackground: string;
+  primary: string;
+  accent: string;
+};
+
+// HA frontend defaults, used when a variable isn't set on the host
+const LIGHT_DEFAULTS: HaThemeVars = {
+  primaryText: "#212121",
+  secondaryText: "#727272",
+  divider: "rgba(0, 0, 0, 0.12)",
+  cardBackground: "#ffffff",
+  primary: "#03a9f4",
+  accent: "#ff9800",
+};
+
+const DARK_DEFAULTS: HaThemeVars = {
+  primaryText: "#e1e1e1",
+  secondaryText: "#9b9b9b",
+  divider: "rgba(225, 225, 225, 0.12)",
+  cardBackground: "#1c1c1c",
+  primary: "#03a9f4",
+  accent: "#ff9800",
+};
+
+// ECharts' own default palette, appended after the HA colours
+export const ECHARTS_PALETTE = [
+  "#5470c6",
+  "#91cc75",
+  "#fac858",
+  "#ee6666",
+  "#73c0de",
+  "#3ba272",
+  "#fc8452",
+  "#9a60b4",
+  "#ea7ccc",
+];
+
+const CSS_VARS: Record<keyof HaThemeVars, string[]> = {
+  primaryText: ["--primary-text-color"],
+  secondaryText: ["--secondary-text-color"],
+  divider: ["--divider-color"],
+  cardBackground: ["--ha-card-background", "--card-background-color"],
+  primary: ["--primary-color"],
+  accent: ["--accent-color"],
+};
+
+/** Read HA theme variables from an element's computed style, falling back to HA defaults. */
+export function readHaThemeVars(el: Element, darkMode: boolean): HaThemeVars {
+  const style = getComputedStyle(el);
+  const defaults = darkMode ? DARK_DEFAULTS : LIGHT_DEFAULTS;
+
+  const out = { ...defaults };
+  for (const [key, names] of Object.entries(CSS_VARS) as Array<[keyof HaThemeVars, string[]]>) {
+    for (const name of names) {
+      const v = style.getPropertyValue(name).trim();
+      if (v) {
+        out[key] = v;
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/** Build an ECharts theme object from HA theme variables. */
+export function buildEchartsTheme(vars: HaThemeVars): Record<string, unknown> {
+  const axis = {
+    axisLine: { lineStyle: { color: vars.secondaryText } },
+    axisTick: { lineStyle: { color: vars.secondaryText } },
+    axisLabel: { color: vars.secondaryText },
+    splitLine: { lineStyle: { color: [vars.divider] } },
+    splitArea: { areaStyle: { color: ["transparent", vars.divider] } },
+    nameTextStyle: { color: vars.secondaryText },
+  };
+
+  return {
+    color: [...new Set([vars.primary, vars.accent, ...ECHARTS_PALETTE])],
+    backgroundColor: "transparent",
+    textStyle: { color: vars.primaryText },
+    title: {
+      textStyle: { color: vars.primaryText },
+      subtextStyle: { color: vars.secondaryText },
+    },
+    legend: {
+      textStyle: { color: vars.primaryText },
+      pageTextStyle: { color: vars.secondaryText },
+      pageIconColor: vars.primary,
+      inactiveColor: vars.divider,
+    },
+    tooltip: {
+      backgroundColor: vars.cardBackground,
+      borderColor: vars.divider,
+      textStyle: { color: vars.primaryText },
+    },
+    axisPointer: {
+      lineStyle: { color: vars.secondaryText },
+      crossStyle: { color: vars.secondaryText },
+      label: { color: vars.cardBackground, backgroundColor: vars.secondaryText },
+    },
+    categoryAxis: axis,
+    valueAxis: axis,
+    logAxis: axis,
+    timeAxis: axis,
+    radar: {
+      axisName: { color: vars.secondaryText },
+      axisLine: { lineStyle: { color: vars.divider } },
+      splitLine: { lineStyle: { color: vars.divider } },
+    },
+    dataZoom: {
+      borderColor: vars.divider,
+      textStyle: { color: vars.secondaryText },
+    },
+    visualMap: { textStyle: { color: vars.primaryText } },
+    timeline: {
+      lineStyle: { color: vars.divider },
+      label: { color: vars.secondaryText },
+    },
+  };
+}
+
+/** Small stable string hash (FNV-1a, 32-bit) for naming registered themes. */
+export function hashString(input: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+}
+
+/** Registered name for a theme object — identical themes share one registration. */
+export function themeNameFor(prefix: string, theme: Record<string, unknown>): string {
+  return `${prefix}-${hashString(JSON.stringify(theme))}`;
+}
+
+/** Key that changes whenever HA switches theme or light/dark mode. */
+export function haThemeKey(themes: { theme?: string; darkMode?: boolean } | undefined): string {
+  return `${themes?.theme ?? ""}|${themes?.darkMode ? "dark" : "light"}`;
+}
+
+/* ------------------------------------------------------------------
+ * Per-card theme selection
+ * ------------------------------------------------------------------ */
+
+export type ThemeSetting = string | Record<string, unknown>;
+
+/** Keywords accepted by the card's `theme` option (anything else is a registered theme name). */
+export const THEME_KEYWORDS = ["auto", "light", "dark", "ha"] as const;
+
+export type ThemeChoice =
+  | { kind: "ha" }
+  | { kind: "name"; name: string | undefined }
+  | { kind: "inline"; name: string; theme: Record<string, unknown> };
+
+/**
+ * Map the card's `theme` option to the ECharts theme to init with.
+ * - `auto` (default): ECharts built-in `dark` in HA dark mode, default light otherwise
+ * - `ha`: derived from HA CSS variables
+ * - `light` / `dark`: forced built-in look
+ * - other strings: a theme registered by name
+ * - objects: an inline ECharts theme, registered under a content hash
+ */
+export function chooseTheme(setting: ThemeSetting | undefined, darkMode: boolean): ThemeChoice {
+  if (setting === "ha") return { kind: "ha" };
+  if (setting != null && typeof setting === "object") {
+    return { kind: "inline", name: themeNameFor("inline", setting), theme: setting };
+  }
+  if (setting == null || setting === "auto")
+    return { kind: "name", name: darkMode ? "dark" : undefined };
+  // ECharts' default look is the unnamed theme; its registered "light" has another palette.
+  if (setting === "light") return { kind: "name", name: undefined };
+  return { kind: "name", name: setting };
+}
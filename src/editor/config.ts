@@ -0,0 +1,89 @@
+import type { EchartsRawCardConfig, ServiceToken } from "../types";
+
+/* ------------------------------------------------------------------
+ * Form schema (rendered by HA's <ha-form>)
+ * ------------------------------------------------------------------ */
+
+export const EDITOR_FORM_SCHEMA = [
+  { name: "title", selector: { text: {} } },
+  { name: "height", selector: { text: {} } },
+  {
+    name: "renderer",
+    selector: {
+      select: {
+        mode: "dropdown",
+        options: [
+          { value: "canvas", label: "Canvas" },
+          { value: "svg", label: "SVG" },
+        ],
+      },
+    },
+  },
+  { name: "debug", selector: { boolean: {} } },
+] as const;
+
+export type EditorFormValues = {
+  title?: string;
+  height?: string;
+  renderer?: "canvas" | "svg";
+  debug?: boolean;
+};
+
+/** Project the card config onto the flat values <ha-form> understands. */
+export function formValuesFromConfig(config: EchartsRawCardConfig): EditorFormValues {
+  return {
+    title: config.title ?? "",
+    height: config.height ?? "",
+    renderer: config.renderer ?? "canvas",
+    debug: Boolean(config.debug),
+  };
+}
+
+/**
+ * Merge form values back into the card config.
+ * Empty strings drop the key so the card's defaults apply again, and an
+ * object-form `debug` is kept while the toggle stays on.
+ */
+export function applyFormValues(
+  config: EchartsRawCardConfig,
+  values: EditorFormValues,
+): EchartsRawCardConfig {
+  const next: EchartsRawCardConfig = { ...config };
+
+  for (const key of ["title", "height"] as const) {
+    const v = values[key];
+    if (typeof v === "string" && v.trim() !== "") next[key] = v;
+    else delete next[key];
+  }
+
+  if (values.renderer && values.renderer !== "canvas") next.renderer = values.renderer;
+  else delete next.renderer;
+
+  if (values.debug) {
+    if (typeof config.debug !== "object" || config.debug === null) next.debug = true;
+  } else {
+    delete next.debug;
+  }
+
+  return next;
+}
+
+/**
+ * Check a freshly edited `option` value.
+ * Returns an error message for the inline panel, or undefined when it is usable.
+ */
+export function validateOptionValue(option: unknown): string | undefined {
+  if (option == null) return "`option` is required";
+  if (typeof option !== "object" || Array.isArray(option)) {
+    return "`option` must be a mapping (an ECharts option object)";
+  }
+  return undefined;
+}
+
+/**
+ * What a `$service` / `$forecast` token previews as until the user opts in to
+ * service calls: they run for real (scripts included), on every debounced edit.
+ */
+export function servicePreviewPlaceholder(spec: ServiceToken): string {
+  return `<${spec.$service}: not called in the preview — turn on "Call services" to see its response>`;
+}
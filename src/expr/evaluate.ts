@@ -0,0 +1,147 @@
+import { LruMap } from "../history/lru-map";
+import type { ExprNode } from "./parse";
+import { exprError, parseExpr } from "./parse";
+
+/*
+ * `$expr` evaluation
+ * Numeric operators coerce their operands like Number() (true → 1, "12" → 12);
+ * `+` concatenates as soon as either side is a non-numeric string, and
+ * comparisons between two strings are lexicographic.
+ */
+
+type Scope = Record<string, unknown>;
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  min: (...a) => Math.min(...a),
+  max: (...a) => Math.max(...a),
+  abs: Math.abs,
+  round: (x, digits = 0) => {
+    const p = Math.pow(10, digits);
+    return Math.round(x * p) / p;
+  },
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sqrt: Math.sqrt,
+  pow: Math.pow,
+};
+
+// card configs repeat the same few expressions; don't re-parse them on every hass tick
+const compiled = new LruMap<string, ExprNode>(200);
+
+/** Parse (cached) — throws a tagged error on syntax errors. */
+export function compileExpr(source: string): ExprNode {
+  let node = compiled.get(source);
+  if (!node) {
+    node = parseExpr(source);
+    compiled.set(source, node);
+  }
+  return node;
+}
+
+function toNumber(v: unknown): number {
+  if (typeof v === "number") return v;
+  if (typeof v === "boolean") return v ? 1 : 0;
+  if (typeof v === "string" && v.trim() !== "") return Number(v);
+  return NaN;
+}
+
+function isText(v: unknown): v is string {
+  return typeof v === "string" && !Number.isFinite(toNumber(v));
+}
+
+function truthy(v: unknown): boolean {
+  if (typeof v === "number") return v !== 0 && !Number.isNaN(v);
+  return Boolean(v);
+}
+
+function compare(op: string, a: unknown, b: unknown): boolean {
+  const bothText = typeof a === "string" && typeof b === "string" && (isText(a) || isText(b));
+  const x = bothText ? a : toNumber(a);
+  const y = bothText ? b : toNumber(b);
+
+  switch (op) {
+    case "<":
+      return x < y;
+    case "<=":
+      return x <= y;
+    case ">":
+      return x > y;
+    default:
+      return x >= y;
+  }
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (a == null || b == null) return a == b;
+  if (isText(a) || isText(b)) return String(a) === String(b);
+  return toNumber(a) === toNumber(b);
+}
+
+export function evaluateNode(node: ExprNode, scope: Scope, source: string): unknown {
+  const ev = (n: ExprNode) => evaluateNode(n, scope, source);
+
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+
+    case "var":
+      if (!Object.prototype.hasOwnProperty.call(scope, node.name)) {
+        throw exprError(`unknown variable "${node.name}"`, source);
+      }
+      return scope[node.name];
+
+    case "unary": {
+      const v = ev(node.arg);
+      if (node.op === "!") return !truthy(v);
+      return node.op === "-" ? -toNumber(v) : toNumber(v);
+    }
+
+    case "logical": {
+      const left = ev(node.left);
+      if (node.op === "&&") return truthy(left) ? ev(node.right) : left;
+      return truthy(left) ? left : ev(node.right);
+    }
+
+    case "cond":
+      return truthy(ev(node.test)) ? ev(node.then) : ev(node.otherwise);
+
+    case "call":
+      if (!Object.hasOwn(FUNCTIONS, node.fn))
+        throw exprError(`unknown function "${node.fn}"`, source);
+      return FUNCTIONS[node.fn](...node.args.map((a) => toNumber(ev(a))));
+
+    case "binary": {
+      const a = ev(node.left);
+      const b = ev(node.right);
+      switch (node.op) {
+        case "+":
+          return isText(a) || isText(b) ? `${a ?? ""}${b ?? ""}` : toNumber(a) + toNumber(b);
+        case "-":
+          return toNumber(a) - toNumber(b);
+        case "*":
+          return toNumber(a) * toNumber(b);
+        case "/":
+          return toNumber(a) / toNumber(b);
+        case "%":
+          return toNumber(a) % toNumber(b);
+        case "==":
+          return equals(a, b);
+        case "!=":
+          return !equals(a, b);
+        default:
+          return compare(node.op, a, b);
+      }
+    }
+  }
+}
+
+/**
+ * Evaluate an expression against resolved variables.
+ * Non-finite numeric results (unavailable inputs, division by zero) become undefined
+ * so the token's `$default` applies.
+ */
+export function evaluateExpr(source: string, scope: Scope): unknown {
+  const result = evaluateNode(compileExpr(source), scope, source);
+  if (typeof result === "number" && !Number.isFinite(result)) return undefined;
+  return result;
+}
@@ -0,0 +1,263 @@
+/*
+ * `$expr` parser
+ * A small expression language compiled to an AST and evaluated without `eval`:
+ *   literals     12.5  "text"  'text'  true  false  null
+ *   variables    names bound through the token's `vars` map
+ *   operators    + - * / %   < <= > >= == !=   && || !   cond ? a : b   ( )
+ *   functions    min max abs round floor ceil sqrt pow
+ */
+
+export type BinaryOp = "+" | "-" | "*" | "/" | "%" | "<" | "<=" | ">" | ">=" | "==" | "!=";
+
+export type ExprNode =
+  | { kind: "literal"; value: number | string | boolean | null }
+  | { kind: "var"; name: string }
+  | { kind: "unary"; op: "-" | "+" | "!"; arg: ExprNode }
+  | { kind: "binary"; op: BinaryOp; left: ExprNode; right: ExprNode }
+  | { kind: "logical"; op: "&&" | "||"; left: ExprNode; right: ExprNode }
+  | { kind: "cond"; test: ExprNode; then: ExprNode; otherwise: ExprNode }
+  | { kind: "call"; fn: string; args: ExprNode[] };
+
+/** Allowed functions and their [min, max] argument counts. */
+export const EXPR_FUNCTIONS: Record<string, [number, number]> = {
+  min: [1, Infinity],
+  max: [1, Infinity],
+  abs: [1, 1],
+  round: [1, 2],
+  floor: [1, 1],
+  ceil: [1, 1],
+  sqrt: [1, 1],
+  pow: [2, 2],
+};
+
+const KEYWORDS: Record<string, boolean | null> = { true: true, false: false, null: null };
+
+// Binding power of binary operators; higher binds tighter.
+const PRECEDENCE: Record<string, number> = {
+  "||": 1,
+  "&&": 2,
+  "==": 3,
+  "!=": 3,
+  "<": 4,
+  "<=": 4,
+  ">": 4,
+  ">=": 4,
+  "+": 5,
+  "-": 5,
+  "*": 6,
+  "/": 6,
+  "%": 6,
+};
+
+// Longest first so "<=" wins over "<".
+const OPERATORS = [
+  "<=",
+  ">=",
+  "==",
+  "!=",
+  "&&",
+  "||",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "<",
+  ">",
+  "!",
+  "?",
+  ":",
+  "(",
+  ")",
+  ",",
+];
+
+type Tok =
+  | { type: "num"; value: number; pos: number }
+  | { type: "str"; value: string; pos: number }
+  | { type: "ident"; value: string; pos: number }
+  | { type: "op"; value: string; pos: number }
+  | { type: "eof"; pos: number };
+
+export function exprError(message: string, source: string, pos?: number): Error {
+  const where = pos == null ? "" : ` at position ${pos + 1}`;
+  const err = new Error(`[echarts-raw-card] $expr: ${message}${where} in "${source}"`) as Error & {
+    code?: string;
+  };
+  err.code = "ECHARTS_RAW_CARD_INVALID_EXPR";
+  return err;
+}
+
+function tokenize(source: string): Tok[] {
+  const out: Tok[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const c = source[i];
+
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(c)) {
+      const m = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!m) throw exprError(`unexpected "${c}"`, source, i);
+      out.push({ type: "num", value: Number(m[0]), pos: i });
+      i += m[0].length;
+      continue;
+    }
+
+    if (c === '"' || c === "'") {
+      let j = i + 1;
+      let value = "";
+      while (j < source.length && source[j] !== c) {
+        if (source[j] === "\\" && j + 1 < source.length) j++;
+        value += source[j++];
+      }
+      if (j >= source.length) throw exprError("unterminated string", source, i);
+      out.push({ type: "str", value, pos: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(c)) {
+      const m = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      out.push({ type: "ident", value: m[0], pos: i });
+      i += m[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (!op) throw exprError(`unexpected "${c}"`, source, i);
+    out.push({ type: "op", value: op, pos: i });
+    i += op.length;
+  }
+
+  out.push({ type: "eof", pos: source.length });
+  return out;
+}
+
+/** Parse an expression into an AST; throws a tagged error on syntax errors. */
+export function parseExpr(source: string): ExprNode {
+  const toks = tokenize(source);
+  let k = 0;
+
+  const peek = () => toks[k];
+  const isOp = (value: string) => {
+    const t = toks[k];
+    return t.type === "op" && t.value === value;
+  };
+  const expectOp = (value: string) => {
+    if (!isOp(value)) throw exprError(`expected "${value}"`, source, peek().pos);
+    k++;
+  };
+
+  const parseConditional = (): ExprNode => {
+    const test = parseBinary(0);
+    if (!isOp("?")) return test;
+    k++;
+    const then = parseConditional();
+    expectOp(":");
+    const otherwise = parseConditional();
+    return { kind: "cond", test, then, otherwise };
+  };
+
+  const parseBinary = (minPrec: number): ExprNode => {
+    let left = parseUnary();
+    for (;;) {
+      const t = peek();
+      const prec = t.type === "op" ? PRECEDENCE[t.value] : undefined;
+      if (prec == null || prec <= minPrec) return left;
+      k++;
+      const right = parseBinary(prec);
+      const op = (t as { value: string }).value;
+      left =
+        op === "&&" || op === "||"
+          ? { kind: "logical", op, left, right }
+          : { kind: "binary", op: op as BinaryOp, left, right };
+    }
+  };
+
+  const parseUnary = (): ExprNode => {
+    const t = peek();
+    if (t.type === "op" && (t.value === "-" || t.value === "+" || t.value === "!")) {
+      k++;
+      return { kind: "unary", op: t.value, arg: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ExprNode => {
+    const t = toks[k++];
+
+    if (t.type === "num" || t.type === "str") return { kind: "literal", value: t.value };
+
+    if (t.type === "ident") {
+      // own keys only: "toString", "constructor"… are variables, not Object.prototype members
+      if (Object.hasOwn(KEYWORDS, t.value)) return { kind: "literal", value: KEYWORDS[t.value] };
+      if (!isOp("(")) return { kind: "var", name: t.value };
+
+      const arity = Object.hasOwn(EXPR_FUNCTIONS, t.value) ? EXPR_FUNCTIONS[t.value] : undefined;
+      if (!arity) throw exprError(`unknown function "${t.value}"`, source, t.pos);
+      k++;
+      const args: ExprNode[] = [];
+      if (!isOp(")")) {
+        args.push(parseConditional());
+        while (isOp(",")) {
+          k++;
+          args.push(parseConditional());
+        }
+      }
+      expectOp(")");
+      if (args.length < arity[0] || args.length > arity[1]) {
+        throw exprError(`wrong number of arguments to ${t.value}()`, source, t.pos);
+      }
+      return { kind: "call", fn: t.value, args };
+    }
+
+    if (t.type === "op" && t.value === "(") {
+      const inner = parseConditional();
+      expectOp(")");
+      return inner;
+    }
+
+    if (t.type === "eof") throw exprError("unexpected end of expression", source, t.pos);
+    throw exprError(`unexpected "${t.value}"`, source, t.pos);
+  };
+
+  const ast = parseConditional();
+  const rest = peek();
+  if (rest.type !== "eof") {
+    throw exprError(`unexpected "${String(rest.value)}"`, source, rest.pos);
+  }
+  return ast;
+}
+
+/** Variable names an expression reads, in first-use order. */
+export function exprVariables(node: ExprNode): string[] {
+  const names = new Set<string>();
+  const visit = (n: ExprNode): void => {
+    switch (n.kind) {
+      case "var":
+        names.add(n.name);
+        return;
+      case "unary":
+        return visit(n.arg);
+      case "binary":
+      case "logical":
+        visit(n.left);
+        return visit(n.right);
+      case "cond":
+        visit(n.test);
+        visit(n.then);
+        return visit(n.otherwise);
+      case "call":
+        return n.args.forEach(visit);
+      default:
+        return;
+    }
+  };
+  visit(node);
+  return [...names];
+}
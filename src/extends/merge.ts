@@ -0,0 +1,67 @@
+import { isPlainObject } from "../tokens/guards";
+
+/*
+ * Deep merge used by `extends`: the child's values win, mappings merge key by key.
+ * Lists follow `array_merge`:
+ *   replace  (default) the child's list replaces the parent's
+ *   by_name  lists of mappings: items merge with the parent item of the same `name`
+ *            (unnamed items with the item at the same index), others are appended;
+ *            lists of anything else are still replaced
+ */
+
+export type ArrayMerge = "replace" | "by_name";
+
+// assigning these would rewrite the merged object's prototype, not add a key
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/** False for keys a merge must not copy (`__proto__`…): template files are user input. */
+export function isMergeableKey(key: string): boolean {
+  return !UNSAFE_KEYS.has(key);
+}
+
+function mergeByName(parent: unknown[], child: unknown[]): unknown[] {
+  const out = [...parent];
+
+  child.forEach((item, index) => {
+    const name = isPlainObject(item) ? item.name : undefined;
+    const target =
+      name != null
+        ? out.findIndex((p) => isPlainObject(p) && p.name === name)
+        : index < parent.length && isPlainObject(parent[index]) && parent[index].name == null
+          ? index
+          : -1;
+
+    if (target < 0) out.push(item);
+    else out[target] = mergeDeep(out[target], item, "by_name");
+  });
+
+  return out;
+}
+
+export function mergeDeep(
+  parent: unknown,
+  child: unknown,
+  arrays: ArrayMerge = "replace",
+): unknown {
+  if (child === undefined) return parent;
+
+  if (isPlainObject(parent) && isPlainObject(child)) {
+    const out: Record<string, unknown> = { ...parent };
+    for (const [key, value] of Object.entries(child)) {
+      if (!isMergeableKey(key)) continue;
+      out[key] = mergeDeep(parent[key], value, arrays);
+    }
+    return out;
+  }
+
+  if (
+    arrays === "by_name" &&
+    Array.isArray(parent) &&
+    Array.isArray(child) &&
+    [...parent, ...child].every(isPlainObject)
+  ) {
+    return mergeByName(parent, child);
+  }
+
+  return child;
+}
@@ -0,0 +1,185 @@
+import type { ArrayMerge } from "./merge";
+import { isMergeableKey, mergeDeep } from "./merge";
+import { parseYaml } from "./yaml";
+import { isPlainObject } from "../tokens/guards";
+
+/*
+ * Dashboard-wide option templates (`extends`).
+ * A template is a partial card config — usually `option`, maybe `vars`,
+ * `height`… — registered by name (`window.echartsRawCard.registerTemplate()` or
+ * `templates`) or loaded from a JSON / YAML file when `extends` is a path such as
+ * "/local/echarts/energy_bar.yaml". Templates may extend other templates.
+ */
+
+export type OptionTemplate = Record<string, unknown> & {
+  extends?: string;
+  array_merge?: ArrayMerge;
+};
+
+const registry = new Map<string, OptionTemplate>();
+const loading = new Map<string, Promise<void>>();
+const listeners = new Set<(name: string) => void>();
+
+// keys that describe how a layer is merged, not what the merged card contains
+const MERGE_KEYS = ["extends", "array_merge"];
+// mappings merged deeply; every other card key is replaced by the child's value
+const DEEP_KEYS = ["option", "vars"];
+
+function templateError(message: string, code: string): Error {
+  const err = new Error(`[echarts-raw-card] extends: ${message}`) as Error & { code?: string };
+  err.code = code;
+  return err;
+}
+
+/** Register (or replace) a named template usable as `extends: <name>`. */
+export function registerTemplate(name: string, template: OptionTemplate): void {
+  registry.set(name, template);
+  for (const listener of listeners) listener(name);
+}
+
+/**
+ * Call `listener` with the name of every template registered from now on, so
+ * cards configured before a dashboard resource registered theirs can re-apply.
+ * Returns the unsubscribe function.
+ */
+export function onTemplateRegistered(listener: (name: string) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** `extends` values starting with "/" name a file under the HA web root. */
+export function isTemplatePath(name: string): boolean {
+  return name.startsWith("/");
+}
+
+/**
+ * Template files must be `/local/…` files (the `www/` folder) on the HA origin —
+ * not API paths, and not `//host/…`, which `fetch` would load from another origin.
+ */
+export function isLocalTemplatePath(path: string): boolean {
+  if (!path.startsWith("/local/")) return false;
+  const base = "http://ha.invalid";
+  const url = new URL(path, base);
+  return url.origin === base && url.pathname.startsWith("/local/");
+}
+
+/** Fetch and parse a template file (once; a failed load is retried on the next call). */
+export function loadTemplateFile(path: string): Promise<void> {
+  let pending = loading.get(path);
+  if (pending) return pending;
+
+  pending = (async () => {
+    if (!isLocalTemplatePath(path)) {
+      throw templateError(
+        `"${path}" is not a /local/ file (template files live in your www/ folder)`,
+        "ECHARTS_RAW_CARD_TEMPLATE_LOAD",
+      );
+    }
+    const res = await fetch(path, { cache: "no-cache" });
+    if (!res.ok) {
+      throw templateError(
+        `could not load "${path}" (HTTP ${res.status})`,
+        "ECHARTS_RAW_CARD_TEMPLATE_LOAD",
+      );
+    }
+    const text = await res.text();
+
+    let parsed: unknown;
+    try {
+      parsed = /\.json$/i.test(path) ? JSON.parse(text) : parseYaml(text);
+    } catch (err) {
+      throw templateError(
+        `could not parse "${path}": ${(err as Error).message}`,
+        "ECHARTS_RAW_CARD_TEMPLATE_LOAD",
+      );
+    }
+    if (!isPlainObject(parsed)) {
+      throw templateError(`"${path}" must contain a mapping`, "ECHARTS_RAW_CARD_TEMPLATE_LOAD");
+    }
+    registry.set(path, parsed);
+  })();
+
+  loading.set(path, pending);
+  pending.catch(() => loading.delete(path));
+  return pending;
+}
+
+/** Template names in the config's `extends` chain, up to the first one that isn't registered. */
+export function extendsChain(config: Record<string, unknown>): string[] {
+  const chain: string[] = [];
+  let name = config.extends;
+  while (typeof name === "string" && !chain.includes(name)) {
+    chain.push(name);
+    name = registry.get(name)?.extends;
+  }
+  return chain;
+}
+
+/** The first template in the config's `extends` chain that isn't registered or loaded yet. */
+export function missingTemplate(config: Record<string, unknown>): string | undefined {
+  const chain = extendsChain(config);
+  const last = chain[chain.length - 1];
+  return last != null && !registry.has(last) ? last : undefined;
+}
+
+/** The first template file in the config's `extends` chain that isn't loaded yet. */
+export function pendingTemplateFile(config: Record<string, unknown>): string | undefined {
+  const name = missingTemplate(config);
+  return name && isTemplatePath(name) ? name : undefined;
+}
+
+/** `layer` on top of `base`; the layer's `array_merge` decides how its lists combine. */
+function mergeLayer(
+  base: Record<string, unknown>,
+  layer: Record<string, unknown>,
+): Record<string, unknown> {
+  const arrays = (layer.array_merge as ArrayMerge | undefined) ?? "replace";
+  const out: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(layer)) {
+    if (MERGE_KEYS.includes(key) || !isMergeableKey(key)) continue;
+    out[key] = DEEP_KEYS.includes(key) ? mergeDeep(base[key], value, arrays) : value;
+  }
+  return out;
+}
+
+function flatten(name: string, chain: string[]): Record<string, unknown> {
+  if (chain.includes(name)) {
+    throw templateError(
+      `template cycle ${[...chain, name].join(" → ")}`,
+      "ECHARTS_RAW_CARD_TEMPLATE_CYCLE",
+    );
+  }
+
+  const template = registry.get(name);
+  if (!template) {
+    const known = [...registry.keys()].filter((k) => !isTemplatePath(k));
+    throw templateError(
+      `unknown template "${name}"` +
+        (known.length ? ` (registered: ${known.join(", ")})` : " (no templates are registered)"),
+      "ECHARTS_RAW_CARD_UNKNOWN_TEMPLATE",
+    );
+  }
+
+  const base =
+    typeof template.extends === "string" ? flatten(template.extends, [...chain, name]) : {};
+  return mergeLayer(base, template);
+}
+
+/**
+ * Merge the card over its `extends` chain (template files must already be loaded).
+ * The card keeps its own `extends` / `array_merge` keys. Throws on unknown names and cycles.
+ */
+export function applyExtends<T extends Record<string, unknown>>(config: T): T {
+  if (typeof config.extends !== "string") return config;
+  const merged = mergeLayer(flatten(config.extends, []), config);
+  for (const key of MERGE_KEYS) if (key in config) merged[key] = config[key];
+  return merged as T;
+}
+
+/** Load every template file the chain needs, then merge it. */
+export async function resolveExtends<T extends Record<string, unknown>>(config: T): Promise<T> {
+  for (let file = pendingTemplateFile(config); file; file = pendingTemplateFile(config)) {
+    await loadTemplateFile(file);
+  }
+  return applyExtends(config);
+}
@@ -0,0 +1,21 @@
+import { CORE_SCHEMA, load } from "js-yaml";
+
+/*
+ * YAML for `/local/` template files, read with js-yaml (the parser the HA
+ * frontend uses). CORE_SCHEMA keeps values JSON-like: timestamps stay strings.
+ */
+
+function yamlError(message: string): Error {
+  const err = new Error(`[echarts-raw-card] YAML: ${message}`) as Error & { code?: string };
+  err.code = "ECHARTS_RAW_CARD_INVALID_YAML";
+  return err;
+}
+
+/** Parse a single YAML document into plain JSON values. */
+export function parseYaml(source: string): unknown {
+  try {
+    return load(source, { schema: CORE_SCHEMA }) ?? null;
+  } catch (err) {
+    throw yamlError((err as Error).message);
+  }
+}
@@ -0,0 +1,319 @@
+/*
+ * Built-in `$formatter` implementations.
+ * Each takes the raw value plus the token's options (and `locale` / `time_zone`,
+ * filled in from the HA profile and server) and returns display text. Values that aren't numbers
+ * (or timestamps, for the date formatters) are passed through as text.
+ */
+
+export type FormatterOptions = Record<string, unknown> & { locale?: string; time_zone?: string };
+
+/** A formatter: raw value + token options (+ the ECharts callback params) → display text. */
+export type FormatterFn = (value: unknown, options: FormatterOptions, params?: unknown) => string;
+
+// Intl formatters are slow to build and a formatter runs for every label and tooltip:
+// one instance per locale + options
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const dateFormats = new Map<string, Intl.DateTimeFormat>();
+const relativeFormats = new Map<string, Intl.RelativeTimeFormat>();
+
+function cached<F>(cache: Map<string, F>, key: unknown[], build: () => F): F {
+  const k = JSON.stringify(key);
+  let fmt = cache.get(k);
+  if (!fmt) {
+    fmt = build();
+    cache.set(k, fmt);
+  }
+  return fmt;
+}
+
+function numberFormat(
+  locale: string | undefined,
+  opts: Intl.NumberFormatOptions,
+): Intl.NumberFormat {
+  return cached(numberFormats, [locale, opts], () => new Intl.NumberFormat(locale, opts));
+}
+
+function dateFormat(
+  locale: string | undefined,
+  opts: Intl.DateTimeFormatOptions,
+): Intl.DateTimeFormat {
+  return cached(dateFormats, [locale, opts], () => {
+    try {
+      return new Intl.DateTimeFormat(locale, opts);
+    } catch (err) {
+      if (!opts.timeZone) throw err;
+      // unknown zone: use the browser's rather than failing the label
+      return new Intl.DateTimeFormat(locale, { ...opts, timeZone: undefined });
+    }
+  });
+}
+
+function asNumber(v: unknown): number | undefined {
+  const n = typeof v === "number" ? v : typeof v === "string" && v.trim() ? Number(v) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function asText(v: unknown): string {
+  return v == null ? "" : String(v);
+}
+
+function optNumber(o: FormatterOptions, key: string): number | undefined {
+  return typeof o[key] === "number" ? (o[key] as number) : undefined;
+}
+
+function optString(o: FormatterOptions, key: string): string | undefined {
+  return typeof o[key] === "string" ? (o[key] as string) : undefined;
+}
+
+function formatNumber(n: number, o: FormatterOptions, defaultDecimals?: number): string {
+  const decimals = optNumber(o, "decimals") ?? defaultDecimals;
+  const fmt = numberFormat(o.locale, {
+    minimumFractionDigits: decimals ?? 0,
+    maximumFractionDigits: decimals ?? 2,
+  });
+  return fmt.format(n);
+}
+
+function affix(text: string, o: FormatterOptions, unit = optString(o, "unit")): string {
+  const prefix = optString(o, "prefix") ?? "";
+  return `${prefix}${text}${unit ? ` ${unit}` : ""}`;
+}
+
+/* ------------------------------------------------------------------
+ * Numbers
+ * ------------------------------------------------------------------ */
+
+const number: FormatterFn = (value, o) => {
+  const n = asNumber(value);
+  return n == null ? asText(value) : affix(formatNumber(n, o), o);
+};
+
+const percent: FormatterFn = (value, o) => {
+  const n = asNumber(value);
+  if (n == null) return asText(value);
+  const decimals = optNumber(o, "decimals") ?? 0;
+  const fmt = numberFormat(o.locale, {
+    style: "percent",
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+  // values are 0–100 unless `ratio: true` says they're 0–1
+  return fmt.format(o.ratio === true ? n : n / 100);
+};
+
+const BYTE_UNITS = ["B", "kB", "MB", "GB", "TB", "PB"];
+const BINARY_BYTE_UNITS = ["B", "KiB", "MiB", "GiB", "TiB", "PiB"];
+
+const bytes: FormatterFn = (value, o) => {
+  const n = asNumber(value);
+  if (n == null) return asText(value);
+  const binary = o.binary === true;
+  const step = binary ? 1024 : 1000;
+  const units = binary ? BINARY_BYTE_UNITS : BYTE_UNITS;
+
+  let i = 0;
+  let x = n;
+  while (Math.abs(x) >= step && i < units.length - 1) {
+    x /= step;
+    i++;
+  }
+  return affix(formatNumber(x, o, i === 0 ? 0 : 1), o, units[i]);
+};
+
+/* ------------------------------------------------------------------
+ * Energy / power autoscaling
+ * ------------------------------------------------------------------ */
+
+const SI_PREFIXES = ["", "k", "M", "G", "T"];
+
+/** `unit` is the unit of the input (e.g. kWh); the output picks the best SI prefix. */
+function siScaled(base: string, defaultUnit: string): FormatterFn {
+  return (value, o) => {
+    const n = asNumber(value);
+    if (n == null) return asText(value);
+
+    const inputUnit = optString(o, "unit") ?? defaultUnit;
+    const inputPrefix = inputUnit.endsWith(base) ? inputUnit.slice(0, -base.length) : "";
+    let i = Math.max(0, SI_PREFIXES.indexOf(inputPrefix));
+    let x = n;
+
+    while (Math.abs(x) >= 1000 && i < SI_PREFIXES.length - 1) {
+      x /= 1000;
+      i++;
+    }
+    while (Math.abs(x) < 1 && x !== 0 && i > 0) {
+      x *= 1000;
+      i--;
+    }
+    return affix(formatNumber(x, o, 2), o, `${SI_PREFIXES[i]}${base}`);
+  };
+}
+
+const energy = siScaled("Wh", "kWh");
+const power = siScaled("W", "W");
+
+/* ------------------------------------------------------------------
+ * Durations and time
+ * ------------------------------------------------------------------ */
+
+const DURATION_INPUT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  min: 60_000,
+  h: 3600_000,
+  d: 86_400_000,
+};
+
+const DURATION_PARTS: Array<[string, number]> = [
+  ["d", 86_400_000],
+  ["h", 3600_000],
+  ["m", 60_000],
+  ["s", 1000],
+];
+
+/** `unit` is the unit of the input (default seconds); output like `1h 5m`. */
+const duration: FormatterFn = (value, o) => {
+  const n = asNumber(value);
+  if (n == null) return asText(value);
+
+  let ms = Math.abs(n) * (DURATION_INPUT_MS[optString(o, "unit") ?? "s"] ?? 1000);
+  const maxParts = optNumber(o, "max_parts") ?? 2;
+  const parts: string[] = [];
+
+  for (const [label, size] of DURATION_PARTS) {
+    if (parts.length >= maxParts) break;
+    const count = Math.floor(ms / size);
+    if (count === 0 && parts.length === 0) continue;
+    if (count > 0) parts.push(`${count}${label}`);
+    ms -= count * size;
+  }
+
+  const text = parts.length ? parts.join(" ") : "0s";
+  return n < 0 ? `-${text}` : text;
+};
+
+function asTimestampMs(v: unknown): number | undefined {
+  if (v instanceof Date) return v.getTime();
+  if (typeof v === "string" && !/^-?\d+(\.\d+)?$/.test(v.trim())) {
+    const ms = Date.parse(v);
+    return Number.isFinite(ms) ? ms : undefined;
+  }
+  const n = asNumber(v);
+  if (n == null) return undefined;
+  // epoch seconds vs epoch ms
+  return Math.abs(n) < 1e11 ? n * 1000 : n;
+}
+
+const RELATIVE_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ["year", 365 * 86_400_000],
+  ["month", 30 * 86_400_000],
+  ["week", 7 * 86_400_000],
+  ["day", 86_400_000],
+  ["hour", 3600_000],
+  ["minute", 60_000],
+  ["second", 1000],
+];
+
+/** Timestamp → "5 minutes ago" / "in 2 hours", relative to render time. */
+const relative: FormatterFn = (value, o) => {
+  const ms = asTimestampMs(value);
+  if (ms == null) return asText(value);
+
+  const diff = ms - Date.now();
+  const fmt = cached(
+    relativeFormats,
+    [o.locale],
+    () => new Intl.RelativeTimeFormat(o.locale, { numeric: "auto" }),
+  );
+  for (const [unit, size] of RELATIVE_UNITS) {
+    if (Math.abs(diff) >= size || unit === "second") {
+      return fmt.format(Math.round(diff / size), unit);
+    }
+  }
+  return "";
+};
+
+/**
+ * Render a date with a pattern: YYYY YY MMMM MMM MM M DD D dddd ddd HH H hh h mm ss A.
+ * Text in [brackets] is copied literally.
+ */
+export function formatDatePattern(
+  ms: number,
+  pattern: string,
+  locale?: string,
+  timeZone?: string,
+): string {
+  const d = new Date(ms);
+  const parts: Record<string, string> = {};
+  const numeric = dateFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  });
+  for (const p of numeric.formatToParts(d)) parts[p.type] = p.value;
+
+  const name = (opts: Intl.DateTimeFormatOptions) =>
+    dateFormat(locale, { timeZone, ...opts }).format(d);
+  const pad = (v: string | number) => String(v).padStart(2, "0");
+  const hour = Number(parts.hour) % 24;
+  const hour12 = hour % 12 === 0 ? 12 : hour % 12;
+
+  const tokens: Record<string, () => string> = {
+    YYYY: () => parts.year,
+    YY: () => parts.year.slice(-2),
+    MMMM: () => name({ month: "long" }),
+    MMM: () => name({ month: "short" }),
+    MM: () => pad(parts.month),
+    M: () => String(Number(parts.month)),
+    DD: () => pad(parts.day),
+    D: () => String(Number(parts.day)),
+    dddd: () => name({ weekday: "long" }),
+    ddd: () => name({ weekday: "short" }),
+    HH: () => pad(hour),
+    H: () => String(hour),
+    hh: () => pad(hour12),
+    h: () => String(hour12),
+    mm: () => pad(parts.minute),
+    ss: () => pad(parts.second),
+    A: () => (hour < 12 ? "AM" : "PM"),
+  };
+
+  return pattern.replace(
+    /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A/g,
+    (match, literal: string | undefined) => literal ?? tokens[match](),
+  );
+}
+
+/**
+ * Timestamp → `pattern`, or the locale's medium date + short time without one,
+ * in `time_zone` (HA's zone unless the token sets one).
+ */
+const date: FormatterFn = (value, o) => {
+  const ms = asTimestampMs(value);
+  if (ms == null) return asText(value);
+
+  const timeZone = optString(o, "time_zone");
+  const pattern = optString(o, "pattern");
+  if (pattern) return formatDatePattern(ms, pattern, o.locale, timeZone);
+
+  return dateFormat(o.locale, { timeZone, dateStyle: "medium", timeStyle: "short" }).format(
+    new Date(ms),
+  );
+};
+
+export const BUILTIN_FORMATTERS: Record<string, FormatterFn> = {
+  number,
+  unit: number,
+  percent,
+  bytes,
+  energy,
+  power,
+  duration,
+  relative,
+  date,
+};
@@ -0,0 +1,162 @@
+import type { HassEntity } from "../ha-types";
+import { BUILTIN_FORMATTERS } from "./builtins";
+import { isFormatToken } from "../tokens/guards";
+
+/*
+ * `$format` string interpolation.
+ *   "{name}"          the bound value (numbers formatted for the HA locale)
+ *   "{name:.1}"       … with exactly one decimal
+ *   "{name:unit}"     unit_of_measurement of the bound entity (its `$unit` when converted)
+ *   "{name:name}"     friendly_name of the bound entity
+ *   "{name:changed}"  last_changed as relative time ("3 minutes ago")
+ *   "{name:updated}"  last_updated as relative time
+ * `{{` and `}}` produce literal braces.
+ */
+
+export type Placeholder = { name: string; modifier?: string };
+
+/**
+ * A resolved binding: its value and, for `$entity` bindings, the entity it read
+ * (plus the unit `$unit` converted the value to, which `{name:unit}` shows).
+ */
+export type FormatBinding = { value: unknown; entity?: HassEntity; unit?: string };
+
+export const ENTITY_MODIFIERS = ["unit", "name", "changed", "updated"] as const;
+
+const NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const DECIMALS_RE = /^\.(\d+)$/;
+
+function formatError(message: string, source: string): Error {
+  const err = new Error(`[echarts-raw-card] $format: ${message} in "${source}"`) as Error & {
+    code?: string;
+  };
+  err.code = "ECHARTS_RAW_CARD_INVALID_FORMAT";
+  return err;
+}
+
+export function isKnownModifier(modifier: string): boolean {
+  return (ENTITY_MODIFIERS as readonly string[]).includes(modifier) || DECIMALS_RE.test(modifier);
+}
+
+/** Split a format string into literal text and placeholders; throws on malformed braces. */
+export function parseFormatString(source: string): Array<string | Placeholder> {
+  const out: Array<string | Placeholder> = [];
+  let text = "";
+  let i = 0;
+
+  while (i < source.length) {
+    const c = source[i];
+
+    if ((c === "{" || c === "}") && source[i + 1] === c) {
+      text += c;
+      i += 2;
+      continue;
+    }
+    if (c === "}") throw formatError('unmatched "}" (use "}}" for a literal brace)', source);
+    if (c !== "{") {
+      text += c;
+      i++;
+      continue;
+    }
+
+    const close = source.indexOf("}", i);
+    if (close < 0) throw formatError('unclosed "{"', source);
+
+    const inner = source.slice(i + 1, close).trim();
+    const colon = inner.indexOf(":");
+    const name = (colon < 0 ? inner : inner.slice(0, colon)).trim();
+    const modifier = colon < 0 ? undefined : inner.slice(colon + 1).trim();
+
+    if (!NAME_RE.test(name)) throw formatError(`invalid placeholder "{${inner}}"`, source);
+    if (modifier !== undefined && !isKnownModifier(modifier)) {
+      throw formatError(`unknown modifier "${modifier}" in "{${inner}}"`, source);
+    }
+
+    if (text) out.push(text);
+    text = "";
+    out.push(modifier === undefined ? { name } : { name, modifier });
+    i = close + 1;
+  }
+
+  if (text) out.push(text);
+  return out;
+}
+
+function renderValue(value: unknown, locale: string | undefined, decimals?: number): string {
+  if (value == null) return "";
+  if (typeof value === "number") {
+    return BUILTIN_FORMATTERS.number(value, { locale, decimals });
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function renderPlaceholder(
+  p: Placeholder,
+  binding: FormatBinding | undefined,
+  locale: string | undefined,
+): string {
+  if (!binding) return "";
+
+  const decimals = p.modifier && DECIMALS_RE.exec(p.modifier);
+  if (!p.modifier || decimals) {
+    return renderValue(binding.value, locale, decimals ? Number(decimals[1]) : undefined);
+  }
+
+  const st = binding.entity;
+  if (!st) return "";
+  switch (p.modifier) {
+    case "unit":
+      return binding.unit ?? String(st.attributes?.unit_of_measurement ?? "");
+    case "name":
+      return String(st.attributes?.friendly_name ?? st.entity_id);
+    case "changed":
+      return BUILTIN_FORMATTERS.relative(st.last_changed, { locale });
+    case "updated":
+      return BUILTIN_FORMATTERS.relative(st.last_updated, { locale });
+    default:
+      return "";
+  }
+}
+
+/** How often a chart showing `{name:changed}` / `{name:updated}` re-renders. */
+export const RELATIVE_TIME_REFRESH_SECONDS = 60;
+
+function usesRelativeTime(source: string): boolean {
+  try {
+    return parseFormatString(source).some(
+      (p) => typeof p !== "string" && (p.modifier === "changed" || p.modifier === "updated"),
+    );
+  } catch {
+    // rendering reports the bad string
+    return false;
+  }
+}
+
+/**
+ * RELATIVE_TIME_REFRESH_SECONDS when a `$format` in the option shows a relative
+ * time: "3 minutes ago" goes stale while the entity itself stays unchanged.
+ */
+export function formatRefreshSeconds(option: unknown): number | undefined {
+  const walk = (v: unknown): boolean => {
+    if (!v || typeof v !== "object") return false;
+    if (isFormatToken(v) && typeof v.$format === "string" && usesRelativeTime(v.$format)) {
+      return true;
+    }
+    if (Array.isArray(v)) return v.some(walk);
+    return Object.values(v as Record<string, unknown>).some(walk);
+  };
+  return walk(option) ? RELATIVE_TIME_REFRESH_SECONDS : undefined;
+}
+
+export function renderFormat(
+  source: string,
+  bindings: Record<string, FormatBinding>,
+  locale?: string,
+): string {
+  return parseFormatString(source)
+    .map((part) =>
+      typeof part === "string" ? part : renderPlaceholder(part, bindings[part.name], locale),
+    )
+    .join("");
+}
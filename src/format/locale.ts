@@ -0,0 +1,21 @@
+import type { HomeAssistant } from "../ha-types";
+
+// HA's number_format profile setting → a locale with that separator style
+const NUMBER_FORMAT_LOCALES: Record<string, string | undefined> = {
+  comma_decimal: "en-US",
+  decimal_comma: "de-DE",
+  space_comma: "fr-FR",
+  system: undefined,
+};
+
+/**
+ * Locale for number and date formatting, following the user's HA profile:
+ * the number format setting wins, then the UI language, then the browser default.
+ */
+export function hassNumberLocale(hass: HomeAssistant | undefined): string | undefined {
+  const numberFormat = hass?.locale?.number_format;
+  if (numberFormat && numberFormat in NUMBER_FORMAT_LOCALES) {
+    return NUMBER_FORMAT_LOCALES[numberFormat];
+  }
+  return hass?.locale?.language ?? hass?.language;
+}
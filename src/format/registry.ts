@@ -0,0 +1,100 @@
+import { LruMap } from "../history/lru-map";
+import type { FormatterToken } from "../types";
+import type { FormatterFn, FormatterOptions } from "./builtins";
+import { BUILTIN_FORMATTERS } from "./builtins";
+
+/*
+ * `$formatter` registry.
+ * A `$formatter` token resolves to a real ECharts formatter function. The
+ * function instance is cached per (token, locale, time zone) so re-resolving an unchanged
+ * option hands ECharts the same function and the diff sees no change.
+ */
+
+const registry = new Map<string, FormatterFn>(Object.entries(BUILTIN_FORMATTERS));
+
+type EchartsFormatter = (params: unknown) => string;
+
+const instances = new LruMap<string, EchartsFormatter>(200);
+
+// functions created here are expected in the resolved option; the card's
+// "JavaScript function in YAML" warning skips them
+const generated = new WeakSet<object>();
+
+/** Register (or replace) a named formatter usable as `$formatter: <name>`. */
+export function registerFormatter(name: string, fn: FormatterFn): void {
+  registry.set(name, fn);
+  instances.clear();
+}
+
+export function hasFormatter(name: string): boolean {
+  return registry.has(name);
+}
+
+export function isGeneratedFormatter(fn: unknown): boolean {
+  return typeof fn === "function" && generated.has(fn);
+}
+
+type SeriesParams = { value?: unknown; marker?: string; seriesName?: string };
+
+/**
+ * The value ECharts hands a formatter: axis labels pass it directly, labels and
+ * tooltips pass a params object whose `value` may be a `[x, y]` pair.
+ */
+export function formatterValue(params: unknown): unknown {
+  if (params == null || typeof params !== "object" || params instanceof Date) return params;
+  const v = (params as SeriesParams).value;
+  return Array.isArray(v) ? v[v.length - 1] : v;
+}
+
+export function createFormatter(
+  token: FormatterToken,
+  locale?: string,
+  timeZone?: string,
+): EchartsFormatter {
+  const key = JSON.stringify([token, locale ?? "", timeZone ?? ""]);
+  const cached = instances.get(key);
+  if (cached) return cached;
+
+  const { $formatter: name, ...rest } = token;
+  const fn = registry.get(name);
+  if (!fn) {
+    const err = new Error(
+      `[echarts-raw-card] Unknown $formatter "${name}". Built-ins: ${Object.keys(
+        BUILTIN_FORMATTERS,
+      ).join(", ")}; custom formatters are added with window.echartsRawCard.registerFormatter().`,
+    ) as Error & { code?: string };
+    err.code = "ECHARTS_RAW_CARD_UNKNOWN_FORMATTER";
+    throw err;
+  }
+
+  const options: FormatterOptions = {
+    ...rest,
+    locale: (rest.locale as string) ?? locale,
+    time_zone: (rest.time_zone as string) ?? timeZone,
+  };
+
+  const formatOne = (params: unknown): string => {
+    const value = formatterValue(params);
+    try {
+      return fn(value, options, params);
+    } catch (err) {
+      // a throwing formatter would blank the whole chart
+      console.warn(`[echarts-raw-card] $formatter "${name}" failed:`, err);
+      return value == null ? "" : String(value);
+    }
+  };
+
+  const formatter: EchartsFormatter = (params) => {
+    // axis-triggered tooltips pass one params object per series
+    if (Array.isArray(params)) {
+      return params
+        .map((p: SeriesParams) => `${p.marker ?? ""}${p.seriesName ?? ""}: ${formatOne(p)}`)
+        .join("<br/>");
+    }
+    return formatOne(params);
+  };
+
+  generated.add(formatter);
+  instances.set(key, formatter);
+  return formatter;
+}
@@ -12,11 +12,36 @@ export interface HomeAssistant {
     darkMode?: boolean;
     theme?: string;
   };
+  language?: string;
+  locale?: {
+    language: string;
+    /** "language" | "system" | "comma_decimal" | "decimal_comma" | "space_comma" | "none" */
+    number_format?: string;
+    time_format?: string;
+    /** "language" | "monday" … "sunday" */
+    first_weekday?: string;
+  };
+  config?: {
+    /** The server's IANA time zone, e.g. "Europe/Berlin" */
+    time_zone?: string;
+  };
   callApi?(method: string, path: string): Promise<unknown>;
+  connection?: {
+    subscribeMessage<T = unknown>(
+      callback: (msg: T) => void,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any -- arbitrary subscription message
+      msg: Record<string, any>,
+    ): Promise<() => Promise<void>>;
+  };
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- HA's callWS accepts arbitrary message shapes
   callWS?<T = unknown>(msg: Record<string, any>): Promise<T>;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- HA's callService accepts arbitrary data
-  callService?: (domain: string, service: string, data?: any) => Promise<void>;
+  callService?: (
+    domain: string,
+    service: string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- HA's callService accepts arbitrary data
+    data?: any,
+    target?: Record<string, unknown>,
+  ) => Promise<void>;
 }
 
 export interface LovelaceCardConfig {
@@ -43,3 +43,80 @@ export function histTimestampMs(s: HistoryStateLike): number | undefined {
   const ms = Date.parse(t);
   return Number.isFinite(ms) ? ms : undefined;
 }
+
+/* ------------------------------------------------------------------
+ * Compressed WebSocket format
+ * history/history_during_period and history/stream return
+ *   { [entity_id]: Array<{ s, a?, lc?, lu }> }
+ * where `lu` / `lc` are epoch seconds, `lc` is omitted when equal to `lu`,
+ * and `a` is omitted when attributes were not requested or did not change.
+ * Entries may also be diffs in the subscribe_entities style:
+ *   { "+": { s?, a?, lc?, lu? }, "-": { a: string[] } }
+ * ------------------------------------------------------------------ */
+
+export type DecodedState = {
+  entity_id: string;
+  state: unknown;
+  attributes: Record<string, unknown>;
+  last_changed: number; // epoch ms
+  last_updated: number; // epoch ms
+};
+
+function secondsToMs(v: unknown): number | undefined {
+  if (typeof v !== "number" || !Number.isFinite(v)) return undefined;
+  return v < 1e12 ? v * 1000 : v;
+}
+
+/**
+ * Expand one entity's compressed states into full records, carrying state and
+ * attributes forward across entries that omit them and applying `+`/`-` deltas.
+ */
+export function decodeCompressedStates(
+  entityId: string,
+  entries: HistoryStateLike[],
+  previous?: DecodedState,
+): DecodedState[] {
+  const out: DecodedState[] = [];
+  let prev = previous;
+
+  for (const entry of entries) {
+    if (!entry || typeof entry !== "object") continue;
+
+    const plus = entry["+"] as HistoryStateLike | undefined;
+    const minus = entry["-"] as { a?: string[] } | undefined;
+    const isDelta = plus !== undefined || minus !== undefined;
+    const src: HistoryStateLike = isDelta ? (plus ?? {}) : entry;
+
+    const lu = secondsToMs(src.lu) ?? histTimestampMs(src) ?? prev?.last_updated;
+    if (lu == null) continue;
+
+    const hasState = "s" in src || "state" in src;
+    const state = hasState ? histState(src) : prev?.state;
+
+    let attributes: Record<string, unknown>;
+    const a = histAttributes(src);
+    if (isDelta) {
+      attributes = { ...(prev?.attributes ?? {}), ...(a ?? {}) };
+      for (const k of minus?.a ?? []) delete attributes[k];
+    } else {
+      attributes = a ?? prev?.attributes ?? {};
+    }
+
+    // lc is only sent when it differs from lu; an unchanged state keeps the old lc
+    const explicitLc = secondsToMs(src.lc);
+    const stateChanged = !prev || state !== prev.state;
+    const lc = explicitLc ?? (stateChanged || !isDelta ? lu : prev!.last_changed);
+
+    const decoded: DecodedState = {
+      entity_id: entityId,
+      state,
+      attributes,
+      last_changed: lc,
+      last_updated: lu,
+    };
+    out.push(decoded);
+    prev = decoded;
+  }
+
+  return out;
+}
@@ -1,20 +1,36 @@
-import type { HomeAssistant } from "../ha-types";
+import type { HassEntity, HomeAssistant } from "../ha-types";
 import type { HistoryGenerator, HistoryMode } from "../types";
 import { normalizeEntitySpec, parseTime } from "../tokens/entity";
+import { hassTimeSettings, type TimeContext, type TimeSettings } from "../time/relative";
 import { coerceHistoryPointNumber } from "../tokens/transforms";
-import type { HistoryStateLike } from "./decode";
-import { histAttributes, histEntityId, histState, histTimestampMs } from "./decode";
+import type { DecodedState, HistoryStateLike } from "./decode";
+import {
+  decodeCompressedStates,
+  histAttributes,
+  histEntityId,
+  histState,
+  histTimestampMs,
+} from "./decode";
 import { downsample } from "./downsample";
-
+import { readAttr } from "../tokens/attr-path";
+import { entityUnitConverter, unitWarning, type UnitConverter } from "../units/convert";
+import { timelineColors, timelineSegments, timelineSeries, type TimelineSegment } from "./timeline";
+import type { CssVarReader } from "../color/parse";
+
+/**
+ * Key of the cached raw points: only what changes the fetch or the point values.
+ * Output-only options (series_type, sample, series_overrides, state_colors…) are
+ * applied on every call by shapeHistoryResult.
+ */
 export function historyCacheKey(
   spec: HistoryGenerator["$history"],
   startMs: number,
   endMs: number,
 ): string {
   const ids = (spec.entities ?? []).map((e) => normalizeEntitySpec(e).id).join(",");
-  const sample = spec.sample ? `${spec.sample.max_points}:${spec.sample.method ?? "mean"}` : "";
-  const overrides = spec.series_overrides ? JSON.stringify(spec.series_overrides) : "";
-  const minimal = spec.minimal_response ? "1" : "0";
+  const minimal = minimalResponse(spec) ? "1" : "0";
+  const significant =
+    spec.significant_changes_only == null ? "" : String(spec.significant_changes_only);
   return [
     ids,
     startMs,
@@ -22,11 +38,12 @@ export function historyCacheKey(
     spec.attr ?? "",
     spec.coerce ?? "number",
     JSON.stringify(spec.transforms ?? {}),
-    spec.mode ?? "",
-    spec.series_type ?? "",
-    sample,
-    overrides,
+    JSON.stringify(spec.default ?? null),
+    spec.unit ?? "",
+    // timelines keep states as strings; the other modes share numeric points
+    spec.mode === "timeline" ? "timeline" : "",
     minimal,
+    significant,
   ].join("|");
 }
 
@@ -44,26 +61,31 @@ type FetchHistoryArgs = {
   watchedEntities: Set<string>;
   cache: CacheLike<string, CacheEntry>;
   nowMs: number;
+  readCssVar?: CssVarReader;
 };
 
-export async function fetchHistory({
-  hass,
-  spec,
-  watchedEntities,
-  cache,
-  nowMs,
-}: FetchHistoryArgs): Promise<unknown> {
-  // bucket endMs when end is implicit so cache keys & HA params are stable inside cache_seconds
+/**
+ * Resolve the [start, end] window for a $history spec.
+ * "now" — an implicit `end`, and expressions like "now-6h" — is bucketed to
+ * `cache_seconds` so cache keys and HA params stay stable inside one cache window
+ * (pass `bucketEnd: false` to skip that). Calendar boundaries ("today",
+ * "start_of_week") are evaluated in the HA server's time zone and aren't moved.
+ */
+export function historyRange(
+  spec: HistoryGenerator["$history"],
+  nowMs: number,
+  bucketEnd = true,
+  time: TimeSettings = {},
+): { startMs: number; endMs: number } {
   const cacheSeconds = spec.cache_seconds ?? 30;
-  let endMs = parseTime(spec.end, nowMs);
-  if (spec.end == null) {
-    const bucket = Math.max(1, cacheSeconds) * 1000;
-    endMs = Math.floor(endMs / bucket) * bucket;
-  }
+  const bucket = Math.max(1, cacheSeconds) * 1000;
+  const baseNow = bucketEnd ? Math.floor(nowMs / bucket) * bucket : nowMs;
+  const ctx: TimeContext = { ...time, nowMs: baseNow };
 
+  const endMs = parseTime(spec.end, baseNow, ctx);
   const startMs =
     spec.start != null
-      ? parseTime(spec.start, endMs - 24 * 3600_000)
+      ? parseTime(spec.start, endMs - 24 * 3600_000, ctx)
       : endMs - (spec.hours ?? 24) * 3600_000;
 
   // Guard: invalid timestamps will crash Date#toISOString with RangeError: Invalid time value.
@@ -85,21 +107,215 @@ export async function fetchHistory({
     throw err;
   }
 
-  for (const e of spec.entities ?? []) watchedEntities.add(normalizeEntitySpec(e).id);
+  return { startMs, endMs };
+}
 
-  const cacheKey = historyCacheKey(spec, startMs, endMs);
-  const cached = cache.get(cacheKey);
-  if (cached && cached.expiresAt > nowMs) return cached.value;
+/** Numeric points per entity — raw state strings in timeline mode. */
+export type HistoryPoints = Record<string, Array<[number, number | string]>>;
 
-  const startIso = new Date(startMs).toISOString();
-  const endIso = new Date(endMs).toISOString();
-  const entityIds = (spec.entities ?? []).map((e) => normalizeEntitySpec(e).id);
+/** `unit:` converters per entity id (missing when the entity's points pass through as-is). */
+export type HistoryUnits = Record<string, UnitConverter | undefined>;
+
+/** Converters for `spec.unit`, from each entity's current unit_of_measurement. */
+export function historyUnits(
+  hass: HomeAssistant,
+  spec: HistoryGenerator["$history"],
+  entityIds: string[],
+): HistoryUnits {
+  const units: HistoryUnits = {};
+  if (!spec.unit) return units;
+  for (const id of entityIds) units[id] = entityUnitConverter(hass.states?.[id], id, spec.unit);
+  return units;
+}
+
+/**
+ * Why `spec.unit` can't apply to some of the entities. Checked per render rather
+ * than per fetch, since the points themselves come from a cache.
+ */
+export function historyUnitWarnings(
+  hass: HomeAssistant,
+  spec: HistoryGenerator["$history"],
+): string[] {
+  if (!spec.unit) return [];
+  return (spec.entities ?? [])
+    .map((e) => normalizeEntitySpec(e).id)
+    .map((id) => unitWarning(hass.states?.[id], id, spec.unit))
+    .filter((w): w is string => w != null);
+}
+
+/** The value a state contributes: a number, or the state itself for timelines. */
+export function historyPointValue(
+  raw: unknown,
+  id: string,
+  spec: HistoryGenerator["$history"],
+  convert: UnitConverter | undefined,
+): number | string | undefined {
+  if (spec.mode === "timeline") return raw == null ? undefined : String(raw);
+  return coerceHistoryPointNumber(raw, id, spec.default, spec.coerce, spec.transforms, convert);
+}
+
+/** Epoch ms of an HA timestamp; undefined when it is missing or invalid. */
+export function parseMs(iso: string | undefined): number | undefined {
+  if (!iso) return undefined;
+  const ms = Date.parse(iso);
+  return Number.isFinite(ms) ? ms : undefined;
+}
+
+/** The point a live state contributes, or undefined if it has no (numeric) value. */
+export function livePointFromState(
+  st: HassEntity,
+  spec: HistoryGenerator["$history"],
+): [number, number | string] | undefined {
+  // Attribute changes only bump last_updated; state points use last_changed like history does.
+  const ts = spec.attr
+    ? parseMs(st.last_updated)
+    : (parseMs(st.last_changed) ?? parseMs(st.last_updated));
+  if (ts == null) return undefined;
+
+  const raw = spec.attr ? readAttr(st.attributes, spec.attr) : st.state;
+  const v = historyPointValue(
+    raw,
+    st.entity_id,
+    spec,
+    entityUnitConverter(st, st.entity_id, spec.unit),
+  );
+  return v == null ? undefined : [ts, v];
+}
+
+/**
+ * `include_start_state`: a point at `startMs` from the state in force then.
+ * `extend_to_now`: the current state from `hass` (if it changed since the points
+ * were fetched) and a point at `endMs`. Both read `hass` on every call, so they
+ * follow the entity between fetches. Returns new arrays.
+ */
+export function withBoundaryPoints(
+  hass: HomeAssistant,
+  spec: HistoryGenerator["$history"],
+  points: HistoryPoints,
+  startMs: number,
+  endMs: number,
+): HistoryPoints {
+  const extend = spec.extend_to_now === true && spec.end == null;
+  if (!spec.include_start_state && !extend) return points;
 
+  const out: HistoryPoints = {};
+  for (const [id, list] of Object.entries(points)) {
+    let pts = list.slice();
+    const st = hass.states?.[id];
+    const current = st ? livePointFromState(st, spec) : undefined;
+
+    if (spec.include_start_state) {
+      let before = 0;
+      while (before < pts.length && pts[before][0] <= startMs) before++;
+      // nothing at or before the start: the current state held then if it's older
+      const boundary =
+        before > 0 ? pts[before - 1][1] : current && current[0] <= startMs ? current[1] : undefined;
+      pts = pts.slice(before);
+      if (boundary != null) pts.unshift([startMs, boundary]);
+    }
+
+    if (extend && current) {
+      const last = pts[pts.length - 1];
+      if (!last || current[0] > last[0]) pts.push([Math.max(current[0], startMs), current[1]]);
+      if (endMs > pts[pts.length - 1][0]) pts.push([endMs, current[1]]);
+    }
+
+    out[id] = pts;
+  }
+  return out;
+}
+
+function pushPoint(
+  perEntity: HistoryPoints,
+  spec: HistoryGenerator["$history"],
+  id: string,
+  ts: number,
+  raw: unknown,
+  units: HistoryUnits,
+): void {
+  const v = historyPointValue(raw, id, spec, units[id]);
+  if (v == null) return;
+  perEntity[id].push([ts, v]);
+}
+
+/**
+ * Decode a compressed WebSocket history payload (`{ [entity_id]: states[] }`)
+ * into numeric points, appending to `perEntity` for the entities it tracks.
+ */
+export function appendCompressedHistory(
+  perEntity: HistoryPoints,
+  spec: HistoryGenerator["$history"],
+  payload: Record<string, HistoryStateLike[]> | undefined,
+  previous?: Map<string, DecodedState>,
+  units: HistoryUnits = {},
+): void {
+  for (const [id, entries] of Object.entries(payload ?? {})) {
+    if (!perEntity[id] || !Array.isArray(entries)) continue;
+
+    const decoded = decodeCompressedStates(id, entries, previous?.get(id));
+    for (const st of decoded) {
+      const ts = spec.attr ? st.last_updated : st.last_changed;
+      const raw = spec.attr ? readAttr(st.attributes, spec.attr) : st.state;
+      pushPoint(perEntity, spec, id, ts, raw, units);
+    }
+    if (previous && decoded.length) previous.set(id, decoded[decoded.length - 1]);
+  }
+}
+
+/** `minimal_response` for either transport (and the cache key) — default off. */
+function minimalResponse(spec: HistoryGenerator["$history"]): boolean {
+  return spec.minimal_response ?? false;
+}
+
+/** The `history/*` WebSocket message fields shared by one-shot fetches and streams. */
+export function historyWsParams(
+  spec: HistoryGenerator["$history"],
+  entityIds: string[],
+): Record<string, unknown> {
+  // Only attribute charts need attributes; everything else can use the lean format.
+  return {
+    entity_ids: entityIds,
+    minimal_response: minimalResponse(spec),
+    no_attributes: !spec.attr,
+    significant_changes_only: spec.significant_changes_only ?? !spec.attr,
+  };
+}
+
+async function fetchHistoryPointsWs(
+  hass: HomeAssistant,
+  spec: HistoryGenerator["$history"],
+  entityIds: string[],
+  startIso: string,
+  endIso: string,
+  units: HistoryUnits,
+): Promise<HistoryPoints> {
+  const response = await hass.callWS!<Record<string, HistoryStateLike[]>>({
+    type: "history/history_during_period",
+    start_time: startIso,
+    end_time: endIso,
+    include_start_time_state: true,
+    ...historyWsParams(spec, entityIds),
+  });
+
+  const perEntity: HistoryPoints = {};
+  for (const id of entityIds) perEntity[id] = [];
+  appendCompressedHistory(perEntity, spec, response, undefined, units);
+  return perEntity;
+}
+
+async function fetchHistoryPointsRest(
+  hass: HomeAssistant,
+  spec: HistoryGenerator["$history"],
+  entityIds: string[],
+  startIso: string,
+  endIso: string,
+  units: HistoryUnits,
+): Promise<HistoryPoints> {
   const params = new URLSearchParams();
   params.set("end_time", endIso);
 
   // default OFF (your own testing: commenting it fixed the chart)
-  if (spec.minimal_response) params.set("minimal_response", "1");
+  if (minimalResponse(spec)) params.set("minimal_response", "1");
 
   // IMPORTANT:
   // HA history frequently ignores repeated filter_entity_id params (keeps only the first).
@@ -111,25 +327,7 @@ export async function fetchHistory({
     `history/period/${startIso}?${params.toString()}`,
   )) as Array<Array<HistoryStateLike>>;
 
-  const nameFrom = spec.name_from ?? "friendly_name";
-  const seriesType = spec.series_type ?? "line";
-  const showSymbol = spec.show_symbol ?? false;
-
-  const idToName = new Map<string, string>();
-
-  for (const raw of spec.entities ?? []) {
-    const { id, name: override } = normalizeEntitySpec(raw);
-    const st = hass.states?.[id];
-    const displayName =
-      override ??
-      (nameFrom === "entity_id"
-        ? id
-        : ((st?.attributes?.friendly_name as string | undefined) ?? id));
-
-    idToName.set(id, displayName);
-  }
-
-  const perEntity: Record<string, Array<[number, number]>> = {};
+  const perEntity: HistoryPoints = {};
   for (const id of entityIds) perEntity[id] = [];
 
   // HA history often returns "compressed" arrays:
@@ -147,62 +345,163 @@ export async function fetchHistory({
       const ts = histTimestampMs(s);
       if (ts == null) continue;
 
-      const raw = spec.attr ? histAttributes(s)?.[spec.attr] : histState(s);
-      const n = coerceHistoryPointNumber(raw, id, spec.default, spec.coerce, spec.transforms);
-      if (n == null) continue;
+      const raw = spec.attr ? readAttr(histAttributes(s), spec.attr) : histState(s);
+      pushPoint(perEntity, spec, id, ts, raw, units);
+    }
+  }
 
-      perEntity[id].push([ts, n]);
+  return perEntity;
+}
+
+/**
+ * Fetch raw history from HA and decode it into sorted numeric points per entity.
+ * Uses the WebSocket `history/history_during_period` API when available and
+ * falls back to REST `history/period` (always, with `transport: rest`).
+ */
+export async function fetchHistoryPoints(
+  hass: HomeAssistant,
+  spec: HistoryGenerator["$history"],
+  startMs: number,
+  endMs: number,
+): Promise<HistoryPoints> {
+  const startIso = new Date(startMs).toISOString();
+  const endIso = new Date(endMs).toISOString();
+  const entityIds = (spec.entities ?? []).map((e) => normalizeEntitySpec(e).id);
+  const transport = spec.transport ?? "auto";
+  const units = historyUnits(hass, spec, entityIds);
+
+  let perEntity: HistoryPoints | undefined;
+
+  if (transport !== "rest" && hass.callWS) {
+    try {
+      perEntity = await fetchHistoryPointsWs(hass, spec, entityIds, startIso, endIso, units);
+    } catch (err) {
+      if (transport === "websocket" || !hass.callApi) throw err;
+      console.warn("[echarts-raw-card] WebSocket history failed, falling back to REST:", err);
     }
+  } else if (transport === "websocket") {
+    throw new Error("[echarts-raw-card] $history transport: websocket requires hass.callWS");
   }
 
+  perEntity ??= await fetchHistoryPointsRest(hass, spec, entityIds, startIso, endIso, units);
+
   for (const id of entityIds) perEntity[id].sort((a, b) => a[0] - b[0]);
 
-  if (spec.sample?.max_points && spec.sample.max_points > 1) {
+  return perEntity;
+}
+
+/**
+ * Turn per-entity points into the generator's output: boundary points added,
+ * downsampled, then either `[ts, value][]` (mode: values) or an array of ECharts
+ * series (mode: series, or timeline segments running up to `range.endMs`).
+ */
+export function shapeHistoryResult(
+  hass: HomeAssistant,
+  spec: HistoryGenerator["$history"],
+  points: HistoryPoints,
+  range: { startMs: number; endMs: number } = { startMs: -Infinity, endMs: Date.now() },
+  readCssVar?: CssVarReader,
+): unknown {
+  const { startMs, endMs } = range;
+  const entityIds = (spec.entities ?? []).map((e) => normalizeEntitySpec(e).id);
+  const nameFrom = spec.name_from ?? "friendly_name";
+  const seriesType = spec.series_type ?? "line";
+  const showSymbol = spec.show_symbol ?? false;
+
+  let perEntity: HistoryPoints = {};
+  for (const id of entityIds) perEntity[id] = points[id] ?? [];
+  perEntity = withBoundaryPoints(hass, spec, perEntity, startMs, endMs);
+
+  // states don't average; timelines merge equal neighbours instead
+  if (spec.sample?.max_points && spec.sample.max_points > 1 && spec.mode !== "timeline") {
     const method = spec.sample.method ?? "mean";
     for (const id of entityIds) {
       perEntity[id] = downsample(
         perEntity[id] as Array<[number, unknown]>,
         spec.sample.max_points,
         method,
-      ) as Array<[number, number]>;
+      ) as HistoryPoints[string];
     }
   }
 
   const inferredMode: HistoryMode = spec.mode ?? (entityIds.length > 1 ? "series" : "values");
 
-  let result: unknown;
-
   if (inferredMode === "values") {
     const id = entityIds[0];
-    result = perEntity[id] ?? [];
-  } else {
-    const series = entityIds.map((id) => {
-      const displayName = idToName.get(id) ?? id;
-      const base: Record<string, unknown> = {
-        name: displayName,
-        type: seriesType,
-        showSymbol,
-        data: perEntity[id] ?? [],
-      };
-
-      // allow overrides by display name OR by entity id
-      const overridesByName = spec.series_overrides?.[displayName];
-      const overridesById = spec.series_overrides?.[id];
-      const overrides = overridesByName ?? overridesById;
-
-      if (overrides && typeof overrides === "object") Object.assign(base, overrides);
-
-      return base;
-    });
+    return perEntity[id] ?? [];
+  }
+
+  const idToName = new Map<string, string>();
+
+  for (const raw of spec.entities ?? []) {
+    const { id, name: override } = normalizeEntitySpec(raw);
+    const st = hass.states?.[id];
+    const displayName =
+      override ??
+      (nameFrom === "entity_id"
+        ? id
+        : ((st?.attributes?.friendly_name as string | undefined) ?? id));
 
-    result = series;
+    idToName.set(id, displayName);
   }
 
-  cache.set(cacheKey, {
-    ts: nowMs,
-    value: result,
-    expiresAt: nowMs + cacheSeconds * 1000,
+  const segments: Record<string, TimelineSegment[]> = {};
+  if (inferredMode === "timeline") {
+    for (const id of entityIds) segments[id] = timelineSegments(perEntity[id], endMs);
+  }
+  const colors =
+    inferredMode === "timeline" ? timelineColors(spec, segments, readCssVar) : undefined;
+
+  return entityIds.map((id) => {
+    const displayName = idToName.get(id) ?? id;
+    const base: Record<string, unknown> = colors
+      ? timelineSeries(displayName, segments[id], colors)
+      : { name: displayName, type: seriesType, showSymbol, data: perEntity[id] ?? [] };
+
+    // allow overrides by display name OR by entity id
+    const overridesByName = spec.series_overrides?.[displayName];
+    const overridesById = spec.series_overrides?.[id];
+    const overrides = overridesByName ?? overridesById;
+
+    if (overrides && typeof overrides === "object") Object.assign(base, overrides);
+
+    return base;
   });
+}
+
+export async function fetchHistory({
+  hass,
+  spec,
+  watchedEntities,
+  cache,
+  nowMs,
+  readCssVar,
+}: FetchHistoryArgs): Promise<unknown> {
+  const cacheSeconds = spec.cache_seconds ?? 30;
+  const { startMs, endMs } = historyRange(
+    spec,
+    nowMs,
+    true,
+    hassTimeSettings(hass, spec.week_start),
+  );
+
+  for (const e of spec.entities ?? []) watchedEntities.add(normalizeEntitySpec(e).id);
+
+  // the raw points are cached and shaped per call, so boundary points track `hass`
+  const cacheKey = historyCacheKey(spec, startMs, endMs);
+  const cached = cache.get(cacheKey);
+  let points = cached && cached.expiresAt > nowMs ? (cached.value as HistoryPoints) : undefined;
+
+  if (!points) {
+    points = await fetchHistoryPoints(hass, spec, startMs, endMs);
+    cache.set(cacheKey, {
+      ts: nowMs,
+      value: points,
+      expiresAt: nowMs + cacheSeconds * 1000,
+    });
+  }
 
-  return result;
+  // extended lines run to the actual "now", not the cache bucket's end
+  const shownEnd = spec.extend_to_now && spec.end == null ? nowMs : endMs;
+  return shapeHistoryResult(hass, spec, points, { startMs, endMs: shownEnd }, readCssVar);
 }
@@ -0,0 +1,105 @@
+import type { HomeAssistant } from "../ha-types";
+import type { HistoryGenerator } from "../types";
+import type { CssVarReader } from "../color/parse";
+import { normalizeEntitySpec } from "../tokens/entity";
+import { hassTimeSettings } from "../time/relative";
+import type { HistoryPoints } from "./fetch";
+import {
+  fetchHistoryPoints,
+  historyRange,
+  livePointFromState,
+  parseMs,
+  shapeHistoryResult,
+} from "./fetch";
+
+/*
+ * Live `$history` (live: true).
+ * The window is seeded once from the history API; afterwards each new state
+ * that arrives through `hass` is appended and points older than the window are
+ * dropped, so the chart slides in real time without re-fetching.
+ */
+
+type LiveEntry = {
+  points: HistoryPoints;
+  // last_updated of the newest state already in `points`, per entity
+  lastUpdated: Record<string, number>;
+};
+
+/**
+ * Drop points that fell out of the window, in place. With `keepStartState` the
+ * newest dropped point moves to `startMs` instead (a timeline's opening state).
+ */
+export function trimWindow(
+  points: Array<[number, unknown]>,
+  startMs: number,
+  keepStartState = false,
+): void {
+  let drop = 0;
+  while (drop < points.length && points[drop][0] < startMs) drop++;
+  if (drop === 0) return;
+  if (keepStartState) {
+    // a new tuple: earlier snapshots share the old one
+    drop--;
+    points[drop] = [startMs, points[drop][1]];
+  }
+  if (drop > 0) points.splice(0, drop);
+}
+
+export class LiveHistoryStore {
+  private readonly _entries = new Map<string, LiveEntry>();
+
+  clear(): void {
+    this._entries.clear();
+  }
+
+  async resolve(
+    hass: HomeAssistant,
+    spec: HistoryGenerator["$history"],
+    watchedEntities: Set<string>,
+    nowMs: number,
+    readCssVar?: CssVarReader,
+  ): Promise<unknown> {
+    const entityIds = (spec.entities ?? []).map((e) => normalizeEntitySpec(e).id);
+    for (const id of entityIds) watchedEntities.add(id);
+
+    // the window always ends at "now" — no cache bucketing for live charts
+    const { startMs, endMs } = historyRange(
+      spec,
+      nowMs,
+      false,
+      hassTimeSettings(hass, spec.week_start),
+    );
+
+    const key = JSON.stringify(spec);
+    let entry = this._entries.get(key);
+
+    if (!entry) {
+      const points = await fetchHistoryPoints(hass, spec, startMs, endMs);
+      const lastUpdated: Record<string, number> = {};
+      for (const id of entityIds) {
+        lastUpdated[id] = parseMs(hass.states?.[id]?.last_updated) ?? endMs;
+      }
+      entry = { points, lastUpdated };
+      this._entries.set(key, entry);
+    }
+
+    for (const id of entityIds) {
+      const series = (entry.points[id] ??= []);
+      const st = hass.states?.[id];
+      const updated = parseMs(st?.last_updated);
+
+      if (st && updated != null && updated > (entry.lastUpdated[id] ?? -Infinity)) {
+        entry.lastUpdated[id] = updated;
+        const p = livePointFromState(st, spec);
+        if (p && (series.length === 0 || p[0] >= series[series.length - 1][0])) series.push(p);
+      }
+
+      trimWindow(series, startMs, spec.mode === "timeline" || spec.include_start_state);
+    }
+
+    // shape from a copy: downsampling must not eat into the stored raw points
+    const snapshot: HistoryPoints = {};
+    for (const id of entityIds) snapshot[id] = entry.points[id].slice();
+    return shapeHistoryResult(hass, spec, snapshot, { startMs, endMs }, readCssVar);
+  }
+}
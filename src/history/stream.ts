@@ -0,0 +1,180 @@
+import type { HomeAssistant } from "../ha-types";
+import type { HistoryGenerator } from "../types";
+import type { CssVarReader } from "../color/parse";
+import { normalizeEntitySpec } from "../tokens/entity";
+import { hassTimeSettings } from "../time/relative";
+import type { DecodedState, HistoryStateLike } from "./decode";
+import type { HistoryPoints } from "./fetch";
+import {
+  appendCompressedHistory,
+  historyRange,
+  historyUnits,
+  historyWsParams,
+  shapeHistoryResult,
+} from "./fetch";
+import { trimWindow } from "./live";
+
+/*
+ * Streaming `$history` (stream: true).
+ * One `history/stream` subscription per spec: HA sends the window's history as
+ * the first message and pushes every new state after that, so the chart keeps
+ * up even for entities whose changes don't reach `hass` in time.
+ */
+
+type StreamMessage = { states?: Record<string, HistoryStateLike[]> };
+
+/** How long to wait for the first `history/stream` message before using a one-shot fetch. */
+export const STREAM_READY_TIMEOUT_MS = 10_000;
+
+type StreamEntry = {
+  points: HistoryPoints;
+  previous: Map<string, DecodedState>;
+  ready: Promise<void>;
+  isReady: boolean;
+  /** the first message missed STREAM_READY_TIMEOUT_MS; renders use the fallback until it lands */
+  timedOut: boolean;
+  unsubscribe?: Promise<() => Promise<void>>;
+};
+
+export class HistoryStreamStore {
+  private readonly _entries = new Map<string, StreamEntry>();
+
+  /** `onUpdate` runs after each pushed message that follows the initial history. */
+  constructor(private readonly _onUpdate: () => void) {}
+
+  /** Unsubscribe everything (config change, disconnect). */
+  clear(): void {
+    for (const entry of this._entries.values()) {
+      void entry.unsubscribe
+        ?.then((unsub) => unsub())
+        .catch(() => {
+          // connection already gone
+        });
+    }
+    this._entries.clear();
+  }
+
+  /**
+   * `fallback` (normally the one-shot fetch) answers while HA hasn't sent the
+   * stream's first message within STREAM_READY_TIMEOUT_MS; the subscription stays
+   * open and takes over once that message arrives.
+   */
+  async resolve(
+    hass: HomeAssistant,
+    spec: HistoryGenerator["$history"],
+    watchedEntities: Set<string>,
+    nowMs: number,
+    fallback: () => Promise<unknown>,
+    readCssVar?: CssVarReader,
+  ): Promise<unknown> {
+    const entityIds = (spec.entities ?? []).map((e) => normalizeEntitySpec(e).id);
+    for (const id of entityIds) watchedEntities.add(id);
+
+    const key = JSON.stringify(spec);
+    let entry = this._entries.get(key);
+    if (!entry) {
+      entry = this._subscribe(hass, spec, entityIds, key, nowMs);
+      this._entries.set(key, entry);
+    }
+
+    if (!entry.isReady && entry.timedOut) return fallback();
+
+    let ready: boolean;
+    try {
+      ready = await settlesWithin(entry.ready, STREAM_READY_TIMEOUT_MS);
+    } catch (err) {
+      // let the next render retry with a fresh subscription
+      if (this._entries.get(key) === entry) this._entries.delete(key);
+      throw err;
+    }
+
+    if (!ready) {
+      entry.timedOut = true;
+      const silent = entry;
+      silent.ready.catch(() => {
+        if (this._entries.get(key) === silent) this._entries.delete(key);
+      });
+      return fallback();
+    }
+
+    const { startMs, endMs } = historyRange(
+      spec,
+      nowMs,
+      false,
+      hassTimeSettings(hass, spec.week_start),
+    );
+    const snapshot: HistoryPoints = {};
+    for (const id of entityIds) {
+      const series = (entry.points[id] ??= []);
+      trimWindow(series, startMs, spec.mode === "timeline" || spec.include_start_state);
+      snapshot[id] = series.slice();
+    }
+    return shapeHistoryResult(hass, spec, snapshot, { startMs, endMs }, readCssVar);
+  }
+
+  private _subscribe(
+    hass: HomeAssistant,
+    spec: HistoryGenerator["$history"],
+    entityIds: string[],
+    key: string,
+    nowMs: number,
+  ): StreamEntry {
+    const connection = hass.connection;
+    if (!connection) {
+      throw new Error("[echarts-raw-card] $history stream requires hass.connection");
+    }
+
+    const { startMs } = historyRange(spec, nowMs, false, hassTimeSettings(hass, spec.week_start));
+    const units = historyUnits(hass, spec, entityIds);
+    const points: HistoryPoints = {};
+    for (const id of entityIds) points[id] = [];
+
+    let first = true;
+    let markReady!: () => void;
+    const entry: StreamEntry = {
+      points,
+      previous: new Map(),
+      ready: new Promise<void>((resolve) => (markReady = resolve)),
+      isReady: false,
+      timedOut: false,
+    };
+
+    const onMessage = (msg: StreamMessage) => {
+      // a stale subscription still delivering after clear()
+      if (this._entries.get(key) !== entry) return;
+
+      appendCompressedHistory(points, spec, msg.states, entry.previous, units);
+      for (const id of entityIds) points[id].sort((a, b) => a[0] - b[0]);
+
+      if (first) {
+        first = false;
+        entry.isReady = true;
+        markReady();
+        // renders have been using the fallback; switch them over to the stream
+        if (entry.timedOut) this._onUpdate();
+      } else {
+        this._onUpdate();
+      }
+    };
+
+    entry.unsubscribe = connection.subscribeMessage<StreamMessage>(onMessage, {
+      type: "history/stream",
+      start_time: new Date(startMs).toISOString(),
+      ...historyWsParams(spec, entityIds),
+    });
+
+    // surface a rejected subscribe through `ready`
+    entry.ready = Promise.race([entry.ready, entry.unsubscribe.then(() => entry.ready)]);
+
+    return entry;
+  }
+}
+
+/** Resolves true once `p` resolves, false if `ms` passes first; rejections pass through. */
+function settlesWithin(p: Promise<void>, ms: number): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), ms);
+  });
+  return Promise.race([p.then(() => true), timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,110 @@
+import type {
+  CustomSeriesRenderItemAPI,
+  CustomSeriesRenderItemParams,
+  CustomSeriesRenderItemReturn,
+} from "echarts";
+import type { HistoryGenerator } from "../types";
+import { ECHARTS_PALETTE } from "../echarts/theme";
+import { resolveColor, type CssVarReader } from "../color/parse";
+
+/*
+ * `$history` `mode: timeline`: each entity's states as contiguous
+ * `[start, end, state]` segments (consecutive equal states merged), drawn as
+ * bars on a category y-axis that lists the entities:
+ *   series: [{ type: custom, name, renderItem, data: [{ value: [name, start, end, state] }] }]
+ */
+
+export type TimelineSegment = [start: number, end: number, state: string];
+
+/** Fraction of a category band a timeline bar fills. */
+const BAR_HEIGHT = 0.6;
+
+/** Merge equal neighbours into segments; the last one runs to `endMs`. */
+export function timelineSegments(
+  points: ReadonlyArray<readonly [number, number | string]>,
+  endMs: number,
+): TimelineSegment[] {
+  const segments: TimelineSegment[] = [];
+  for (const [ts, value] of points) {
+    const state = String(value);
+    const last = segments[segments.length - 1];
+    if (last && last[2] === state) continue;
+    if (last) last[1] = ts;
+    segments.push([ts, ts, state]);
+  }
+  const last = segments[segments.length - 1];
+  if (last) last[1] = Math.max(last[0], endMs);
+  return segments;
+}
+
+/** One bar from `start` to `end` on the entity's category row, clipped to the grid. */
+export function renderTimelineItem(
+  params: CustomSeriesRenderItemParams,
+  api: CustomSeriesRenderItemAPI,
+): CustomSeriesRenderItemReturn {
+  const row = api.value(0);
+  const [x0, y] = api.coord([api.value(1), row]);
+  const [x1] = api.coord([api.value(2), row]);
+  const height = (api.size?.([0, 1]) as number[])[1] * BAR_HEIGHT;
+
+  const grid = params.coordSys as unknown as { x: number; y: number; width: number };
+  const left = Math.max(x0, grid.x);
+  const right = Math.min(x1, grid.x + grid.width);
+  if (right <= left) return null;
+
+  return {
+    type: "rect",
+    transition: ["shape"],
+    shape: { x: left, y: y - height / 2, width: right - left, height },
+    style: api.style(),
+  };
+}
+
+/**
+ * Colour per state: `state_colors` first (CSS variables and HA colour names
+ * resolved), then the palette in first-seen order.
+ */
+export function timelineColors(
+  spec: HistoryGenerator["$history"],
+  segmentsById: Record<string, TimelineSegment[]>,
+  readCssVar?: CssVarReader,
+): Map<string, string> {
+  const colors = new Map(
+    Object.entries(spec.state_colors ?? {}).map(([state, c]) => [
+      state,
+      resolveColor(c, readCssVar),
+    ]),
+  );
+  let next = 0;
+  for (const segments of Object.values(segmentsById)) {
+    for (const [, , state] of segments) {
+      if (colors.has(state)) continue;
+      colors.set(state, ECHARTS_PALETTE[next++ % ECHARTS_PALETTE.length]);
+    }
+  }
+  return colors;
+}
+
+export function timelineSeries(
+  name: string,
+  segments: TimelineSegment[],
+  colors: Map<string, string>,
+): Record<string, unknown> {
+  return {
+    name,
+    type: "custom",
+    renderItem: renderTimelineItem,
+    dimensions: [
+      { name: "entity", type: "ordinal" },
+      { name: "start", type: "time" },
+      { name: "end", type: "time" },
+      { name: "state", type: "ordinal" },
+    ],
+    encode: { x: [1, 2], y: 0, tooltip: [1, 2, 3] },
+    data: segments.map(([start, end, state]) => ({
+      name: state,
+      value: [name, start, end, state],
+      itemStyle: { color: colors.get(state) },
+    })),
+  };
+}
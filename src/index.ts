@@ -1,4 +1,8 @@
 import "./echarts-raw-card";
+import "./echarts-raw-card-editor";
+import { installGlobalApi } from "./api";
+
+installGlobalApi();
 
 // Console banner (similar vibe to other HA custom cards)
 (() => {
@@ -26,4 +30,5 @@ import "./echarts-raw-card";
   type: "echarts-raw-card",
   name: "ECharts Raw Card",
   description: "Render raw Apache ECharts option objects in Lovelace.",
+  preview: true,
 });
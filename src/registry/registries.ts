@@ -0,0 +1,137 @@
+import type { HomeAssistant } from "../ha-types";
+
+/*
+ * Entity / device / area / label registries, loaded over the WebSocket API for
+ * `include` / `exclude` selectors. Loaded once per card and reloaded after HA
+ * reports a registry change (a new device, an entity moved to another area…).
+ */
+
+export type EntityRegistryEntry = {
+  entity_id: string;
+  device_id?: string | null;
+  area_id?: string | null;
+  platform?: string;
+  labels?: string[];
+  device_class?: string | null;
+  original_device_class?: string | null;
+};
+
+export type DeviceRegistryEntry = {
+  id: string;
+  area_id?: string | null;
+  name?: string | null;
+  name_by_user?: string | null;
+  labels?: string[];
+};
+
+export type AreaRegistryEntry = { area_id: string; name: string };
+export type LabelRegistryEntry = { label_id: string; name: string };
+
+export type Registries = {
+  entities: Map<string, EntityRegistryEntry>;
+  devices: Map<string, DeviceRegistryEntry>;
+  areas: AreaRegistryEntry[];
+  labels: LabelRegistryEntry[];
+};
+
+export const EMPTY_REGISTRIES: Registries = {
+  entities: new Map(),
+  devices: new Map(),
+  areas: [],
+  labels: [],
+};
+
+const REGISTRY_EVENTS = [
+  "entity_registry_updated",
+  "device_registry_updated",
+  "area_registry_updated",
+  "label_registry_updated",
+];
+
+// HA fires bursts of registry events (e.g. while an integration sets up); reload once per burst
+const CHANGE_DEBOUNCE_MS = 1000;
+
+async function listOrEmpty<T>(hass: HomeAssistant, type: string): Promise<T[]> {
+  try {
+    return (await hass.callWS!<T[]>({ type })) ?? [];
+  } catch (err) {
+    // e.g. label_registry on older HA versions
+    console.warn(`[echarts-raw-card] ${type} failed:`, err);
+    return [];
+  }
+}
+
+export async function loadRegistries(hass: HomeAssistant): Promise<Registries> {
+  if (!hass.callWS) return EMPTY_REGISTRIES;
+
+  const [entities, devices, areas, labels] = await Promise.all([
+    listOrEmpty<EntityRegistryEntry>(hass, "config/entity_registry/list"),
+    listOrEmpty<DeviceRegistryEntry>(hass, "config/device_registry/list"),
+    listOrEmpty<AreaRegistryEntry>(hass, "config/area_registry/list"),
+    listOrEmpty<LabelRegistryEntry>(hass, "config/label_registry/list"),
+  ]);
+
+  return {
+    entities: new Map(entities.map((e) => [e.entity_id, e])),
+    devices: new Map(devices.map((d) => [d.id, d])),
+    areas,
+    labels,
+  };
+}
+
+export class RegistryStore {
+  private _loading?: Promise<Registries>;
+  private _unsubscribe: Array<Promise<() => Promise<void>>> = [];
+  private _changeTimer?: ReturnType<typeof setTimeout>;
+
+  /** `onChange` runs (debounced) after HA reports a registry update. */
+  constructor(private readonly _onChange: () => void) {}
+
+  /** The registries, loaded on first use and after each change. */
+  get(hass: HomeAssistant): Promise<Registries> {
+    if (!this._loading) {
+      this._subscribe(hass);
+      this._loading = loadRegistries(hass);
+      // don't cache a failed load
+      this._loading.catch(() => (this._loading = undefined));
+    }
+    return this._loading;
+  }
+
+  /** Unsubscribe and forget the loaded registries (config change, disconnect). */
+  clear(): void {
+    for (const unsub of this._unsubscribe) {
+      void unsub
+        .then((fn) => fn())
+        .catch(() => {
+          // connection already gone
+        });
+    }
+    this._unsubscribe = [];
+    if (this._changeTimer) clearTimeout(this._changeTimer);
+    this._changeTimer = undefined;
+    this._loading = undefined;
+  }
+
+  private _subscribe(hass: HomeAssistant): void {
+    const connection = hass.connection;
+    if (!connection || this._unsubscribe.length) return;
+
+    const onEvent = () => {
+      if (this._changeTimer) clearTimeout(this._changeTimer);
+      this._changeTimer = setTimeout(() => {
+        this._changeTimer = undefined;
+        this._loading = undefined;
+        this._onChange();
+      }, CHANGE_DEBOUNCE_MS);
+    };
+
+    for (const event_type of REGISTRY_EVENTS) {
+      const unsub = connection.subscribeMessage(onEvent, { type: "subscribe_events", event_type });
+      unsub.catch(() => {
+        // non-admin users can't subscribe to some events; selectors still work, just not live
+      });
+      this._unsubscribe.push(unsub);
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import type { HomeAssistant } from "../ha-types";
+import type { EntitySelector } from "../types";
+import type { Registries } from "./registries";
+
+/*
+ * `include` / `exclude` entity selectors.
+ * Every field given must match (AND); a list matches any of its values (OR).
+ * Areas, devices and labels match by id or (case-insensitive) name; an
+ * entity's own area overrides its device's.
+ */
+
+function asList(v: string | string[] | undefined): string[] | undefined {
+  if (v == null) return undefined;
+  return Array.isArray(v) ? v : [v];
+}
+
+/** `*` matches any run of characters, `?` exactly one. */
+export function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace(/\*/g, ".*").replace(/\?/g, ".")}$`);
+}
+
+function matchesIdOrName(
+  wanted: string[],
+  ids: Array<string | null | undefined>,
+  nameOf: (id: string) => string | undefined,
+): boolean {
+  const lower = wanted.map((w) => w.toLowerCase());
+  return ids.some((id) => {
+    if (!id) return false;
+    if (wanted.includes(id)) return true;
+    const name = nameOf(id)?.toLowerCase();
+    return name != null && lower.includes(name);
+  });
+}
+
+/** The entity's area: its own, else its device's. */
+export function entityAreaId(reg: Registries, entityId: string): string | undefined {
+  const entry = reg.entities.get(entityId);
+  const device = entry?.device_id ? reg.devices.get(entry.device_id) : undefined;
+  return entry?.area_id ?? device?.area_id ?? undefined;
+}
+
+/** device_class from the state attributes, falling back to the entity registry. */
+export function entityDeviceClass(
+  hass: HomeAssistant,
+  reg: Registries,
+  entityId: string,
+): string | undefined {
+  const entry = reg.entities.get(entityId);
+  return (
+    (hass.states[entityId]?.attributes?.device_class as string | undefined) ??
+    entry?.device_class ??
+    entry?.original_device_class ??
+    undefined
+  );
+}
+
+export function areaName(reg: Registries, areaId: string): string | undefined {
+  return reg.areas.find((a) => a.area_id === areaId)?.name;
+}
+
+export function deviceName(reg: Registries, deviceId: string): string | undefined {
+  const d = reg.devices.get(deviceId);
+  return d?.name_by_user ?? d?.name ?? undefined;
+}
+
+function entityMatches(
+  hass: HomeAssistant,
+  reg: Registries,
+  entityId: string,
+  sel: EntitySelector,
+): boolean {
+  const entry = reg.entities.get(entityId);
+  const device = entry?.device_id ? reg.devices.get(entry.device_id) : undefined;
+
+  const domains = asList(sel.domain);
+  if (domains && !domains.includes(entityId.split(".")[0])) return false;
+
+  const globs = asList(sel.entity_glob);
+  if (globs && !globs.some((g) => globToRegExp(g).test(entityId))) return false;
+
+  const deviceClasses = asList(sel.device_class);
+  if (deviceClasses) {
+    const dc = entityDeviceClass(hass, reg, entityId);
+    if (!dc || !deviceClasses.includes(dc)) return false;
+  }
+
+  const integrations = asList(sel.integration);
+  if (integrations && !(entry?.platform && integrations.includes(entry.platform))) return false;
+
+  const areas = asList(sel.area);
+  if (areas) {
+    const nameOf = (id: string) => areaName(reg, id);
+    if (!matchesIdOrName(areas, [entityAreaId(reg, entityId)], nameOf)) return false;
+  }
+
+  const devices = asList(sel.device);
+  if (devices) {
+    const nameOf = (id: string) => deviceName(reg, id);
+    if (!matchesIdOrName(devices, [entry?.device_id], nameOf)) return false;
+  }
+
+  const labels = asList(sel.label);
+  if (labels) {
+    const nameOf = (id: string) => reg.labels.find((l) => l.label_id === id)?.name;
+    const ids = [...(entry?.labels ?? []), ...(device?.labels ?? [])];
+    if (!matchesIdOrName(labels, ids, nameOf)) return false;
+  }
+
+  return true;
+}
+
+function matchesAny(
+  hass: HomeAssistant,
+  reg: Registries,
+  entityId: string,
+  selectors: EntitySelector | EntitySelector[] | undefined,
+): boolean {
+  if (!selectors) return false;
+  const list = Array.isArray(selectors) ? selectors : [selectors];
+  return list.some((sel) => entityMatches(hass, reg, entityId, sel));
+}
+
+/**
+ * Entity ids from `hass.states` matching `include` (any of, if a list) and none of
+ * `exclude`, sorted so the chart order is stable.
+ */
+export function selectEntities(
+  hass: HomeAssistant,
+  reg: Registries,
+  include: EntitySelector | EntitySelector[],
+  exclude?: EntitySelector | EntitySelector[],
+): string[] {
+  return Object.keys(hass.states ?? {})
+    .filter((id) => matchesAny(hass, reg, id, include) && !matchesAny(hass, reg, id, exclude))
+    .sort();
+}
+
+export function isExcluded(
+  hass: HomeAssistant,
+  reg: Registries,
+  entityId: string,
+  exclude: EntitySelector | EntitySelector[] | undefined,
+): boolean {
+  return matchesAny(hass, reg, entityId, exclude);
+}
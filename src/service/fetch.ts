@@ -0,0 +1,182 @@
+import type { HomeAssistant } from "../ha-types";
+import type { ForecastToken, ServiceToken } from "../types";
+import { isForecastToken, isPlainObject, isServiceToken } from "../tokens/guards";
+import { readAttr } from "../tokens/attr-path";
+
+/*
+ * `$service` / `$forecast`: call a service with `return_response` over the
+ * WebSocket and turn the item list in its response into `[ts, value]` points
+ * or series. `$forecast: weather.home` is `$service: weather.get_forecasts`
+ * targeting that entity, mapping `datetime` → `temperature` by default.
+ */
+
+export const DEFAULT_SERVICE_CACHE_SECONDS = 900;
+
+// `error`: the call failed; it is re-thrown until the entry expires
+type CacheEntry = { ts: number; value: unknown; expiresAt: number; error?: Error };
+
+interface CacheLike<K, V> {
+  get(key: K): V | undefined;
+  set(key: K, value: V): unknown;
+}
+
+type FetchServiceArgs = {
+  hass: HomeAssistant;
+  spec: ServiceToken;
+  cache: CacheLike<string, CacheEntry>;
+  nowMs: number;
+};
+
+function serviceError(message: string): Error {
+  const err = new Error(`[echarts-raw-card] $service: ${message}`) as Error & { code?: string };
+  err.code = "ECHARTS_RAW_CARD_SERVICE_CALL";
+  return err;
+}
+
+/** The `$service` call a `$forecast` token stands for. */
+export function forecastToService(token: ForecastToken): ServiceToken {
+  const { $forecast: entityId, type, fields, ...rest } = token;
+  return {
+    ...rest,
+    $service: "weather.get_forecasts",
+    target: { entity_id: entityId },
+    data: { type: type ?? "hourly" },
+    path: rest.path ?? `[${JSON.stringify(entityId)}].forecast`,
+    fields: { time: "datetime", value: "temperature", ...fields },
+  };
+}
+
+export function serviceCacheKey(spec: ServiceToken): string {
+  return JSON.stringify(spec);
+}
+
+/** Without a `path`: descend through single-key mappings until a list turns up. */
+function findItems(response: unknown): unknown {
+  let v = response;
+  while (isPlainObject(v) && Object.keys(v).length === 1) v = Object.values(v)[0];
+  return v;
+}
+
+function toMs(v: unknown): number | undefined {
+  if (typeof v === "number") return v < 1e12 ? v * 1000 : v;
+  if (typeof v !== "string") return undefined;
+  const ms = Date.parse(v);
+  return Number.isFinite(ms) ? ms : undefined;
+}
+
+function toNumber(v: unknown): number | undefined {
+  const n = typeof v === "number" ? v : typeof v === "string" && v.trim() ? Number(v) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** Map the response to the token's output (see ServiceToken.mode). */
+export function shapeServiceResponse(spec: ServiceToken, response: unknown): unknown {
+  const root =
+    response && typeof response === "object" ? (response as Record<string, unknown>) : undefined;
+  const items = spec.path ? readAttr(root, spec.path) : findItems(response);
+  const valueFields = spec.fields?.value;
+  const mode =
+    spec.mode ?? (valueFields == null ? "raw" : Array.isArray(valueFields) ? "series" : "values");
+  if (mode === "raw") return items;
+
+  if (!Array.isArray(items)) {
+    throw serviceError(
+      `${spec.$service} returned no list${spec.path ? ` at "${spec.path}"` : ""} (set \`path\`)`,
+    );
+  }
+
+  const timeField = spec.fields?.time ?? "datetime";
+  const fields =
+    valueFields == null ? [] : Array.isArray(valueFields) ? valueFields : [valueFields];
+
+  const points = (field: string): Array<[number, number]> => {
+    const out: Array<[number, number]> = [];
+    for (const item of items) {
+      if (!isPlainObject(item)) continue;
+      const ts = toMs(readAttr(item, timeField));
+      const n = toNumber(readAttr(item, field));
+      if (ts != null && n != null) out.push([ts, n]);
+    }
+    return out.sort((a, b) => a[0] - b[0]);
+  };
+
+  if (mode === "values") return fields.length ? points(fields[0]) : [];
+
+  return fields.map((field) => {
+    const base: Record<string, unknown> = {
+      name: field,
+      type: spec.series_type ?? "line",
+      showSymbol: false,
+      data: points(field),
+    };
+    const overrides = spec.series_overrides?.[field];
+    if (overrides && typeof overrides === "object") Object.assign(base, overrides);
+    return base;
+  });
+}
+
+export async function fetchService({
+  hass,
+  spec,
+  cache,
+  nowMs,
+}: FetchServiceArgs): Promise<unknown> {
+  const cacheSeconds = spec.cache_seconds ?? DEFAULT_SERVICE_CACHE_SECONDS;
+  const key = serviceCacheKey(spec);
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > nowMs) {
+    if (cached.error) throw cached.error;
+    return cached.value;
+  }
+
+  if (!hass.callWS) {
+    throw serviceError("needs hass.callWS (service responses are WebSocket only)");
+  }
+
+  const [domain, service] = spec.$service.split(".", 2);
+  if (!domain || !service) throw serviceError(`"${spec.$service}" is not "domain.service"`);
+
+  const expiresAt = nowMs + cacheSeconds * 1000;
+  try {
+    const result = await hass.callWS<{ response?: unknown }>({
+      type: "call_service",
+      domain,
+      service,
+      service_data: spec.data ?? {},
+      ...(spec.target ? { target: spec.target } : {}),
+      return_response: true,
+    });
+
+    const value = shapeServiceResponse(spec, result?.response);
+    cache.set(key, { ts: nowMs, value, expiresAt });
+    return value;
+  } catch (err) {
+    // failures are cached too: entity changes must not re-call a failing service every second
+    // HA rejects WebSocket calls with a plain `{ code, message }`
+    const error =
+      err instanceof Error
+        ? err
+        : serviceError(`${spec.$service}: ${(err as { message?: string })?.message ?? err}`);
+    cache.set(key, { ts: nowMs, value: undefined, expiresAt, error });
+    throw error;
+  }
+}
+
+/** Shortest `cache_seconds` of the `$service` / `$forecast` tokens in the tree, if any. */
+export function serviceRefreshSeconds(option: unknown): number | undefined {
+  let min = Infinity;
+
+  const walk = (v: unknown) => {
+    if (!v || typeof v !== "object") return;
+    if (isServiceToken(v) || isForecastToken(v)) {
+      const cs = v.cache_seconds ?? DEFAULT_SERVICE_CACHE_SECONDS;
+      if (cs > 0) min = Math.min(min, cs);
+      return;
+    }
+    if (Array.isArray(v)) return v.forEach(walk);
+    Object.values(v as Record<string, unknown>).forEach(walk);
+  };
+
+  walk(option);
+  return Number.isFinite(min) ? min : undefined;
+}
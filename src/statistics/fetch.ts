@@ -1,6 +1,8 @@
 import type { HomeAssistant } from "../ha-types";
 import type { StatisticsGenerator, StatisticsMode, StatisticType } from "../types";
 import { normalizeEntitySpec, parseTime } from "../tokens/entity";
+import { hassTimeSettings, type TimeContext } from "../time/relative";
+import { unitClass, type UnitClass } from "../units/convert";
 
 /* ------------------------------------------------------------------
  * HA WebSocket statistics response shape
@@ -42,12 +44,30 @@ export function statisticsCacheKey(
     endIso,
     spec.period ?? "day",
     spec.stat_type ?? "change",
+    spec.unit ?? "",
     spec.mode ?? "",
     spec.series_type ?? "",
     JSON.stringify(spec.series_overrides ?? {}),
   ].join("|");
 }
 
+/* ------------------------------------------------------------------
+ * Units
+ * ------------------------------------------------------------------ */
+
+// HA's unit-converter names where they differ from ours
+const HA_UNIT_CLASSES: Partial<Record<UnitClass, string>> = { data_size: "information" };
+
+/**
+ * The `units` param for `spec.unit`: HA converts each statistic from the unit it
+ * was recorded in (its metadata), which may not be the entity's current one.
+ */
+function statisticsUnits(unit: string | undefined): Record<string, string> | undefined {
+  const cls = unit ? unitClass(unit) : undefined;
+  if (!unit || !cls) return undefined;
+  return { [HA_UNIT_CLASSES[cls] ?? cls]: unit };
+}
+
 /* ------------------------------------------------------------------
  * Fetch
  * ------------------------------------------------------------------ */
@@ -74,14 +94,19 @@ export async function fetchStatistics({
   const seriesType = spec.series_type ?? "bar";
   const nameFrom = spec.name_from ?? "friendly_name";
 
-  // Compute time range
-  let endMs = spec.end != null ? parseTime(spec.end, nowMs) : nowMs;
-  // Bucket end time for cache stability
+  // Compute time range: "now" (and "now-…" expressions) from a bucketed clock for cache
+  // stability; calendar boundaries ("start_of_month") are used as they are
   const bucket = Math.max(1, cacheSeconds) * 1000;
-  endMs = Math.floor(endMs / bucket) * bucket;
+  const ctx: TimeContext = {
+    ...hassTimeSettings(hass, spec.week_start),
+    nowMs: Math.floor(nowMs / bucket) * bucket,
+  };
+  const endMs = parseTime(spec.end, ctx.nowMs, ctx);
 
   const startMs =
-    spec.start != null ? parseTime(spec.start, endMs - days * 86400_000) : endMs - days * 86400_000;
+    spec.start != null
+      ? parseTime(spec.start, endMs - days * 86400_000, ctx)
+      : endMs - days * 86400_000;
 
   const entityIds = (spec.entities ?? []).map((e) => normalizeEntitySpec(e).id);
   for (const id of entityIds) watchedEntities.add(id);
@@ -94,6 +119,8 @@ export async function fetchStatistics({
   const cached = cache.get(key);
   if (cached && cached.expiresAt > nowMs) return cached.value;
 
+  const units = statisticsUnits(spec.unit);
+
   // Call HA WebSocket API
   if (!hass.callWS) {
     throw new Error(
@@ -108,6 +135,7 @@ export async function fetchStatistics({
     statistic_ids: entityIds,
     period,
     types: [statType],
+    ...(units ? { units } : {}),
   });
 
   // Build display name map
@@ -130,9 +158,9 @@ export async function fetchStatistics({
     const records = response[id] ?? [];
     for (const rec of records) {
       const ts = new Date(rec.start).getTime();
-      const val = rec[statType];
-      if (val == null || !Number.isFinite(val)) continue;
-      perEntity[id].push([ts, Math.round(val * 100) / 100]);
+      const raw = rec[statType];
+      if (raw == null || !Number.isFinite(raw)) continue;
+      perEntity[id].push([ts, Math.round(raw * 100) / 100]);
     }
   }
 
@@ -0,0 +1,118 @@
+import type { HomeAssistant } from "../ha-types";
+import type { TemplateToken } from "../types";
+import { deepEqual } from "../echarts/diff";
+
+/*
+ * `$template` subscriptions.
+ * Each distinct template (+ variables) gets one `render_template` subscription.
+ * HA renders it immediately and re-renders whenever an entity or timer the
+ * template listens to changes; each new result re-renders the card in place.
+ */
+
+type RenderTemplateMessage = {
+  result?: unknown;
+  // report_errors: true delivers render errors as messages instead of logging them
+  error?: string;
+  level?: "ERROR" | "WARNING";
+};
+
+type TemplateEntry = {
+  result?: unknown;
+  error?: string;
+  ready: Promise<void>;
+  unsubscribe?: Promise<() => Promise<void>>;
+};
+
+export function templateKey(token: Pick<TemplateToken, "$template" | "$variables">): string {
+  return JSON.stringify([token.$template, token.$variables ?? {}]);
+}
+
+export class TemplateStore {
+  private readonly _entries = new Map<string, TemplateEntry>();
+
+  /** `onUpdate` runs when a subscription pushes a result different from the last one. */
+  constructor(private readonly _onUpdate: () => void) {}
+
+  /** Unsubscribe everything (config change, disconnect). */
+  clear(): void {
+    for (const entry of this._entries.values()) {
+      void entry.unsubscribe
+        ?.then((unsub) => unsub())
+        .catch(() => {
+          // connection already gone
+        });
+    }
+    this._entries.clear();
+  }
+
+  /** The latest rendered result; subscribes on first use and waits for the first render. */
+  async resolve(hass: HomeAssistant, token: TemplateToken): Promise<unknown> {
+    const key = templateKey(token);
+    let entry = this._entries.get(key);
+    if (!entry) {
+      entry = this._subscribe(hass, token, key);
+      this._entries.set(key, entry);
+    }
+
+    try {
+      await entry.ready;
+    } catch (err) {
+      // let the next render retry with a fresh subscription
+      if (this._entries.get(key) === entry) this._entries.delete(key);
+      throw err;
+    }
+
+    if (entry.error) throw new Error(`[echarts-raw-card] $template: ${entry.error}`);
+    return entry.result;
+  }
+
+  private _subscribe(hass: HomeAssistant, token: TemplateToken, key: string): TemplateEntry {
+    const connection = hass.connection;
+    if (!connection) {
+      throw new Error("[echarts-raw-card] $template requires hass.connection");
+    }
+
+    let first = true;
+    let markReady!: () => void;
+    const entry: TemplateEntry = {
+      ready: new Promise<void>((resolve) => (markReady = resolve)),
+    };
+
+    const onMessage = (msg: RenderTemplateMessage) => {
+      // a stale subscription still delivering after clear()
+      if (this._entries.get(key) !== entry) return;
+
+      if (msg.error !== undefined) {
+        // warnings (e.g. undefined variables) still come with a result later
+        if (msg.level === "WARNING") {
+          console.warn("[echarts-raw-card] $template:", msg.error);
+          return;
+        }
+        entry.error = msg.error;
+      } else {
+        if (!first && entry.error === undefined && deepEqual(msg.result, entry.result)) return;
+        entry.error = undefined;
+        entry.result = msg.result;
+      }
+
+      if (first) {
+        first = false;
+        markReady();
+      } else {
+        this._onUpdate();
+      }
+    };
+
+    entry.unsubscribe = connection.subscribeMessage<RenderTemplateMessage>(onMessage, {
+      type: "render_template",
+      template: token.$template,
+      variables: token.$variables ?? {},
+      report_errors: true,
+    });
+
+    // surface a rejected subscribe (e.g. template syntax error) through `ready`
+    entry.ready = Promise.race([entry.ready, entry.unsubscribe.then(() => entry.ready)]);
+
+    return entry;
+  }
+}
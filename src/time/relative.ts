@@ -0,0 +1,235 @@
+import type { HomeAssistant } from "../ha-types";
+
+/*
+ * Relative and calendar time expressions for `start` / `end`:
+ *   now, now-6h, -30m, +24h          the current time, with offsets
+ *   today, yesterday, tomorrow       midnight of that day
+ *   start_of_day|week|month|year     the start of the current period
+ *   end_of_day|week|month|year       the start of the next one (an exclusive end)
+ *   start_of_month-1M                offsets chain: s m h d w M y ("m" minutes, "M" months)
+ * Calendar anchors and d/w/M/y offsets follow the wall clock of the HA server's
+ * time zone (so "today" is the server's midnight, also across DST changes).
+ */
+
+export type Weekday =
+  | "monday"
+  | "tuesday"
+  | "wednesday"
+  | "thursday"
+  | "friday"
+  | "saturday"
+  | "sunday";
+
+export const WEEKDAYS: readonly Weekday[] = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+export type TimeSettings = {
+  /** IANA zone, e.g. "Europe/Berlin" — default: the browser's */
+  timeZone?: string;
+  /** first day of the week, 0 = Sunday — default Monday */
+  weekStart?: number;
+};
+
+export type TimeContext = TimeSettings & { nowMs: number };
+
+type Anchor = "now" | "day" | "week" | "month" | "year";
+type Offset = { sign: 1 | -1; amount: number; unit: string };
+type Parsed = { anchor: Anchor; shift: 0 | -1 | 1; offsets: Offset[] };
+
+// wall-clock fields; `month` is 0-based like Date.UTC
+type Wall = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+const ANCHORS: Record<string, Pick<Parsed, "anchor" | "shift">> = {
+  now: { anchor: "now", shift: 0 },
+  today: { anchor: "day", shift: 0 },
+  yesterday: { anchor: "day", shift: -1 },
+  tomorrow: { anchor: "day", shift: 1 },
+  start_of_day: { anchor: "day", shift: 0 },
+  start_of_week: { anchor: "week", shift: 0 },
+  start_of_month: { anchor: "month", shift: 0 },
+  start_of_year: { anchor: "year", shift: 0 },
+  end_of_day: { anchor: "day", shift: 1 },
+  end_of_week: { anchor: "week", shift: 1 },
+  end_of_month: { anchor: "month", shift: 1 },
+  end_of_year: { anchor: "year", shift: 1 },
+};
+
+/** Anchor names, e.g. for "did you mean" hints. */
+export const TIME_ANCHORS = Object.keys(ANCHORS);
+
+const FIXED_UNIT_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3600_000 };
+const EXPR_RE = /^([a-z_]*)((?:\s*[+-]\s*\d+(?:\.\d+)?\s*[smhdwMy])*)$/;
+const OFFSET_RE = /([+-])\s*(\d+(?:\.\d+)?)\s*([smhdwMy])/g;
+
+const parsedCache = new Map<string, Parsed | null>();
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function parse(expr: string): Parsed | undefined {
+  const cached = parsedCache.get(expr);
+  if (cached !== undefined) return cached ?? undefined;
+
+  let parsed: Parsed | null = null;
+  const m = EXPR_RE.exec(expr.trim());
+  // a bare offset ("+24h") is relative to now
+  const anchor = m && (m[1] === "" ? (m[2] ? ANCHORS.now : undefined) : ANCHORS[m[1]]);
+  if (m && anchor) {
+    const offsets = [...m[2].matchAll(OFFSET_RE)].map(
+      ([, sign, amount, unit]): Offset => ({
+        sign: sign === "-" ? -1 : 1,
+        amount: Number(amount),
+        unit,
+      }),
+    );
+    parsed = { ...anchor, offsets };
+  }
+  parsedCache.set(expr, parsed);
+  return parsed ?? undefined;
+}
+
+/** True for strings this grammar reads (ISO timestamps are not expressions). */
+export function isTimeExpression(expr: string): boolean {
+  return parse(expr) != null;
+}
+
+function formatter(timeZone: string | undefined): Intl.DateTimeFormat {
+  const key = timeZone ?? "";
+  let fmt = formatters.get(key);
+  if (!fmt) {
+    const opts: Intl.DateTimeFormatOptions = {
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    };
+    try {
+      fmt = new Intl.DateTimeFormat("en-US", { ...opts, timeZone });
+    } catch {
+      // unknown zone: use the browser's rather than failing the chart
+      fmt = new Intl.DateTimeFormat("en-US", opts);
+    }
+    formatters.set(key, fmt);
+  }
+  return fmt;
+}
+
+function toWall(ms: number, timeZone: string | undefined): Wall {
+  const parts: Record<string, number> = {};
+  for (const p of formatter(timeZone).formatToParts(ms)) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function wallAsUtc(w: Wall): number {
+  return Date.UTC(w.year, w.month, w.day, w.hour, w.minute, w.second);
+}
+
+/** The instant a wall-clock time falls on in `timeZone` (DST gaps resolve forward). */
+function fromWall(w: Wall, timeZone: string | undefined): number {
+  const guess = wallAsUtc(w);
+  const offset = wallAsUtc(toWall(guess, timeZone)) - guess;
+  const ms = guess - offset;
+  const offset2 = wallAsUtc(toWall(ms, timeZone)) - ms;
+  return offset2 === offset ? ms : guess - offset2;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/** Normalise overflowing fields (day 0, month 12…) through Date.UTC. */
+function normalise(w: Wall): Wall {
+  const d = new Date(wallAsUtc(w));
+  return {
+    year: d.getUTCFullYear(),
+    month: d.getUTCMonth(),
+    day: d.getUTCDate(),
+    hour: d.getUTCHours(),
+    minute: d.getUTCMinutes(),
+    second: d.getUTCSeconds(),
+  };
+}
+
+function startOf(anchor: Exclude<Anchor, "now">, w: Wall, weekStart: number): Wall {
+  const midnight = { ...w, hour: 0, minute: 0, second: 0 };
+  if (anchor === "day") return midnight;
+  if (anchor === "month") return { ...midnight, day: 1 };
+  if (anchor === "year") return { ...midnight, month: 0, day: 1 };
+  const weekday = new Date(wallAsUtc(midnight)).getUTCDay();
+  return normalise({ ...midnight, day: w.day - ((weekday - weekStart + 7) % 7) });
+}
+
+/** Calendar arithmetic on the wall clock; months clamp to their last day (Jan 31 + 1M = Feb 28). */
+function addCalendar(w: Wall, unit: string, n: number): Wall {
+  if (unit === "d") return normalise({ ...w, day: w.day + n });
+  if (unit === "w") return normalise({ ...w, day: w.day + 7 * n });
+  const months = unit === "M" ? n : 12 * n;
+  const first = normalise({ ...w, day: 1, month: w.month + months });
+  return { ...first, day: Math.min(w.day, daysInMonth(first.year, first.month)) };
+}
+
+/** Evaluate an expression, or undefined when `expr` isn't one. */
+export function evaluateTimeExpression(expr: string, ctx: TimeContext): number | undefined {
+  const parsed = parse(expr);
+  if (!parsed) return undefined;
+
+  const { timeZone } = ctx;
+  let ms = ctx.nowMs;
+  if (parsed.anchor !== "now") {
+    let w = startOf(parsed.anchor, toWall(ms, timeZone), ctx.weekStart ?? 1);
+    if (parsed.shift) {
+      const unit = { day: "d", week: "w", month: "M", year: "y" }[parsed.anchor];
+      w = addCalendar(w, unit, parsed.shift);
+    }
+    ms = fromWall(w, timeZone);
+  }
+
+  for (const { sign, amount, unit } of parsed.offsets) {
+    if (unit in FIXED_UNIT_MS) {
+      ms += sign * amount * FIXED_UNIT_MS[unit];
+      continue;
+    }
+    // whole days on the wall clock, a fraction of one as hours ("+1.5d" = 1 day + 12h);
+    // months and years round to whole steps
+    const days = unit === "w" ? 7 * amount : amount;
+    const whole = unit === "d" || unit === "w" ? Math.trunc(days) : Math.round(amount);
+    const millis = ((ms % 1000) + 1000) % 1000;
+    const stepUnit = unit === "w" ? "d" : unit;
+    ms = fromWall(addCalendar(toWall(ms, timeZone), stepUnit, sign * whole), timeZone) + millis;
+    if (unit === "d" || unit === "w") ms += sign * (days - whole) * 86400_000;
+  }
+  return ms;
+}
+
+/** The HA server's time zone, and `weekStart` or else the user's first weekday (default Monday). */
+export function hassTimeSettings(
+  hass: HomeAssistant | undefined,
+  weekStart?: Weekday,
+): TimeSettings {
+  const index = WEEKDAYS.indexOf((weekStart ?? hass?.locale?.first_weekday) as Weekday);
+  return { timeZone: hass?.config?.time_zone, weekStart: index >= 0 ? index : 1 };
+}
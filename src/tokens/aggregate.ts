@@ -0,0 +1,131 @@
+import type { HomeAssistant } from "../ha-types";
+import type { DataAggregate, DataGroupBy, DataOthers } from "../types";
+import type { Registries } from "../registry/registries";
+import { areaName, deviceName, entityAreaId, entityDeviceClass } from "../registry/select";
+
+/*
+ * `$data` group_by / aggregate.
+ * Rows (one per entity, already transformed) are bucketed by a group name and
+ * each bucket becomes one row whose value is the aggregate of its members.
+ * `others` / `normalize` then shape the (sorted) rows for pie/donut breakdowns.
+ */
+
+export type DataRow = { id?: string; name: string; value: unknown; num?: number };
+
+/** Group for entities whose area/device/class/attribute is not set. */
+export const UNGROUPED_NAME = "Unassigned";
+
+export function groupNeedsRegistries(groupBy: DataGroupBy | undefined): boolean {
+  return groupBy === "area" || groupBy === "device" || groupBy === "device_class";
+}
+
+export function groupNameFor(
+  hass: HomeAssistant | undefined,
+  reg: Registries,
+  entityId: string,
+  groupBy: DataGroupBy,
+): string | undefined {
+  if (groupBy === "domain") return entityId.split(".")[0];
+
+  if (groupBy === "area") {
+    const areaId = entityAreaId(reg, entityId);
+    return areaId ? (areaName(reg, areaId) ?? areaId) : undefined;
+  }
+
+  if (groupBy === "device") {
+    const deviceId = reg.entities.get(entityId)?.device_id;
+    return deviceId ? (deviceName(reg, deviceId) ?? deviceId) : undefined;
+  }
+
+  if (groupBy === "device_class") {
+    return hass ? entityDeviceClass(hass, reg, entityId) : undefined;
+  }
+
+  // attribute:<name>
+  const attr = groupBy.slice("attribute:".length);
+  const v = hass?.states?.[entityId]?.attributes?.[attr];
+  return v == null || v === "" ? undefined : String(v);
+}
+
+function aggregateOf(nums: number[], count: number, aggregate: DataAggregate): number | null {
+  if (aggregate === "count") return count;
+  if (nums.length === 0) return null;
+  switch (aggregate) {
+    case "mean":
+      return nums.reduce((a, b) => a + b, 0) / nums.length;
+    case "min":
+      return Math.min(...nums);
+    case "max":
+      return Math.max(...nums);
+    default:
+      return nums.reduce((a, b) => a + b, 0);
+  }
+}
+
+/** One row per group (in first-seen order); non-numeric members only count toward `count`. */
+export function aggregateRows(
+  rows: DataRow[],
+  groupOf: (row: DataRow) => string | undefined,
+  aggregate: DataAggregate,
+): DataRow[] {
+  const groups = new Map<string, DataRow[]>();
+  for (const row of rows) {
+    const name = groupOf(row) ?? UNGROUPED_NAME;
+    let members = groups.get(name);
+    if (!members) groups.set(name, (members = []));
+    members.push(row);
+  }
+
+  return [...groups].map(([name, members]) => {
+    const nums = members.map((m) => m.num).filter((n): n is number => n != null);
+    const value = aggregateOf(nums, members.length, aggregate);
+    return { name, value, num: value ?? undefined };
+  });
+}
+
+/** Sum of the numeric rows — the whole that `min_share` and `normalize` refer to. */
+export function rowsTotal(rows: DataRow[]): number {
+  return rows.reduce((sum, r) => sum + (r.num ?? 0), 0);
+}
+
+/**
+ * Keep the first `limit` rows (and, with `min_share`, only rows with at least that
+ * share of `total`); the rest are summed into one trailing "Other" row.
+ * Without `others` this is a plain truncation.
+ */
+export function foldOthers(
+  rows: DataRow[],
+  limit: number | undefined,
+  others: DataOthers | undefined,
+  total: number,
+): DataRow[] {
+  const max = typeof limit === "number" && limit > 0 ? limit : Infinity;
+  if (!others) return rows.slice(0, max);
+
+  const minShare = others.min_share;
+  const kept: DataRow[] = [];
+  const folded: DataRow[] = [];
+
+  for (const row of rows) {
+    const small = minShare != null && total !== 0 && row.num != null && row.num / total < minShare;
+    if (small || kept.length >= max) folded.push(row);
+    else kept.push(row);
+  }
+
+  if (folded.length === 0) return kept;
+  const sum = rowsTotal(folded);
+  return [...kept, { name: others.label ?? "Other", value: sum, num: sum }];
+}
+
+/** Rescale each row to its share of `total`; non-numeric rows (or a zero total) become null. */
+export function normalizeRows(
+  rows: DataRow[],
+  normalize: "percent" | "fraction",
+  total: number,
+): DataRow[] {
+  const factor = normalize === "percent" ? 100 : 1;
+  return rows.map((r) => {
+    const share = r.num == null || total === 0 ? null : (r.num / total) * factor;
+    return { ...r, value: share, num: share ?? undefined };
+  });
+}
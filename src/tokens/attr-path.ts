@@ -0,0 +1,199 @@
+import { isPlainObject } from "./guards";
+
+/*
+ * Attribute paths for `$attr` and the generators' `attr:`.
+ *   forecast[0].temperature        keys and (negative) list indices
+ *   rates[*].value_inc_vat         `[*]` every item (list items or mapping values)
+ *   forecast[?condition=rainy]     items matching a filter: = != < <= > >=, or `[?key]` (truthy)
+ *   ["key.with.dots"]              quoted keys
+ * A path with `[*]` or a filter reads a list of values (missing ones are undefined,
+ * so lists from sibling paths stay aligned). An attribute whose name is the whole
+ * path is read as-is.
+ */
+
+type FilterOp = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+type PathStep =
+  | { kind: "key"; key: string }
+  | { kind: "index"; index: number }
+  | { kind: "wildcard" }
+  | { kind: "filter"; keys: string[]; op?: FilterOp; value?: unknown };
+
+const parsed = new Map<string, PathStep[]>();
+
+function pathError(path: string, message: string): Error {
+  const err = new Error(`[echarts-raw-card] $attr: ${message} in "${path}"`) as Error & {
+    code?: string;
+  };
+  err.code = "ECHARTS_RAW_CARD_INVALID_ATTR_PATH";
+  return err;
+}
+
+/** `v[key]` for a mapping's own keys — not Object.prototype's ("constructor"…). */
+function field(v: unknown, key: string): unknown {
+  return isPlainObject(v) && Object.hasOwn(v, key) ? v[key] : undefined;
+}
+
+function unquote(text: string): string | undefined {
+  const m = /^(["'])(.*)\1$/.exec(text);
+  return m ? m[2] : undefined;
+}
+
+/** A filter literal: number, quoted string, true / false / null, or a bare word. */
+function parseLiteral(text: string): unknown {
+  const quoted = unquote(text);
+  if (quoted != null) return quoted;
+  if (text === "true") return true;
+  if (text === "false") return false;
+  if (text === "null") return null;
+  const n = Number(text);
+  return text !== "" && Number.isFinite(n) ? n : text;
+}
+
+const FILTER_RE = /^\?\s*([\w.]+)\s*(?:(==|=|!=|<=|>=|<|>)\s*(.+?))?\s*$/;
+
+function parseBracket(body: string, path: string): PathStep {
+  const t = body.trim();
+  if (t === "*") return { kind: "wildcard" };
+  if (/^-?\d+$/.test(t)) return { kind: "index", index: Number(t) };
+
+  const key = unquote(t);
+  if (key != null) return { kind: "key", key };
+
+  const f = FILTER_RE.exec(t);
+  if (f) {
+    const op = f[2] === "==" ? "=" : (f[2] as FilterOp | undefined);
+    return { kind: "filter", keys: f[1].split("."), op, value: op && parseLiteral(f[3]) };
+  }
+  throw pathError(path, `can't read "[${body}]" (expected an index, *, a quoted key or ?filter)`);
+}
+
+export function parseAttrPath(path: string): PathStep[] {
+  const cached = parsed.get(path);
+  if (cached) return cached;
+
+  const steps: PathStep[] = [];
+  let i = 0;
+  let expectKey = true;
+
+  while (i < path.length) {
+    const c = path[i];
+    if (c === "[") {
+      // quoted keys may contain "]"
+      let end = i + 1;
+      let quote: string | undefined;
+      for (; end < path.length; end++) {
+        const ch = path[end];
+        if (quote) {
+          if (ch === quote) quote = undefined;
+        } else if (ch === '"' || ch === "'") {
+          quote = ch;
+        } else if (ch === "]") {
+          break;
+        }
+      }
+      if (end >= path.length) throw pathError(path, "unclosed [");
+      steps.push(parseBracket(path.slice(i + 1, end), path));
+      i = end + 1;
+      expectKey = false;
+    } else if (c === ".") {
+      if (expectKey) throw pathError(path, "empty key");
+      i++;
+      expectKey = true;
+    } else if (c === "]") {
+      throw pathError(path, "unexpected ]");
+    } else {
+      if (!expectKey) throw pathError(path, `expected "." or "[" before "${c}"`);
+      let end = i;
+      while (end < path.length && !".[]".includes(path[end])) end++;
+      steps.push({ kind: "key", key: path.slice(i, end).trim() });
+      i = end;
+      expectKey = false;
+    }
+  }
+  if (expectKey) throw pathError(path, path ? "trailing ." : "empty path");
+
+  parsed.set(path, steps);
+  return steps;
+}
+
+/** True when the path reads a list of values (`[*]` or a filter). */
+export function isMultiPath(path: string): boolean {
+  try {
+    return parseAttrPath(path).some((s) => s.kind === "wildcard" || s.kind === "filter");
+  } catch {
+    return false;
+  }
+}
+
+function compare(actual: unknown, op: FilterOp, expected: unknown): boolean {
+  const a = typeof actual === "string" && actual.trim() !== "" ? Number(actual) : actual;
+  if (typeof a === "number" && typeof expected === "number" && Number.isFinite(a)) {
+    if (op === "=") return a === expected;
+    if (op === "!=") return a !== expected;
+    if (op === "<") return a < expected;
+    if (op === "<=") return a <= expected;
+    if (op === ">") return a > expected;
+    return a >= expected;
+  }
+  if (op === "=") return actual === expected || String(actual) === String(expected);
+  if (op === "!=") return !(actual === expected || String(actual) === String(expected));
+  // ordering on strings (e.g. ISO timestamps)
+  if (typeof actual !== "string" || typeof expected !== "string") return false;
+  if (op === "<") return actual < expected;
+  if (op === "<=") return actual <= expected;
+  if (op === ">") return actual > expected;
+  return actual >= expected;
+}
+
+function matches(item: unknown, step: Extract<PathStep, { kind: "filter" }>): boolean {
+  let v: unknown = item;
+  for (const key of step.keys) v = field(v, key);
+  return step.op ? compare(v, step.op, step.value) : !!v;
+}
+
+function children(v: unknown): unknown[] {
+  if (Array.isArray(v)) return v;
+  return isPlainObject(v) ? Object.values(v) : [];
+}
+
+/**
+ * Read an attribute path. Throws ECHARTS_RAW_CARD_INVALID_ATTR_PATH on syntax errors;
+ * missing keys read as undefined.
+ */
+export function readAttr(attributes: Record<string, unknown> | undefined, path: string): unknown {
+  if (!attributes) return undefined;
+  if (Object.hasOwn(attributes, path)) return attributes[path];
+
+  let values: unknown[] = [attributes];
+  let multi = false;
+  for (const step of parseAttrPath(path)) {
+    switch (step.kind) {
+      case "key":
+        values = values.map((v) => field(v, step.key));
+        break;
+      case "index":
+        values = values.map((v) => (Array.isArray(v) ? v.at(step.index) : undefined));
+        break;
+      case "wildcard":
+        multi = true;
+        values = values.flatMap(children);
+        break;
+      case "filter":
+        multi = true;
+        values = values.flatMap((v) => children(v).filter((item) => matches(item, step)));
+        break;
+    }
+  }
+  return multi ? values : values[0];
+}
+
+/** `fn` over each value a multi path read, or over the single value. */
+export function mapAttrValues(
+  raw: unknown,
+  path: string | undefined,
+  fn: (value: unknown) => unknown,
+): unknown {
+  if (path && Array.isArray(raw) && isMultiPath(path)) return raw.map(fn);
+  return fn(raw);
+}
@@ -0,0 +1,137 @@
+import type { HomeAssistant } from "../ha-types";
+import type { AttrSeriesGenerator } from "../types";
+import { readAttr } from "./attr-path";
+import { applyTransformsWithSpec } from "./transforms";
+import { entityUnitConverter, type UnitWarn } from "../units/convert";
+import { colorForValue } from "../color/scale";
+import type { CssVarReader } from "../color/parse";
+import { evaluateTimeExpression, hassTimeSettings, type TimeSettings } from "../time/relative";
+
+/*
+ * `$attr_series`: a list attribute (Octopus / Nordpool rates, Solcast forecasts,
+ * schedules) as chart data. Each item is a `[time, value]` point with an optional
+ * end; `start` / `end` keep the items overlapping a window such as "now" → "+24h"
+ * or "today" → "end_of_day".
+ *   points  [[t, v], …]                          line / bar data
+ *   step    [[t0, v], [t1, v], [t1, v'], …]      both edges of every item
+ *   areas   [[{ xAxis: t0 }, { xAxis: t1 }], …]  markArea data
+ */
+
+type AttrSeriesSpec = AttrSeriesGenerator["$attr_series"];
+
+type Item = { start: number; end: number; value: unknown; num?: number };
+
+function attrSeriesError(message: string): Error {
+  const err = new Error(`[echarts-raw-card] $attr_series: ${message}`) as Error & {
+    code?: string;
+  };
+  err.code = "ECHARTS_RAW_CARD_INVALID_ATTR_SERIES";
+  return err;
+}
+
+/** Item times: ISO strings or epoch numbers (seconds below 1e12, else milliseconds). */
+function itemTime(v: unknown): number | undefined {
+  if (typeof v === "number") return Number.isFinite(v) ? (v < 1e12 ? v * 1000 : v) : undefined;
+  if (typeof v !== "string") return undefined;
+  const ms = Date.parse(v);
+  return Number.isFinite(ms) ? ms : undefined;
+}
+
+/**
+ * A window bound: ISO, epoch ms, or a time expression — "now", an offset from now
+ * ("+24h", "-30m"), "end_of_day"… (see src/time/relative.ts).
+ */
+export function parseWindowTime(
+  t: string | number,
+  nowMs: number,
+  settings: TimeSettings = {},
+): number {
+  if (typeof t === "number") return t;
+  const ms = evaluateTimeExpression(t, { ...settings, nowMs }) ?? Date.parse(t);
+  if (!Number.isFinite(ms)) {
+    throw attrSeriesError(`"${t}" is not a time (ISO, epoch ms, "now" or an offset like "+24h")`);
+  }
+  return ms;
+}
+
+function readItems(
+  hass: HomeAssistant | undefined,
+  spec: AttrSeriesSpec,
+  warn: UnitWarn | undefined,
+): Item[] {
+  const st = hass?.states?.[spec.entity];
+  const list = readAttr(st?.attributes, spec.attr);
+  if (!Array.isArray(list)) return [];
+
+  const convert = entityUnitConverter(st, spec.entity, spec.unit, warn);
+  const items: Item[] = [];
+  for (const entry of list) {
+    if (!entry || typeof entry !== "object") continue;
+    const row = entry as Record<string, unknown>;
+    const start = itemTime(readAttr(row, spec.time_field));
+    if (start == null) continue;
+
+    const end = spec.end_field ? itemTime(readAttr(row, spec.end_field)) : undefined;
+    const raw = spec.value_field ? readAttr(row, spec.value_field) : undefined;
+    const value =
+      raw == null
+        ? spec.default
+        : applyTransformsWithSpec(
+            raw,
+            spec.entity,
+            spec.default,
+            spec.coerce,
+            spec.transforms,
+            convert,
+          );
+    const num = typeof value === "number" && Number.isFinite(value) ? value : undefined;
+    items.push({ start, end: end ?? NaN, value, num });
+  }
+
+  items.sort((a, b) => a.start - b.start);
+  // an item without an end lasts until the next one starts (the last one is an instant)
+  items.forEach((item, i) => {
+    if (Number.isNaN(item.end)) item.end = items[i + 1]?.start ?? item.start;
+  });
+  return items;
+}
+
+export function attrSeries(
+  hass: HomeAssistant | undefined,
+  spec: AttrSeriesSpec,
+  nowMs: number,
+  readCssVar?: CssVarReader,
+  warn?: UnitWarn,
+): unknown[] {
+  const time = hassTimeSettings(hass);
+  const from = spec.start != null ? parseWindowTime(spec.start, nowMs, time) : -Infinity;
+  const to = spec.end != null ? parseWindowTime(spec.end, nowMs, time) : Infinity;
+
+  // keep items that overlap the window (instants: that fall inside it)
+  const items = readItems(hass, spec, warn).filter((it) =>
+    it.end > it.start ? it.end > from && it.start < to : it.start >= from && it.start <= to,
+  );
+  const mode = spec.mode ?? "points";
+
+  if (mode === "areas") {
+    return items.map((it) => {
+      const first: Record<string, unknown> = { xAxis: it.start };
+      const color = spec.color ? colorForValue(it.value, spec.color, readCssVar) : undefined;
+      if (color) first.itemStyle = { color };
+      return [first, { xAxis: it.end }];
+    });
+  }
+
+  const numbered = items.filter((it) => it.num != null);
+  if (mode === "step") {
+    return numbered.flatMap((it) =>
+      it.end > it.start
+        ? [
+            [it.start, it.num],
+            [it.end, it.num],
+          ]
+        : [[it.start, it.num]],
+    );
+  }
+  return numbered.map((it) => [it.start, it.num]);
+}
@@ -1,6 +1,8 @@
 import type { HomeAssistant } from "../ha-types";
 import type { DataGenerator, EntitySpec, TokenObject } from "../types";
 import { applyTransformsWithSpec } from "./transforms";
+import { mapAttrValues, readAttr } from "./attr-path";
+import { evaluateTimeExpression, type TimeContext } from "../time/relative";
 
 export function normalizeEntitySpec(e: EntitySpec): { id: string; name?: string } {
   return typeof e === "string" ? { id: e } : e;
@@ -17,13 +19,22 @@ export function resolveEntityNowValue(
   const st = hass?.states?.[entityId];
   if (!st) return spec.default;
 
-  const raw = spec.attr ? st.attributes?.[spec.attr] : st.state;
-  return applyTransformsWithSpec(raw, entityId, spec.default, spec.coerce, spec.transforms);
+  const raw = spec.attr ? readAttr(st.attributes, spec.attr) : st.state;
+  return mapAttrValues(raw, spec.attr, (v) =>
+    applyTransformsWithSpec(v, entityId, spec.default, spec.coerce, spec.transforms),
+  );
 }
 
-export function parseTime(t: string | number | undefined, fallbackMs: number): number {
+/** Epoch ms, an ISO string, or (with `ctx`) a time expression such as "now-6h" or "start_of_week". */
+export function parseTime(
+  t: string | number | undefined,
+  fallbackMs: number,
+  ctx?: TimeContext,
+): number {
   if (t == null) return fallbackMs;
   if (typeof t === "number") return t;
+  const relative = ctx ? evaluateTimeExpression(t, ctx) : undefined;
+  if (relative != null) return relative;
   const ms = Date.parse(t);
   return Number.isFinite(ms) ? ms : fallbackMs;
 }
@@ -1,19 +1,79 @@
-import type { DataGenerator, HistoryGenerator, StatisticsGenerator, TokenObject } from "../types";
+import type {
+  AttrSeriesGenerator,
+  ColorToken,
+  DataGenerator,
+  ExprToken,
+  FormatToken,
+  ForecastToken,
+  FormatterToken,
+  HistoryGenerator,
+  RefToken,
+  ServiceToken,
+  StatisticsGenerator,
+  TemplateToken,
+  TokenObject,
+  UnitOfToken,
+} from "../types";
+
+/** A mapping: a non-null object that isn't an array. */
+export function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
 
 export function isDataGenerator(v: unknown): v is DataGenerator {
-  return !!v && typeof v === "object" && !Array.isArray(v) && "$data" in v;
+  return isPlainObject(v) && "$data" in v;
 }
 
 export function isHistoryGenerator(v: unknown): v is HistoryGenerator {
-  return !!v && typeof v === "object" && !Array.isArray(v) && "$history" in v;
+  return isPlainObject(v) && "$history" in v;
 }
 
 export function isStatisticsGenerator(v: unknown): v is StatisticsGenerator {
-  return !!v && typeof v === "object" && !Array.isArray(v) && "$statistics" in v;
+  return isPlainObject(v) && "$statistics" in v;
+}
+
+export function isAttrSeriesGenerator(v: unknown): v is AttrSeriesGenerator {
+  return isPlainObject(v) && "$attr_series" in v;
 }
 
 export function isTokenObject(v: unknown): v is TokenObject {
-  return !!v && typeof v === "object" && !Array.isArray(v) && "$entity" in v;
+  return isPlainObject(v) && "$entity" in v;
+}
+
+export function isTemplateToken(v: unknown): v is TemplateToken {
+  return isPlainObject(v) && "$template" in v;
+}
+
+export function isExprToken(v: unknown): v is ExprToken {
+  return isPlainObject(v) && "$expr" in v;
+}
+
+export function isFormatToken(v: unknown): v is FormatToken {
+  return isPlainObject(v) && "$format" in v;
+}
+
+export function isFormatterToken(v: unknown): v is FormatterToken {
+  return isPlainObject(v) && "$formatter" in v;
+}
+
+export function isColorToken(v: unknown): v is ColorToken {
+  return isPlainObject(v) && "$color" in v;
+}
+
+export function isServiceToken(v: unknown): v is ServiceToken {
+  return isPlainObject(v) && "$service" in v;
+}
+
+export function isForecastToken(v: unknown): v is ForecastToken {
+  return isPlainObject(v) && "$forecast" in v;
+}
+
+export function isUnitOfToken(v: unknown): v is UnitOfToken {
+  return isPlainObject(v) && "$unit_of" in v;
+}
+
+export function isRefToken(v: unknown): v is RefToken {
+  return isPlainObject(v) && (typeof v.$ref === "string" || typeof v.$var === "string");
 }
 
 export function containsHistoryToken(input: unknown): boolean {
@@ -21,8 +81,41 @@ export function containsHistoryToken(input: unknown): boolean {
   if (isHistoryGenerator(input)) return true;
   if (isStatisticsGenerator(input)) return true;
   if (Array.isArray(input)) return input.some(containsHistoryToken);
-  if (typeof input === "object") {
-    return Object.values(input as Record<string, unknown>).some(containsHistoryToken);
+  if (isPlainObject(input)) return Object.values(input).some(containsHistoryToken);
+  return false;
+}
+
+/**
+ * True when the tree contains a `$history` that follows `hass` between fetches
+ * (`live`, `stream` or `extend_to_now`).
+ */
+export function containsLiveHistoryToken(input: unknown): boolean {
+  if (!input) return false;
+  if (isHistoryGenerator(input)) {
+    const spec = input.$history;
+    return spec?.live === true || spec?.stream === true || spec?.extend_to_now === true;
   }
+  if (Array.isArray(input)) return input.some(containsLiveHistoryToken);
+  if (isPlainObject(input)) return Object.values(input).some(containsLiveHistoryToken);
+  return false;
+}
+
+/** True when a `$data` / `$history` / `$statistics` spec selects entities with `include`. */
+export function containsEntitySelector(input: unknown): boolean {
+  if (!input) return false;
+  if (isDataGenerator(input)) return input.$data?.include != null;
+  if (isHistoryGenerator(input)) return input.$history?.include != null;
+  if (isStatisticsGenerator(input)) return input.$statistics?.include != null;
+  if (Array.isArray(input)) return input.some(containsEntitySelector);
+  if (isPlainObject(input)) return Object.values(input).some(containsEntitySelector);
+  return false;
+}
+
+/** True when the tree contains a `$template` token anywhere. */
+export function containsTemplateToken(input: unknown): boolean {
+  if (!input) return false;
+  if (isTemplateToken(input)) return true;
+  if (Array.isArray(input)) return input.some(containsTemplateToken);
+  if (isPlainObject(input)) return Object.values(input).some(containsTemplateToken);
   return false;
 }
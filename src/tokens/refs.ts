@@ -0,0 +1,100 @@
+import { isPlainObject, isRefToken } from "./guards";
+
+/*
+ * `vars` / `$ref` / `$var`.
+ * References are expanded before any token resolves, so the resolver, the
+ * validator and the history throttling all see one plain option tree.
+ *   { $ref: "vars.power_history" }   dot path into the card config ("vars.colors[0]")
+ *   { $var: "accent" }               shorthand for vars.accent
+ * Other keys next to `$ref` / `$var` are deep-merged over the referenced value:
+ * mappings merge key by key, lists and scalars replace.
+ */
+
+function refError(message: string, code: string): Error {
+  const err = new Error(`[echarts-raw-card] $ref: ${message}`) as Error & { code?: string };
+  err.code = code;
+  return err;
+}
+
+function readPath(root: unknown, path: string): unknown {
+  let cur = root;
+  for (const m of path.matchAll(/([^.[\]]+)|\[(\d+)\]/g)) {
+    const key = m[1] ?? m[2];
+    // own keys only: "constructor", "x.toString"… are unknown vars, not prototype members
+    if (!cur || typeof cur !== "object" || !Object.hasOwn(cur, key)) return undefined;
+    cur = (cur as Record<string, unknown>)[key];
+  }
+  return cur;
+}
+
+function deepMerge(base: unknown, overrides: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(overrides)) {
+    out[key] = isPlainObject(out[key]) && isPlainObject(value) ? deepMerge(out[key], value) : value;
+  }
+  return out;
+}
+
+/**
+ * Replace every `$ref` / `$var` in `value` with the (expanded) value it points to.
+ * `root` is the card config. A reference without overrides shares one expanded
+ * object per path, so a `$history` var used twice is one spec (and one fetch).
+ * Throws a tagged error on unknown paths and reference cycles.
+ */
+export function expandRefs(
+  value: unknown,
+  root: Record<string, unknown>,
+  path = "option",
+): unknown {
+  const expanded = new Map<string, unknown>();
+  const stack: string[] = [];
+
+  const lookup = (path: string, at: string): unknown => {
+    if (expanded.has(path)) return expanded.get(path);
+
+    if (stack.includes(path)) {
+      const chain = [...stack.slice(stack.indexOf(path)), path].join(" → ");
+      throw refError(`reference cycle ${chain}`, "ECHARTS_RAW_CARD_REF_CYCLE");
+    }
+
+    const target = readPath(root, path);
+    if (target === undefined) {
+      throw refError(`"${path}" (used at ${at}) does not exist`, "ECHARTS_RAW_CARD_UNKNOWN_REF");
+    }
+
+    stack.push(path);
+    try {
+      const out = walk(target, path);
+      expanded.set(path, out);
+      return out;
+    } finally {
+      stack.pop();
+    }
+  };
+
+  const walk = (v: unknown, at: string): unknown => {
+    if (Array.isArray(v)) return v.map((x, i) => walk(x, `${at}[${i}]`));
+    if (!isPlainObject(v)) return v;
+
+    if (isRefToken(v)) {
+      const { $ref, $var, ...overrides } = v as Record<string, unknown>;
+      const path = typeof $ref === "string" ? $ref : `vars.${$var as string}`;
+      const target = lookup(path, at);
+      if (Object.keys(overrides).length === 0) return target;
+
+      if (!isPlainObject(target)) {
+        throw refError(
+          `"${path}" (used at ${at}) is not a mapping, so keys next to the reference can't be merged into it`,
+          "ECHARTS_RAW_CARD_INVALID_REF",
+        );
+      }
+      return deepMerge(target, walk(overrides, at) as Record<string, unknown>);
+    }
+
+    const out: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(v)) out[key] = walk(child, `${at}.${key}`);
+    return out;
+  };
+
+  return walk(value, path);
+}
@@ -1,41 +1,207 @@
 import type { HomeAssistant } from "../ha-types";
-import type { DataMode, HistoryGenerator, StatisticsGenerator } from "../types";
+import type {
+  DataMode,
+  EntitySelection,
+  HistoryGenerator,
+  ServiceToken,
+  StatisticsGenerator,
+  TemplateToken,
+} from "../types";
 import {
+  containsTemplateToken,
+  isAttrSeriesGenerator,
   isDataGenerator,
+  isExprToken,
+  isFormatToken,
+  isColorToken,
+  isForecastToken,
+  isFormatterToken,
   isHistoryGenerator,
+  isServiceToken,
   isStatisticsGenerator,
+  isTemplateToken,
   isTokenObject,
+  isUnitOfToken,
 } from "./guards";
 import { normalizeEntitySpec } from "./entity";
-import { applyNumberTransforms, applyTransformsWithSpec, coerceValue } from "./transforms";
+import { mapAttrValues, readAttr } from "./attr-path";
+import { EMPTY_REGISTRIES, type Registries } from "../registry/registries";
+import { isExcluded, selectEntities } from "../registry/select";
+import {
+  aggregateRows,
+  foldOthers,
+  groupNameFor,
+  groupNeedsRegistries,
+  normalizeRows,
+  rowsTotal,
+  type DataRow,
+} from "./aggregate";
+import { evaluateExpr } from "../expr/evaluate";
+import { createFormatter } from "../format/registry";
+import { hassNumberLocale } from "../format/locale";
+import { hassTimeSettings } from "../time/relative";
+import { renderFormat, type FormatBinding } from "../format/interpolate";
+import { colorForValue } from "../color/scale";
+import type { CssVarReader } from "../color/parse";
+import { effectiveUnit, entityUnitConverter, type UnitWarn } from "../units/convert";
+import { forecastToService } from "../service/fetch";
+import { attrSeries } from "./attr-series";
+import {
+  applyNumberTransforms,
+  applyTransformsWithSpec,
+  applyValueOptions,
+  coerceValue,
+} from "./transforms";
+
+type RenderTemplate = (token: TemplateToken) => Promise<unknown>;
+type LoadRegistries = () => Promise<Registries>;
+type FetchService = (spec: ServiceToken) => Promise<unknown>;
+
+async function resolveTemplate(
+  token: TemplateToken,
+  renderTemplate: RenderTemplate | undefined,
+): Promise<unknown> {
+  const raw = renderTemplate ? await renderTemplate(token) : undefined;
+  return applyValueOptions(raw, token);
+}
+
+/**
+ * Render `$template` values inside a generator spec before the generator runs.
+ * A template in `entities` may produce one entity id or a list of them.
+ */
+async function resolveSpecTemplates<T>(
+  spec: T,
+  renderTemplate: RenderTemplate | undefined,
+): Promise<T> {
+  if (!containsTemplateToken(spec)) return spec;
+
+  const walk = async (v: unknown): Promise<unknown> => {
+    if (isTemplateToken(v)) return resolveTemplate(v, renderTemplate);
+    if (Array.isArray(v)) return Promise.all(v.map(walk));
+    if (v && typeof v === "object") {
+      const out: Record<string, unknown> = {};
+      for (const [k, x] of Object.entries(v as Record<string, unknown>)) out[k] = await walk(x);
+      return out;
+    }
+    return v;
+  };
+
+  const out = (await walk(spec)) as T & { entities?: unknown };
+  const entities = out.entities;
+  if (typeof entities === "string") out.entities = [entities];
+  else if (Array.isArray(entities)) out.entities = entities.flat().filter((e) => e != null);
+  return out;
+}
+
+function selectorsNeedRegistries(selectors: EntitySelection["include"]): boolean {
+  const list = Array.isArray(selectors) ? selectors : selectors ? [selectors] : [];
+  return list.some(
+    (sel) => sel.area != null || sel.device != null || sel.label != null || sel.integration != null,
+  );
+}
+
+/**
+ * Replace `include` / `exclude` selectors with the entity list they match:
+ * explicit `entities` first (minus excluded ones), then the selected ones.
+ */
+async function expandSelectors<T extends EntitySelection>(
+  spec: T,
+  hass: HomeAssistant | undefined,
+  loadRegistries: LoadRegistries | undefined,
+): Promise<T> {
+  const { include, exclude, ...rest } = spec;
+  if (!include && !exclude) return spec;
+  if (!hass) return { ...rest, entities: rest.entities ?? [] } as T;
+
+  const needsRegistries = selectorsNeedRegistries(include) || selectorsNeedRegistries(exclude);
+  const reg = needsRegistries && loadRegistries ? await loadRegistries() : EMPTY_REGISTRIES;
+
+  const explicit = (rest.entities ?? []).filter(
+    (e) => !isExcluded(hass, reg, normalizeEntitySpec(e).id, exclude),
+  );
+  const listed = new Set(explicit.map((e) => normalizeEntitySpec(e).id));
+  const selected = include
+    ? selectEntities(hass, reg, include, exclude).filter((id) => !listed.has(id))
+    : [];
+
+  return { ...rest, entities: [...explicit, ...selected] } as T;
+}
+
+/** Everything token resolution reads from or calls out to during one resolve run. */
+export type ResolveContext = {
+  hass: HomeAssistant | undefined;
+  /** Collects every entity id the option reads */
+  watched: Set<string>;
+  fetchHistory: (spec: HistoryGenerator["$history"]) => Promise<unknown>;
+  fetchStatistics?: (spec: StatisticsGenerator["$statistics"]) => Promise<unknown>;
+  renderTemplate?: RenderTemplate;
+  loadRegistries?: LoadRegistries;
+  readCssVar?: CssVarReader;
+  fetchService?: FetchService;
+  /** Non-fatal problems (e.g. a unit that can't be converted) for the card's warning panel */
+  warn?: UnitWarn;
+};
 
 export async function deepResolveTokensAsync(
   input: unknown,
-  hass: HomeAssistant | undefined,
-  watched: Set<string>,
-  fetchHistory: (spec: HistoryGenerator["$history"]) => Promise<unknown>,
-  fetchStatistics?: (spec: StatisticsGenerator["$statistics"]) => Promise<unknown>,
+  ctx: ResolveContext,
 ): Promise<unknown> {
+  const {
+    hass,
+    watched,
+    fetchHistory,
+    fetchStatistics,
+    renderTemplate,
+    loadRegistries,
+    readCssVar,
+    fetchService,
+    warn,
+  } = ctx;
   if (!input) return input;
 
   // $history
   if (isHistoryGenerator(input)) {
-    const spec = input.$history;
+    const spec = await expandSelectors(
+      await resolveSpecTemplates(input.$history, renderTemplate),
+      hass,
+      loadRegistries,
+    );
     for (const e of spec.entities ?? []) watched.add(normalizeEntitySpec(e).id);
     return fetchHistory(spec);
   }
 
   // $statistics
   if (isStatisticsGenerator(input)) {
-    const spec = input.$statistics;
+    const spec = await expandSelectors(
+      await resolveSpecTemplates(input.$statistics, renderTemplate),
+      hass,
+      loadRegistries,
+    );
     for (const e of spec.entities ?? []) watched.add(normalizeEntitySpec(e).id);
     if (!fetchStatistics) return [];
     return fetchStatistics(spec);
   }
 
+  // $service / $forecast — a service response (return_response) as chart data
+  if (isServiceToken(input) || isForecastToken(input)) {
+    if (!fetchService) return [];
+    return fetchService(isServiceToken(input) ? input : forecastToService(input));
+  }
+
+  // $attr_series — a list attribute (rates, forecasts, schedules) as time series data
+  if (isAttrSeriesGenerator(input)) {
+    const spec = await resolveSpecTemplates(input.$attr_series, renderTemplate);
+    watched.add(spec.entity);
+    return attrSeries(hass, spec, Date.now(), readCssVar, warn);
+  }
+
   // $data
   if (isDataGenerator(input)) {
-    const spec = input.$data;
+    const spec = await expandSelectors(
+      await resolveSpecTemplates(input.$data, renderTemplate),
+      hass,
+      loadRegistries,
+    );
 
     const excludeUnavailable = spec.exclude_unavailable ?? true;
     const includeLegacy = spec.include_unavailable ?? false;
@@ -45,7 +211,7 @@ export async function deepResolveTokensAsync(
     const mode: DataMode = spec.mode ?? "pairs";
     const nameFrom = spec.name_from ?? "friendly_name";
 
-    const rows: Array<{ id: string; name: string; value: unknown; num?: number }> = [];
+    let rows: DataRow[] = [];
 
     for (const rawSpec of spec.entities ?? []) {
       const { id, name: override } = normalizeEntitySpec(rawSpec);
@@ -65,8 +231,11 @@ export async function deepResolveTokensAsync(
           ? id
           : ((st?.attributes?.friendly_name as string | undefined) ?? id));
 
-      const raw = spec.attr ? st?.attributes?.[spec.attr] : st?.state;
-      const value = applyTransformsWithSpec(raw, id, spec.default, spec.coerce, spec.transforms);
+      const raw = spec.attr ? readAttr(st?.attributes, spec.attr) : st?.state;
+      const convert = entityUnitConverter(st, id, spec.unit, warn);
+      const value = mapAttrValues(raw, spec.attr, (v) =>
+        applyTransformsWithSpec(v, id, spec.default, spec.coerce, spec.transforms, convert),
+      );
 
       const n = typeof value === "number" ? value : Number(value);
       const num = Number.isFinite(n) ? n : undefined;
@@ -76,16 +245,43 @@ export async function deepResolveTokensAsync(
       rows.push({ id, name: displayName, value, num });
     }
 
+    if (spec.group_by) {
+      const groupBy = spec.group_by;
+      const reg =
+        groupNeedsRegistries(groupBy) && hass && loadRegistries
+          ? await loadRegistries()
+          : EMPTY_REGISTRIES;
+      rows = aggregateRows(
+        rows,
+        (r) => groupNameFor(hass, reg, r.id!, groupBy),
+        spec.aggregate ?? "sum",
+      );
+    }
+
     if (sort === "asc") rows.sort((a, b) => (a.num ?? Infinity) - (b.num ?? Infinity));
     else if (sort === "desc") rows.sort((a, b) => (b.num ?? -Infinity) - (a.num ?? -Infinity));
 
-    const sliced = typeof limit === "number" && limit > 0 ? rows.slice(0, limit) : rows;
+    // the total is taken before truncation so shares stay relative to every entity
+    const total = rowsTotal(rows);
+    rows = foldOthers(rows, limit, spec.others, total);
+    if (spec.normalize) rows = normalizeRows(rows, spec.normalize, total);
 
-    if (mode === "names") return sliced.map((r) => r.name);
-    if (mode === "values") return sliced.map((r) => r.value);
+    if (mode === "names") return rows.map((r) => r.name);
+    if (mode === "values") return rows.map((r) => r.value);
 
-    // pairs
-    return sliced.map((r) => ({ name: r.name, value: r.value }));
+    // pairs — entity_id rides along so chart actions can target the clicked item
+    return rows.map((r) => {
+      const pair: Record<string, unknown> = { name: r.name, value: r.value };
+      if (r.id) pair.entity_id = r.id;
+      const color = spec.color ? colorForValue(r.value, spec.color, readCssVar) : undefined;
+      if (color) pair.itemStyle = { color };
+      return pair;
+    });
+  }
+
+  // $formatter — a real function in place of the YAML-incompatible JS callback
+  if (isFormatterToken(input)) {
+    return createFormatter(input, hassNumberLocale(hass), hassTimeSettings(hass).timeZone);
   }
 
   // $entity token object
@@ -96,22 +292,61 @@ export async function deepResolveTokensAsync(
     const st = hass?.states?.[entityId];
     if (!st) return input.$default;
 
-    const raw = input.$attr ? st.attributes?.[input.$attr] : st.state;
-    const coerced = coerceValue(raw, input.$coerce ?? "auto");
-    return applyNumberTransforms(coerced, input);
+    const raw = input.$attr ? readAttr(st.attributes, input.$attr) : st.state;
+    const convert = entityUnitConverter(st, entityId, input.$unit, warn);
+    // a wildcard path reads a list; each item goes through the pipeline
+    return mapAttrValues(raw, input.$attr, (v) => {
+      const coerced = coerceValue(v, input.$coerce ?? "auto");
+      return applyNumberTransforms(
+        convert && typeof coerced === "number" ? convert(coerced) : coerced,
+        input,
+      );
+    });
+  }
+
+  // $unit_of — the unit string, e.g. for an axis name
+  if (isUnitOfToken(input)) {
+    watched.add(input.$unit_of);
+    const st = hass?.states?.[input.$unit_of];
+    return effectiveUnit(st, input.$unit) || input.$default;
+  }
+
+  // $template token object
+  if (isTemplateToken(input)) return resolveTemplate(input, renderTemplate);
+
+  // $expr / $format — vars resolve like any other subtree, so their entities are watched
+  if (isExprToken(input) || isFormatToken(input)) {
+    const bindings: Record<string, FormatBinding> = {};
+    for (const [name, v] of Object.entries(input.vars ?? {})) {
+      const value = await deepResolveTokensAsync(v, ctx);
+      const entity = isTokenObject(v) ? hass?.states?.[v.$entity] : undefined;
+      const unit = isTokenObject(v) && v.$unit ? effectiveUnit(entity, v.$unit) : undefined;
+      bindings[name] = { value, entity, unit };
+    }
+
+    if (isFormatToken(input)) return renderFormat(input.$format, bindings, hassNumberLocale(hass));
+
+    const scope: Record<string, unknown> = {};
+    for (const [name, b] of Object.entries(bindings)) scope[name] = b.value;
+    return applyValueOptions(evaluateExpr(input.$expr, scope), input);
+  }
+
+  // $color — the value (any token or literal) mapped through thresholds / a gradient
+  if (isColorToken(input)) {
+    const value = await deepResolveTokensAsync(input.$color, ctx);
+    return colorForValue(value, input, readCssVar, input.default);
   }
 
   if (Array.isArray(input)) {
     const out = [];
-    for (const x of input)
-      out.push(await deepResolveTokensAsync(x, hass, watched, fetchHistory, fetchStatistics));
+    for (const x of input) out.push(await deepResolveTokensAsync(x, ctx));
     return out;
   }
 
   if (typeof input === "object") {
     const out: Record<string, unknown> = {};
     for (const [k, v] of Object.entries(input as Record<string, unknown>)) {
-      out[k] = await deepResolveTokensAsync(v, hass, watched, fetchHistory, fetchStatistics);
+      out[k] = await deepResolveTokensAsync(v, ctx);
     }
     return out;
   }
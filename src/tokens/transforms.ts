@@ -1,4 +1,5 @@
-import type { DataGenerator, TokenObject } from "../types";
+import type { DataGenerator, TokenObject, TokenValueOptions } from "../types";
+import type { UnitConverter } from "../units/convert";
 
 export function coerceValue(raw: unknown, mode: TokenObject["$coerce"] = "auto"): unknown {
   if (mode === "string") return raw == null ? "" : String(raw);
@@ -31,7 +32,7 @@ export function coerceValue(raw: unknown, mode: TokenObject["$coerce"] = "auto")
   return raw;
 }
 
-export function applyNumberTransforms(value: unknown, token: TokenObject): unknown {
+export function applyNumberTransforms(value: unknown, token: TokenValueOptions): unknown {
   let x = typeof value === "number" ? value : Number(value);
   if (!Number.isFinite(x)) return token.$default ?? value;
 
@@ -78,15 +79,39 @@ export function applyNumberTransforms(value: unknown, token: TokenObject): unkno
   return x;
 }
 
+const NUMBER_TRANSFORM_KEYS = [
+  "$map",
+  "$abs",
+  "$scale",
+  "$offset",
+  "$min",
+  "$max",
+  "$clamp",
+  "$round",
+] as const;
+
+/**
+ * Coerce + transform a raw token value. Unlike `$entity` (always coerced), this
+ * only coerces when `$coerce` is set and only runs number transforms when one is given.
+ */
+export function applyValueOptions(raw: unknown, token: TokenValueOptions): unknown {
+  if (raw == null) return token.$default ?? raw;
+  const coerced = token.$coerce ? coerceValue(raw, token.$coerce) : raw;
+  if (!NUMBER_TRANSFORM_KEYS.some((k) => token[k] != null)) return coerced;
+  return applyNumberTransforms(coerced, token);
+}
+
 export function applyTransformsWithSpec(
   value: unknown,
   entityId: string,
   def: unknown,
   coerce: TokenObject["$coerce"] | undefined,
   transforms: DataGenerator["$data"]["transforms"] | undefined,
+  convert?: UnitConverter,
 ): unknown {
-  const coerced = coerceValue(value, coerce ?? "auto");
+  let coerced = coerceValue(value, coerce ?? "auto");
   if (typeof coerced === "number" && Number.isNaN(coerced)) return def ?? 0;
+  if (convert && typeof coerced === "number") coerced = convert(coerced);
 
   const token: TokenObject = {
     $entity: entityId,
@@ -126,6 +151,7 @@ export function coerceHistoryPointNumber(
   def: unknown,
   coerce: TokenObject["$coerce"] | undefined,
   transforms: DataGenerator["$data"]["transforms"] | undefined,
+  convert?: UnitConverter,
 ): number | undefined {
   const coerceMode: TokenObject["$coerce"] = coerce ?? "number";
 
@@ -133,7 +159,7 @@ export function coerceHistoryPointNumber(
   // so they don't collapse to the default value for NaN.
   const mapped = coerceBinaryToNumber(raw);
 
-  const v = applyTransformsWithSpec(mapped, entityId, def, coerceMode, transforms);
+  const v = applyTransformsWithSpec(mapped, entityId, def, coerceMode, transforms, convert);
   const n = typeof v === "number" ? v : Number(v);
   if (!Number.isFinite(n)) return undefined;
   return n;
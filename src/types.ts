@@ -1,11 +1,21 @@
 import type { EChartsOption } from "echarts";
 import type { LovelaceCardConfig } from "./ha-types";
+import type { Weekday } from "./time/relative";
 
 export type EchartsRawCardConfig = LovelaceCardConfig & {
   option: EChartsOption;
+  /** Named template (or "/local/….yaml|json" file) this card is merged over */
+  extends?: string;
+  /** How this card's lists merge into the template's: replace (default) or by series `name` */
+  array_merge?: "replace" | "by_name";
   height?: string;
   renderer?: "canvas" | "svg";
   title?: string;
+  /** "auto" (default) | "ha" | "light" | "dark" | registered theme name | inline theme object */
+  theme?: string | Record<string, unknown>;
+  actions?: ChartActionBinding[];
+  /** Shared values referenced from `option` via `{ $ref: "vars.name" }` or `{ $var: "name" }` */
+  vars?: Record<string, unknown>;
   debug?:
     | boolean
     | {
@@ -15,6 +25,41 @@ export type EchartsRawCardConfig = LovelaceCardConfig & {
       };
 };
 
+/* ------------------------------------------------------------------
+ * Chart element actions
+ * ------------------------------------------------------------------ */
+
+export type ActionEvent = "click" | "dblclick" | "hold";
+
+/** HA action object, as used by Lovelace tap_action / hold_action. */
+export type HaAction = {
+  action: "call-service" | "perform-action" | "more-info" | "navigate" | "url" | "toggle" | "none";
+  entity?: string;
+
+  // call-service / perform-action
+  service?: string;
+  perform_action?: string;
+  data?: Record<string, unknown>;
+  service_data?: Record<string, unknown>;
+  target?: Record<string, unknown>;
+
+  // navigate
+  navigation_path?: string;
+  navigation_replace?: boolean;
+
+  // url
+  url_path?: string;
+  new_tab?: boolean;
+};
+
+/** An HA action bound to an ECharts event, optionally filtered to some chart elements. */
+export type ChartActionBinding = HaAction & {
+  event?: ActionEvent; // default "click"
+  series_name?: string | string[];
+  data_name?: string | string[];
+  component_type?: string | string[];
+};
+
 /* ------------------------------------------------------------------
  * Token + transform types
  * ------------------------------------------------------------------ */
@@ -26,9 +71,8 @@ export type TokenMap =
   | { type: "sqrt" }
   | { type: "pow"; pow: number };
 
-export type TokenObject = {
-  $entity: string;
-  $attr?: string;
+/** Coercion and number transforms shared by the value tokens ($entity, $template). */
+export type TokenValueOptions = {
   $coerce?: "auto" | "number" | "string" | "bool";
   $default?: unknown;
 
@@ -42,16 +86,182 @@ export type TokenObject = {
   $round?: number;
 };
 
+export type TokenObject = TokenValueOptions & {
+  $entity: string;
+  /** Attribute path: "battery", "forecast[0].temperature", "rates[*].value" (see src/tokens/attr-path.ts) */
+  $attr?: string;
+  /** Convert from the entity's unit_of_measurement (e.g. "kW"), before the number transforms */
+  $unit?: string;
+};
+
+/** The entity's unit_of_measurement — or `$unit` when its values are converted to it. */
+export type UnitOfToken = {
+  $unit_of: string;
+  $unit?: string;
+  $default?: string;
+};
+
+/** A Jinja template rendered by HA through the `render_template` subscription. */
+export type TemplateToken = TokenValueOptions & {
+  $template: string;
+  $variables?: Record<string, unknown>;
+};
+
+/** A client-side expression over named values (see src/expr/parse.ts for the grammar). */
+export type ExprToken = TokenValueOptions & {
+  $expr: string;
+  /** name → value; usually `$entity` tokens, but any token or literal works */
+  vars?: Record<string, unknown>;
+};
+
+/** A string with `{name}` placeholders filled from `vars` (see src/format/interpolate.ts). */
+export type FormatToken = {
+  $format: string;
+  vars?: Record<string, unknown>;
+};
+
+/** Value → colour mapping shared by `$color` and `$data.color` (see src/color/scale.ts). */
+export type ColorScale = {
+  /** [[limit, colour], …]: the first step whose limit is >= the value */
+  thresholds?: Array<[number, string]>;
+  /** [[value, colour], …] stops, interpolated in between */
+  gradient?: Array<[number, string]>;
+  space?: "oklch" | "rgb"; // default oklch
+};
+
+/** A colour computed from a value (any token or literal) — see ColorScale. */
+export type ColorToken = ColorScale & {
+  $color: unknown;
+  /** colour used when the value isn't a number */
+  default?: string;
+};
+
+/** Resolves to an ECharts formatter function; other keys are the formatter's options. */
+export type FormatterToken = {
+  $formatter: string;
+  [option: string]: unknown;
+};
+
+/**
+ * A reference into the card config (`$ref: "vars.power_history"`, or `$var: "accent"`
+ * for `vars.accent`); other keys are deep-merged over the referenced value.
+ */
+export type RefToken = ({ $ref: string } | { $var: string }) & Record<string, unknown>;
+
+/* ------------------------------------------------------------------
+ * $service / $forecast (service calls with return_response)
+ * ------------------------------------------------------------------ */
+
+/** Which item fields become the chart's points (paths as in `$attr`). */
+export type ServiceFields = {
+  /** default "datetime" */
+  time?: string;
+  /** one field → `[ts, value][]`; a list → one series per field */
+  value?: string | string[];
+};
+
+type ServiceOutput = {
+  /** Where the item list is in the response (an `$attr`-style path) */
+  path?: string;
+  fields?: ServiceFields;
+  /** default: "raw" without `fields`, else "values" for one value field, "series" for several */
+  mode?: "values" | "series" | "raw";
+  series_type?: "line" | "bar" | "scatter"; // default "line"
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- ECharts series options are open-ended
+  series_overrides?: Record<string, Record<string, any>>;
+  /** How long a response is reused (and how often the card re-calls) — default 900 */
+  cache_seconds?: number;
+};
+
+/** Calls a service with `return_response` and charts (part of) its response. */
+export type ServiceToken = ServiceOutput & {
+  /** "domain.service", e.g. "weather.get_forecasts" */
+  $service: string;
+  data?: Record<string, unknown>;
+  target?: Record<string, unknown>;
+};
+
+/** `weather.get_forecasts` for one weather entity. */
+export type ForecastToken = ServiceOutput & {
+  $forecast: string;
+  type?: "daily" | "hourly" | "twice_daily"; // default hourly
+};
+
+/* ------------------------------------------------------------------
+ * $attr_series generator
+ * ------------------------------------------------------------------ */
+
+export type AttrSeriesMode = "points" | "step" | "areas";
+
+/** Time series from a list attribute such as `rates: [{ start, end, value_inc_vat }]`. */
+export type AttrSeriesGenerator = {
+  $attr_series: {
+    entity: string;
+    /** Path to the item list, e.g. "rates" or "rates[?value_inc_vat < 0.1]" */
+    attr: string;
+    /** Item fields (paths as in `$attr`); times are ISO strings or epoch (s or ms) */
+    time_field: string;
+    value_field?: string;
+    /** When an item ends — default: the next item's start */
+    end_field?: string;
+
+    /** points: `[ts, value][]` (default) · step: both edges of every item · areas: markArea data */
+    mode?: AttrSeriesMode;
+
+    /** Keep items overlapping this window: ISO, epoch ms, or an expression ("now", "+24h", "end_of_day") */
+    start?: string | number;
+    end?: string | number;
+
+    coerce?: TokenObject["$coerce"];
+    default?: unknown;
+    transforms?: DataGenerator["$data"]["transforms"];
+    /** Convert values from the entity's unit_of_measurement */
+    unit?: string;
+    /** areas mode: colour each area from its value */
+    color?: ColorScale;
+  };
+};
+
 /* ------------------------------------------------------------------
  * $data generator (Phase 2.2C)
  * ------------------------------------------------------------------ */
 
 export type DataMode = "pairs" | "names" | "values";
+export type DataGroupBy = "area" | "device" | "domain" | "device_class" | `attribute:${string}`;
+export type DataAggregate = "sum" | "mean" | "min" | "max" | "count";
 export type EntitySpec = string | { id: string; name?: string };
 
+/** Matches entities by registry metadata; list values match any of them. */
+export type EntitySelector = {
+  domain?: string | string[];
+  device_class?: string | string[];
+  /** area id or name */
+  area?: string | string[];
+  /** device id or name */
+  device?: string | string[];
+  /** label id or name */
+  label?: string | string[];
+  /** integration (entity registry platform), e.g. "shelly" */
+  integration?: string | string[];
+  /** "sensor.*_power" — `*` any run of characters, `?` one character */
+  entity_glob?: string | string[];
+};
+
+/** `entities` plus selector-matched entities (shared by $data, $history and $statistics). */
+export type EntitySelection = {
+  entities?: EntitySpec[];
+  include?: EntitySelector | EntitySelector[];
+  exclude?: EntitySelector | EntitySelector[];
+};
+
+export type DataOthers = {
+  label?: string; // default "Other"
+  /** rows whose share of the total is below this (0–1) are folded too */
+  min_share?: number;
+};
+
 export type DataGenerator = {
-  $data: {
-    entities: EntitySpec[];
+  $data: EntitySelection & {
     mode?: DataMode;
     name_from?: "friendly_name" | "entity_id";
 
@@ -68,6 +278,19 @@ export type DataGenerator = {
     sort?: "asc" | "desc" | "none"; // default none
     limit?: number;
 
+    /** Combine entities into one row per group; sort/limit/mode apply to the groups */
+    group_by?: DataGroupBy;
+    aggregate?: DataAggregate; // default sum
+
+    /** Fold rows cut by `limit` (or below `min_share` of the total) into one row */
+    others?: DataOthers;
+    /** Rescale values to their share of the total: percent (0–100) or fraction (0–1) */
+    normalize?: "percent" | "fraction";
+    /** pairs mode: give each item an `itemStyle.color` from its value */
+    color?: ColorScale;
+    /** Convert each entity's value from its unit_of_measurement */
+    unit?: string;
+
     transforms?: {
       map?: TokenObject["$map"];
       abs?: boolean;
@@ -85,17 +308,20 @@ export type DataGenerator = {
  * $history generator (Phase 2.3)
  * ------------------------------------------------------------------ */
 
-export type HistoryMode = "values" | "series";
+export type HistoryMode = "values" | "series" | "timeline";
 
 export type HistoryGenerator = {
-  $history: {
-    entities: EntitySpec[];
-
+  $history: EntitySelection & {
     hours?: number;
+    /** ISO, epoch ms, or an expression: "now-6h", "today", "start_of_month-1M" */
     start?: string | number;
     end?: string | number;
+    /** First day of the week for "start_of_week" — default: the user's HA setting, else Monday */
+    week_start?: Weekday;
 
     mode?: HistoryMode; // default "values" if one entity, otherwise "series"
+    /** timeline mode: state → colour (other states take palette colours) */
+    state_colors?: Record<string, string>;
     name_from?: "friendly_name" | "entity_id";
 
     attr?: string;
@@ -103,6 +329,8 @@ export type HistoryGenerator = {
     default?: unknown;
 
     transforms?: DataGenerator["$data"]["transforms"];
+    /** Convert each entity's points from its unit_of_measurement */
+    unit?: string;
 
     series_type?: "line" | "bar" | "scatter"; // default "line"
     show_symbol?: boolean; // default false
@@ -111,12 +339,29 @@ export type HistoryGenerator = {
 
     cache_seconds?: number;
 
+    /** Add a point at the window start from the state in force then */
+    include_start_state?: boolean;
+    /** Continue each line to "now" with the entity's current state (windows without `end`) */
+    extend_to_now?: boolean;
+
+    /** Seed once, then append new states from hass updates (sliding window of `hours`) */
+    live?: boolean;
+
+    /** Subscribe to history/stream for continuous updates (sliding window of `hours`) */
+    stream?: boolean;
+
+    /** "auto" (default): WebSocket history API, REST fallback */
+    transport?: "auto" | "websocket" | "rest";
+
+    /** WebSocket only — default true unless `attr` is set */
+    significant_changes_only?: boolean;
+
     // optional per-series override by display name OR entity_id
     // eslint-disable-next-line @typescript-eslint/no-explicit-any -- ECharts series options are open-ended
     series_overrides?: Record<string, Record<string, any>>;
 
     // optional: you can re-enable minimal_response later if you want
-    minimal_response?: boolean; // default false
+    minimal_response?: boolean; // default false, on both transports
   };
 };
 
@@ -129,9 +374,7 @@ export type StatisticPeriod = "5minute" | "hour" | "day" | "week" | "month";
 export type StatisticsMode = "values" | "series" | "pairs";
 
 export type StatisticsGenerator = {
-  $statistics: {
-    entities: EntitySpec[];
-
+  $statistics: EntitySelection & {
     /** Aggregation period — default "day" */
     period?: StatisticPeriod;
 
@@ -141,13 +384,18 @@ export type StatisticsGenerator = {
     /** How many days of statistics to fetch — default 14 */
     days?: number;
 
-    /** Explicit start/end overrides (ISO string or epoch ms) */
+    /** Explicit start/end overrides (ISO, epoch ms, or an expression like "start_of_week") */
     start?: string | number;
     end?: string | number;
+    /** First day of the week for "start_of_week" — default: the user's HA setting, else Monday */
+    week_start?: Weekday;
 
     /** Output mode — default "values" for 1 entity, "series" for multiple */
     mode?: StatisticsMode;
 
+    /** Have HA convert each statistic from the unit it was recorded in */
+    unit?: string;
+
     name_from?: "friendly_name" | "entity_id";
 
     /** Series type for mode: "series" — default "bar" */
@@ -0,0 +1,200 @@
+import type { HassEntity } from "../ha-types";
+
+/*
+ * Unit conversion for `$unit` and the generators' `unit:` option.
+ * Values are converted from the entity's `unit_of_measurement`, spelled the way
+ * HA spells it ("kWh", "°C", "m³", "km/h", "MiB"…), within one unit class.
+ */
+
+export type UnitClass =
+  | "power"
+  | "energy"
+  | "temperature"
+  | "volume"
+  | "pressure"
+  | "speed"
+  | "data_size";
+
+// linear classes: how many of the class's base unit one unit is
+const FACTORS: Record<Exclude<UnitClass, "temperature">, Record<string, number>> = {
+  // base W
+  power: {
+    mW: 1e-3,
+    W: 1,
+    kW: 1e3,
+    MW: 1e6,
+    GW: 1e9,
+    TW: 1e12,
+    "BTU/h": 0.29307107017,
+  },
+  // base Wh
+  energy: {
+    mWh: 1e-3,
+    Wh: 1,
+    kWh: 1e3,
+    MWh: 1e6,
+    GWh: 1e9,
+    TWh: 1e12,
+    J: 1 / 3600,
+    kJ: 1e3 / 3600,
+    MJ: 1e6 / 3600,
+    GJ: 1e9 / 3600,
+    cal: 4.184 / 3600,
+    kcal: 4.184e3 / 3600,
+    Mcal: 4.184e6 / 3600,
+    Gcal: 4.184e9 / 3600,
+  },
+  // base L
+  volume: {
+    mL: 1e-3,
+    L: 1,
+    "m³": 1e3,
+    "ft³": 28.316846592,
+    CCF: 2831.6846592,
+    gal: 3.785411784,
+    "fl. oz.": 0.0295735295625,
+  },
+  // base Pa
+  pressure: {
+    Pa: 1,
+    hPa: 100,
+    kPa: 1e3,
+    MPa: 1e6,
+    mbar: 100,
+    cbar: 1e3,
+    bar: 1e5,
+    mmHg: 133.322387415,
+    inHg: 3386.389,
+    psi: 6894.757293168,
+  },
+  // base m/s (HA also files precipitation intensity under speed)
+  speed: {
+    "m/s": 1,
+    "km/h": 1 / 3.6,
+    mph: 0.44704,
+    kn: 1852 / 3600,
+    "ft/s": 0.3048,
+    "mm/s": 1e-3,
+    "mm/h": 1e-3 / 3600,
+    "mm/d": 1e-3 / 86400,
+    "in/h": 0.0254 / 3600,
+    "in/d": 0.0254 / 86400,
+  },
+  // base bit
+  data_size: {
+    bit: 1,
+    kbit: 1e3,
+    Mbit: 1e6,
+    Gbit: 1e9,
+    B: 8,
+    kB: 8e3,
+    MB: 8e6,
+    GB: 8e9,
+    TB: 8e12,
+    PB: 8e15,
+    KiB: 8 * 2 ** 10,
+    MiB: 8 * 2 ** 20,
+    GiB: 8 * 2 ** 30,
+    TiB: 8 * 2 ** 40,
+    PiB: 8 * 2 ** 50,
+  },
+};
+
+// temperature is affine: kelvin = value * scale + offset
+const TEMPERATURE: Record<string, [number, number]> = {
+  "°C": [1, 273.15],
+  "°F": [5 / 9, 273.15 - (32 * 5) / 9],
+  K: [1, 0],
+};
+
+// temperatures first so "C" / "F" suggest "°C" / "°F" rather than "W"
+export const KNOWN_UNITS = [
+  ...Object.keys(TEMPERATURE),
+  ...Object.values(FACTORS).flatMap((f) => Object.keys(f)),
+];
+
+export function unitClass(unit: string): UnitClass | undefined {
+  if (Object.hasOwn(TEMPERATURE, unit)) return "temperature";
+  for (const [cls, factors] of Object.entries(FACTORS)) {
+    if (Object.hasOwn(factors, unit)) return cls as UnitClass;
+  }
+  return undefined;
+}
+
+/**
+ * `value` in `from` expressed in `to`; undefined when the units aren't of one class.
+ * A `difference` (a change of 1 °C is a change of 1.8 °F) skips the temperature offsets.
+ */
+export function convertUnit(
+  value: number,
+  from: string,
+  to: string,
+  difference = false,
+): number | undefined {
+  if (from === to) return value;
+  const cls = unitClass(from);
+  if (!cls || cls !== unitClass(to)) return undefined;
+
+  if (cls === "temperature") {
+    const [fromScale, fromOffset] = TEMPERATURE[from];
+    const [toScale, toOffset] = TEMPERATURE[to];
+    if (difference) return (value * fromScale) / toScale;
+    return (value * fromScale + fromOffset - toOffset) / toScale;
+  }
+  const factors = FACTORS[cls];
+  return (value * factors[from]) / factors[to];
+}
+
+export type UnitConverter = (value: number) => number;
+
+/** Receives the message for an entity whose values can't be converted. */
+export type UnitWarn = (message: string) => void;
+
+/**
+ * Why the entity's values can't be converted to `to` (no declared unit, or one of
+ * another class), or undefined when they can or needn't be.
+ */
+export function unitWarning(
+  st: HassEntity | undefined,
+  entityId: string,
+  to: string | undefined,
+): string | undefined {
+  if (!to || !st) return undefined;
+  const from = st.attributes?.unit_of_measurement;
+  let problem: string | undefined;
+  if (typeof from !== "string" || !from) {
+    problem = `has no unit_of_measurement to convert to "${to}" from`;
+  } else if (convertUnit(0, from, to) == null) {
+    problem = `can't be converted from "${from}" to "${to}"`;
+  }
+  return problem && `[echarts-raw-card] unit: ${entityId} ${problem}; its values are not converted`;
+}
+
+/**
+ * Converter from the entity's declared unit to `to`, or undefined when the value
+ * should pass through as-is (same unit, no declared unit, or an unknown conversion —
+ * the last two are reported to `warn`).
+ */
+export function entityUnitConverter(
+  st: HassEntity | undefined,
+  entityId: string,
+  to: string | undefined,
+  warn?: UnitWarn,
+): UnitConverter | undefined {
+  const problem = unitWarning(st, entityId, to);
+  if (problem) {
+    warn?.(problem);
+    return undefined;
+  }
+  const from = st?.attributes?.unit_of_measurement;
+  if (!to || typeof from !== "string" || from === to) return undefined;
+  return (value) => convertUnit(value, from, to)!;
+}
+
+/** The unit an entity's values end up in: `to` when the conversion is possible. */
+export function effectiveUnit(st: HassEntity | undefined, to: string | undefined): string {
+  const from = st?.attributes?.unit_of_measurement;
+  const declared = typeof from === "string" ? from : "";
+  if (!to) return declared;
+  return declared && convertUnit(0, declared, to) != null ? to : declared;
+}
@@ -0,0 +1,950 @@
+import {
+  isColorToken,
+  isAttrSeriesGenerator,
+  isDataGenerator,
+  isExprToken,
+  isForecastToken,
+  isFormatToken,
+  isFormatterToken,
+  isHistoryGenerator,
+  isServiceToken,
+  isStatisticsGenerator,
+  isTemplateToken,
+  isTokenObject,
+  isUnitOfToken,
+  isPlainObject,
+} from "../tokens/guards";
+import { THEME_KEYWORDS } from "../echarts/theme";
+import { closestMatch } from "./suggest";
+import { compileExpr } from "../expr/evaluate";
+import { exprVariables } from "../expr/parse";
+import { BUILTIN_FORMATTERS } from "../format/builtins";
+import { hasFormatter } from "../format/registry";
+import { ENTITY_MODIFIERS, parseFormatString, type Placeholder } from "../format/interpolate";
+import { expandRefs } from "../tokens/refs";
+import { HA_COLOR_NAMES, parseColor } from "../color/parse";
+import {
+  applyExtends,
+  isLocalTemplatePath,
+  isTemplatePath,
+  pendingTemplateFile,
+} from "../extends/templates";
+import { KNOWN_UNITS } from "../units/convert";
+import { isMultiPath, parseAttrPath } from "../tokens/attr-path";
+import { isTimeExpression, TIME_ANCHORS, WEEKDAYS } from "../time/relative";
+
+/* ------------------------------------------------------------------
+ * Issue types
+ * ------------------------------------------------------------------ */
+
+export type ValidationLevel = "error" | "warning";
+
+export type ValidationIssue = {
+  level: ValidationLevel;
+  /** JSON path into the card config, e.g. `option.series[2].data.$history.hours` */
+  path: string;
+  message: string;
+};
+
+type Check = (value: unknown, path: string, out: ValidationIssue[]) => void;
+type Shape = Record<string, Check>;
+
+/* ------------------------------------------------------------------
+ * Check builders
+ * ------------------------------------------------------------------ */
+
+function typeName(v: unknown): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "list";
+  return typeof v;
+}
+
+function didYouMean(hint: string | undefined): string {
+  return hint ? ` — did you mean "${hint}"?` : "";
+}
+
+function error(out: ValidationIssue[], path: string, message: string): void {
+  out.push({ level: "error", path, message });
+}
+
+function warning(out: ValidationIssue[], path: string, message: string): void {
+  out.push({ level: "warning", path, message });
+}
+
+const any: Check = () => {};
+
+/** Any mapping; its contents are free-form. */
+const mapping: Check = (v, p, out) => {
+  if (!isPlainObject(v)) error(out, p, `must be a mapping, got ${typeName(v)}`);
+};
+
+function str(): Check {
+  return (v, p, out) => {
+    if (typeof v !== "string") error(out, p, `must be a string, got ${typeName(v)}`);
+  };
+}
+
+function bool(): Check {
+  return (v, p, out) => {
+    if (typeof v !== "boolean") error(out, p, `must be true or false, got ${typeName(v)}`);
+  };
+}
+
+function num(
+  opts: { min?: number; max?: number; exclusiveMin?: number; integer?: boolean } = {},
+): Check {
+  return (v, p, out) => {
+    if (typeof v !== "number" || !Number.isFinite(v)) {
+      error(out, p, `must be a number, got ${typeName(v)}`);
+      return;
+    }
+    if (opts.integer && !Number.isInteger(v)) error(out, p, `must be a whole number, got ${v}`);
+    if (opts.min != null && v < opts.min) error(out, p, `must be >= ${opts.min}, got ${v}`);
+    if (opts.max != null && v > opts.max) error(out, p, `must be <= ${opts.max}, got ${v}`);
+    if (opts.exclusiveMin != null && v <= opts.exclusiveMin) {
+      error(out, p, `must be > ${opts.exclusiveMin}, got ${v}`);
+    }
+  };
+}
+
+function oneOf(values: readonly string[]): Check {
+  return (v, p, out) => {
+    if (typeof v === "string" && values.includes(v)) return;
+    const hint = typeof v === "string" ? closestMatch(v, values) : undefined;
+    const allowed = values.map((x) => `"${x}"`).join(", ");
+    error(out, p, `must be one of ${allowed}, got ${JSON.stringify(v)}${didYouMean(hint)}`);
+  };
+}
+
+function listOf(item: Check): Check {
+  return (v, p, out) => {
+    if (!Array.isArray(v)) {
+      error(out, p, `must be a list, got ${typeName(v)}`);
+      return;
+    }
+    v.forEach((x, i) => item(x, `${p}[${i}]`, out));
+  };
+}
+
+function object(
+  shape: Shape,
+  opts: { required?: string[]; unknown?: ValidationLevel } = {},
+): Check {
+  return (v, p, out) => {
+    if (!isPlainObject(v)) {
+      error(out, p, `must be a mapping, got ${typeName(v)}`);
+      return;
+    }
+
+    for (const key of opts.required ?? []) {
+      if (!(key in v)) error(out, `${p}.${key}`, "is required");
+    }
+
+    for (const [key, child] of Object.entries(v)) {
+      const check = shape[key];
+      if (check) {
+        check(child, `${p}.${key}`, out);
+        continue;
+      }
+      const hint = closestMatch(key, Object.keys(shape));
+      out.push({
+        level: opts.unknown ?? "warning",
+        path: `${p}.${key}`,
+        message: `unknown key "${key}"${didYouMean(hint)}`,
+      });
+    }
+  };
+}
+
+/* ------------------------------------------------------------------
+ * Shared field checks
+ * ------------------------------------------------------------------ */
+
+const entityIdCheck: Check = (v, p, out) => {
+  if (typeof v !== "string") {
+    error(out, p, `must be an entity id string, got ${typeName(v)}`);
+    return;
+  }
+  if (!/^[a-z0-9_]+\.[a-z0-9_]+$/i.test(v)) {
+    warning(out, p, `"${v}" does not look like an entity id (expected "domain.object_id")`);
+  }
+};
+
+const entitySpecCheck: Check = (v, p, out) => {
+  if (typeof v === "string") return entityIdCheck(v, p, out);
+  object({ id: entityIdCheck, name: str() }, { required: ["id"] })(v, p, out);
+};
+
+const timeCheck: Check = (v, p, out) => {
+  if (typeof v === "number" && Number.isFinite(v)) return;
+  if (typeof v === "string" && (isTimeExpression(v) || Number.isFinite(Date.parse(v)))) return;
+  const word = typeof v === "string" ? /^[a-z_]+/i.exec(v.trim())?.[0] : undefined;
+  const hint = word ? closestMatch(word, TIME_ANCHORS) : undefined;
+  error(
+    out,
+    p,
+    `must be an ISO timestamp, epoch milliseconds or a time expression such as "now-6h" or "start_of_week", got ${JSON.stringify(v)}${didYouMean(hint)}`,
+  );
+};
+
+const clampCheck: Check = (v, p, out) => {
+  if (!Array.isArray(v) || v.length !== 2 || !v.every((x) => typeof x === "number")) {
+    error(out, p, "must be a [min, max] pair of numbers");
+    return;
+  }
+  if (v[0] > v[1]) warning(out, p, `min (${v[0]}) is greater than max (${v[1]})`);
+};
+
+const mapCheck: Check = (v, p, out) => {
+  if (typeof v === "string") return oneOf(["log", "sqrt"])(v, p, out);
+  object(
+    { type: oneOf(["log", "sqrt", "pow"]), base: num(), add: num(), pow: num() },
+    { required: ["type"] },
+  )(v, p, out);
+};
+
+/** Target units must be ones the converter knows; anything else leaves values as they are. */
+const unitCheck: Check = (v, p, out) => {
+  if (typeof v !== "string") {
+    error(out, p, `must be a unit string such as "kW", got ${typeName(v)}`);
+    return;
+  }
+  if (KNOWN_UNITS.includes(v)) return;
+  const hint = closestMatch(v, KNOWN_UNITS);
+  warning(out, p, `unknown unit "${v}"; values are not converted${didYouMean(hint)}`);
+};
+
+/** Attribute paths must parse; a history point needs a path that reads one value. */
+function attrPathCheck(single: boolean): Check {
+  return (v, p, out) => {
+    if (typeof v !== "string") {
+      error(out, p, `must be an attribute name or path, got ${typeName(v)}`);
+      return;
+    }
+    try {
+      parseAttrPath(v);
+    } catch (err) {
+      error(out, p, stripPrefix(err, "$attr"));
+      return;
+    }
+    if (single && isMultiPath(v)) {
+      error(out, p, `"${v}" reads a list ([*] or a filter); each history point needs one value`);
+    }
+  };
+}
+
+const COERCE_MODES = ["auto", "number", "string", "bool"] as const;
+const NAME_FROM = ["friendly_name", "entity_id"] as const;
+const SERIES_TYPES = ["line", "bar", "scatter"] as const;
+
+const TRANSFORMS_SHAPE: Shape = {
+  map: mapCheck,
+  abs: bool(),
+  scale: num(),
+  offset: num(),
+  min: num(),
+  max: num(),
+  clamp: clampCheck,
+  round: num({ integer: true, min: 0 }),
+};
+
+const seriesOverridesCheck: Check = (v, p, out) => {
+  if (!isPlainObject(v)) {
+    error(out, p, `must be a mapping of series name → ECharts series options, got ${typeName(v)}`);
+    return;
+  }
+  for (const [k, child] of Object.entries(v)) {
+    if (!isPlainObject(child)) error(out, `${p}.${k}`, `must be a mapping, got ${typeName(child)}`);
+  }
+};
+
+/* ------------------------------------------------------------------
+ * Token shapes
+ * ------------------------------------------------------------------ */
+
+const VALUE_OPTIONS_SHAPE: Shape = {
+  $coerce: oneOf(COERCE_MODES),
+  $default: any,
+  $map: mapCheck,
+  $abs: bool(),
+  $scale: num(),
+  $offset: num(),
+  $min: num(),
+  $max: num(),
+  $clamp: clampCheck,
+  $round: num({ integer: true, min: 0 }),
+};
+
+const TOKEN_SHAPE: Shape = {
+  $entity: entityIdCheck,
+  $attr: attrPathCheck(false),
+  $unit: unitCheck,
+  ...VALUE_OPTIONS_SHAPE,
+};
+
+const UNIT_OF_SHAPE: Shape = {
+  $unit_of: entityIdCheck,
+  $unit: unitCheck,
+  $default: str(),
+};
+
+const TEMPLATE_SHAPE: Shape = {
+  $template: str(),
+  $variables: mapping,
+  ...VALUE_OPTIONS_SHAPE,
+};
+
+const templateCheck = object(TEMPLATE_SHAPE, { unknown: "error" });
+
+const EXPR_SHAPE: Shape = {
+  $expr: str(),
+  vars: mapping,
+  ...VALUE_OPTIONS_SHAPE,
+};
+
+function checkBound(
+  names: string[],
+  vars: unknown,
+  p: string,
+  out: ValidationIssue[],
+): Record<string, unknown> {
+  const bound = isPlainObject(vars) ? vars : {};
+  const declared = Object.keys(bound);
+  for (const name of names) {
+    if (declared.includes(name)) continue;
+    const hint = closestMatch(name, declared);
+    error(out, p, `"${name}" is not defined in vars${didYouMean(hint)}`);
+  }
+  return bound;
+}
+
+function stripPrefix(err: unknown, token: string): string {
+  const message = err instanceof Error ? err.message : String(err);
+  return message.replace(`[echarts-raw-card] ${token}: `, "");
+}
+
+/** Shape, syntax, and every variable the expression reads must be bound in `vars`. */
+function validateExpr(node: Record<string, unknown>, p: string, out: ValidationIssue[]): void {
+  object(EXPR_SHAPE, { unknown: "error" })(node, p, out);
+  if (typeof node.$expr !== "string") return;
+
+  let names: string[];
+  try {
+    names = exprVariables(compileExpr(node.$expr));
+  } catch (err) {
+    error(out, `${p}.$expr`, stripPrefix(err, "$expr"));
+    return;
+  }
+  checkBound(names, node.vars, `${p}.$expr`, out);
+}
+
+const FORMAT_SHAPE: Shape = {
+  $format: str(),
+  vars: mapping,
+};
+
+/** Like `$expr`, plus entity modifiers (`{x:unit}`) need `x` bound to an `$entity` token. */
+function validateFormat(node: Record<string, unknown>, p: string, out: ValidationIssue[]): void {
+  object(FORMAT_SHAPE, { unknown: "error" })(node, p, out);
+  if (typeof node.$format !== "string") return;
+
+  let placeholders: Placeholder[];
+  try {
+    placeholders = parseFormatString(node.$format).filter(
+      (x): x is Placeholder => typeof x !== "string",
+    );
+  } catch (err) {
+    error(out, `${p}.$format`, stripPrefix(err, "$format"));
+    return;
+  }
+
+  const names = [...new Set(placeholders.map((x) => x.name))];
+  const bound = checkBound(names, node.vars, `${p}.$format`, out);
+
+  for (const { name, modifier } of placeholders) {
+    if (!(ENTITY_MODIFIERS as readonly string[]).includes(modifier ?? "")) continue;
+    if (!(name in bound) || isTokenObject(bound[name])) continue;
+    warning(
+      out,
+      `${p}.$format`,
+      `"{${name}:${modifier}}" is always empty: "${name}" is not bound to an $entity token`,
+    );
+  }
+}
+
+/** `[[number, colour], …]`; gradient colours must be interpolatable (CSS variables are read at render time). */
+function colorSteps(interpolated: boolean): Check {
+  return listOf((v, p, out) => {
+    if (!Array.isArray(v) || v.length !== 2 || typeof v[1] !== "string") {
+      error(out, p, `must be a [value, colour] pair, got ${JSON.stringify(v)}`);
+      return;
+    }
+    num()(v[0], `${p}[0]`, out);
+    if (!interpolated || v[1].trim().startsWith("var(") || parseColor(v[1])) return;
+    const hint = closestMatch(v[1].toLowerCase(), HA_COLOR_NAMES);
+    error(
+      out,
+      `${p}[1]`,
+      `can't interpolate "${v[1]}"; use hex, rgb(), hsl(), var(--…) or a HA colour name${didYouMean(hint)}`,
+    );
+  });
+}
+
+const COLOR_SCALE_SHAPE: Shape = {
+  thresholds: colorSteps(false),
+  gradient: colorSteps(true),
+  space: oneOf(["oklch", "rgb"]),
+};
+
+const COLOR_SHAPE: Shape = {
+  $color: any,
+  default: str(),
+  ...COLOR_SCALE_SHAPE,
+};
+
+/** Shape of the token or `$data.color`, plus a warning when both scales are given. */
+function colorScaleCheck(shape: Shape, unknown: ValidationLevel): Check {
+  return (v, p, out) => {
+    object(shape, { unknown })(v, p, out);
+    if (isPlainObject(v) && v.thresholds != null && v.gradient != null) {
+      warning(out, `${p}.gradient`, "ignored: thresholds take precedence");
+    }
+  };
+}
+
+const stringOrList: Check = (v, p, out) => {
+  if (typeof v === "string") return;
+  listOf(str())(v, p, out);
+};
+
+const SELECTOR_SHAPE: Shape = {
+  domain: stringOrList,
+  device_class: stringOrList,
+  area: stringOrList,
+  device: stringOrList,
+  label: stringOrList,
+  integration: stringOrList,
+  entity_glob: stringOrList,
+};
+
+const selectorCheck: Check = (v, p, out) => {
+  if (Array.isArray(v)) return listOf(object(SELECTOR_SHAPE))(v, p, out);
+  object(SELECTOR_SHAPE)(v, p, out);
+};
+
+const SELECTION_SHAPE: Shape = {
+  entities: listOf(entitySpecCheck),
+  include: selectorCheck,
+  exclude: selectorCheck,
+};
+
+const GROUP_BY = ["area", "device", "domain", "device_class"] as const;
+
+const groupByCheck: Check = (v, p, out) => {
+  if (typeof v === "string" && /^attribute:.+/.test(v)) return;
+  if (typeof v === "string" && v.startsWith("attribute")) {
+    error(out, p, `must name the attribute, e.g. "attribute:floor", got ${JSON.stringify(v)}`);
+    return;
+  }
+  oneOf([...GROUP_BY, "attribute:<name>"])(v, p, out);
+};
+
+const DATA_SHAPE: Shape = {
+  ...SELECTION_SHAPE,
+  mode: oneOf(["pairs", "names", "values"]),
+  name_from: oneOf(NAME_FROM),
+  attr: attrPathCheck(false),
+  coerce: oneOf(COERCE_MODES),
+  default: any,
+  include_unavailable: bool(),
+  exclude_unavailable: bool(),
+  exclude_zero: bool(),
+  sort: oneOf(["asc", "desc", "none"]),
+  limit: num({ integer: true, exclusiveMin: 0 }),
+  transforms: object(TRANSFORMS_SHAPE),
+  group_by: groupByCheck,
+  aggregate: oneOf(["sum", "mean", "min", "max", "count"]),
+  others: object({ label: str(), min_share: num({ min: 0, max: 1 }) }),
+  normalize: oneOf(["percent", "fraction"]),
+  color: colorScaleCheck(COLOR_SCALE_SHAPE, "warning"),
+  unit: unitCheck,
+};
+
+const stateColorsCheck: Check = (v, p, out) => {
+  if (!isPlainObject(v)) {
+    error(out, p, `must be a mapping of state → colour, got ${typeName(v)}`);
+    return;
+  }
+  for (const [k, child] of Object.entries(v)) str()(child, `${p}.${k}`, out);
+};
+
+const HISTORY_SHAPE: Shape = {
+  ...SELECTION_SHAPE,
+  hours: num({ exclusiveMin: 0 }),
+  start: timeCheck,
+  end: timeCheck,
+  week_start: oneOf(WEEKDAYS),
+  mode: oneOf(["values", "series", "timeline"]),
+  state_colors: stateColorsCheck,
+  name_from: oneOf(NAME_FROM),
+  attr: attrPathCheck(true),
+  coerce: oneOf(COERCE_MODES),
+  default: any,
+  transforms: object(TRANSFORMS_SHAPE),
+  unit: unitCheck,
+  series_type: oneOf(SERIES_TYPES),
+  show_symbol: bool(),
+  sample: object(
+    { max_points: num({ integer: true, min: 2 }), method: oneOf(["mean", "last"]) },
+    { required: ["max_points"] },
+  ),
+  cache_seconds: num({ min: 0 }),
+  include_start_state: bool(),
+  extend_to_now: bool(),
+  live: bool(),
+  stream: bool(),
+  transport: oneOf(["auto", "websocket", "rest"]),
+  significant_changes_only: bool(),
+  series_overrides: seriesOverridesCheck,
+  minimal_response: bool(),
+};
+
+const STATISTICS_SHAPE: Shape = {
+  ...SELECTION_SHAPE,
+  period: oneOf(["5minute", "hour", "day", "week", "month"]),
+  stat_type: oneOf(["mean", "min", "max", "sum", "change", "state"]),
+  days: num({ exclusiveMin: 0 }),
+  start: timeCheck,
+  end: timeCheck,
+  week_start: oneOf(WEEKDAYS),
+  mode: oneOf(["values", "series", "pairs"]),
+  unit: unitCheck,
+  name_from: oneOf(NAME_FROM),
+  series_type: oneOf(SERIES_TYPES),
+  cache_seconds: num({ min: 0 }),
+  series_overrides: seriesOverridesCheck,
+};
+
+const serviceNameCheck: Check = (v, p, out) => {
+  if (typeof v !== "string") {
+    error(out, p, `must be a "domain.service" string, got ${typeName(v)}`);
+    return;
+  }
+  if (!/^[a-z0-9_]+\.[a-z0-9_]+$/.test(v)) {
+    error(out, p, `"${v}" is not a service name (expected "domain.service")`);
+  }
+};
+
+const fieldCheck = attrPathCheck(true);
+
+const SERVICE_OUTPUT_SHAPE: Shape = {
+  path: attrPathCheck(false),
+  fields: object({
+    time: fieldCheck,
+    value: (v, p, out) => (Array.isArray(v) ? listOf(fieldCheck) : fieldCheck)(v, p, out),
+  }),
+  mode: oneOf(["values", "series", "raw"]),
+  series_type: oneOf(SERIES_TYPES),
+  series_overrides: seriesOverridesCheck,
+  cache_seconds: num({ min: 0 }),
+};
+
+const SERVICE_SHAPE: Shape = {
+  $service: serviceNameCheck,
+  data: mapping,
+  target: mapping,
+  ...SERVICE_OUTPUT_SHAPE,
+};
+
+const FORECAST_SHAPE: Shape = {
+  $forecast: entityIdCheck,
+  type: oneOf(["daily", "hourly", "twice_daily"]),
+  ...SERVICE_OUTPUT_SHAPE,
+};
+
+/** Shape, plus a warning when `mode` asks for points the `fields` can't supply. */
+function validateService(node: Record<string, unknown>, p: string, out: ValidationIssue[]): void {
+  const forecast = isForecastToken(node) && !isServiceToken(node);
+  object(forecast ? FORECAST_SHAPE : SERVICE_SHAPE, { unknown: "error" })(node, p, out);
+  const fields = isPlainObject(node.fields) ? node.fields : {};
+  if (!forecast && fields.value == null && (node.mode === "values" || node.mode === "series")) {
+    warning(out, `${p}.mode`, `"${node.mode}" needs fields.value; the result is empty`);
+  }
+}
+
+const ATTR_SERIES_SHAPE: Shape = {
+  entity: entityIdCheck,
+  attr: attrPathCheck(false),
+  time_field: fieldCheck,
+  value_field: fieldCheck,
+  end_field: fieldCheck,
+  mode: oneOf(["points", "step", "areas"]),
+  start: timeCheck,
+  end: timeCheck,
+  coerce: oneOf(COERCE_MODES),
+  default: any,
+  transforms: object(TRANSFORMS_SHAPE),
+  unit: unitCheck,
+  color: colorScaleCheck(COLOR_SCALE_SHAPE, "warning"),
+};
+
+const GENERATOR_SHAPES: Record<string, Shape> = {
+  $attr_series: ATTR_SERIES_SHAPE,
+  $data: DATA_SHAPE,
+  $history: HISTORY_SHAPE,
+  $statistics: STATISTICS_SHAPE,
+};
+
+const FORMATTER_COMMON_SHAPE: Shape = {
+  $formatter: str(),
+  decimals: num({ integer: true, min: 0 }),
+  unit: str(),
+  prefix: str(),
+  locale: str(),
+};
+
+const FORMATTER_SHAPES: Record<string, Shape> = {
+  percent: { ratio: bool() },
+  bytes: { binary: bool() },
+  energy: { unit: oneOf(["Wh", "kWh", "MWh", "GWh"]) },
+  power: { unit: oneOf(["W", "kW", "MW", "GW"]) },
+  duration: {
+    unit: oneOf(["ms", "s", "min", "h", "d"]),
+    max_parts: num({ integer: true, min: 1 }),
+  },
+  date: { pattern: str(), time_zone: str() },
+};
+
+function validateFormatter(node: Record<string, unknown>, p: string, out: ValidationIssue[]): void {
+  const name = node.$formatter;
+  if (typeof name !== "string") return str()(name, `${p}.$formatter`, out);
+
+  if (name in BUILTIN_FORMATTERS) {
+    const shape = { ...FORMATTER_COMMON_SHAPE, ...FORMATTER_SHAPES[name] };
+    object(shape)(node, p, out);
+    return;
+  }
+
+  // custom formatters may be registered by a resource that loads after the card
+  if (!hasFormatter(name)) {
+    const hint = closestMatch(name, Object.keys(BUILTIN_FORMATTERS));
+    warning(
+      out,
+      `${p}.$formatter`,
+      `unknown formatter "${name}"${didYouMean(hint)} (custom formatters need window.echartsRawCard.registerFormatter)`,
+    );
+  }
+}
+
+const TOKEN_ROOT_KEYS = [
+  "$entity",
+  "$template",
+  "$expr",
+  "$formatter",
+  "$format",
+  "$color",
+  "$unit_of",
+  "$service",
+  "$forecast",
+  ...Object.keys(GENERATOR_SHAPES),
+];
+
+/** `$` keys that belong to ECharts itself, e.g. `graphic` elements' `$action: merge | replace | remove`. */
+const ECHARTS_DOLLAR_KEYS = new Set(["$action"]);
+
+/**
+ * Validate `$template` values inside a generator spec and return the spec
+ * without them, so the shape check only sees literal values.
+ */
+function stripTemplates(v: unknown, p: string, out: ValidationIssue[]): unknown {
+  if (isTemplateToken(v)) {
+    templateCheck(v, p, out);
+    return undefined;
+  }
+  if (Array.isArray(v)) {
+    return v.map((x, i) => stripTemplates(x, `${p}[${i}]`, out)).filter((x) => x !== undefined);
+  }
+  if (isPlainObject(v)) {
+    const o: Record<string, unknown> = {};
+    for (const [k, x] of Object.entries(v)) {
+      const kept = stripTemplates(x, `${p}.${k}`, out);
+      if (kept !== undefined) o[k] = kept;
+    }
+    return o;
+  }
+  return v;
+}
+
+function validateGenerator(
+  node: Record<string, unknown>,
+  key: string,
+  path: string,
+  out: ValidationIssue[],
+): void {
+  const spec = node[key];
+
+  const literal = stripTemplates(spec, `${path}.${key}`, out);
+  // a templated entity list is still "present"
+  if (isPlainObject(spec) && isPlainObject(literal) && "entities" in spec) {
+    literal.entities ??= [];
+  }
+  // selectors can stand in for an explicit entity list
+  const required =
+    key === "$attr_series"
+      ? ["entity", "attr", "time_field"]
+      : isPlainObject(spec) && "include" in spec
+        ? []
+        : ["entities"];
+  object(GENERATOR_SHAPES[key], { required })(literal, `${path}.${key}`, out);
+
+  if (key === "$attr_series" && isPlainObject(spec) && spec.mode !== "areas") {
+    if (spec.value_field == null) {
+      warning(out, `${path}.${key}`, "needs value_field unless mode is areas; the result is empty");
+    }
+    if (spec.color != null) warning(out, `${path}.${key}.color`, "only used with mode: areas");
+  }
+
+  if (key === "$data" && isPlainObject(spec) && spec.aggregate != null && spec.group_by == null) {
+    warning(out, `${path}.${key}.aggregate`, "ignored without group_by");
+  }
+
+  if (
+    key === "$data" &&
+    isPlainObject(spec) &&
+    isPlainObject(spec.others) &&
+    spec.others.min_share == null &&
+    spec.limit == null
+  ) {
+    warning(out, `${path}.${key}.others`, "folds nothing without limit or others.min_share");
+  }
+
+  if (key === "$history" && isPlainObject(spec)) {
+    const timeline = spec.mode === "timeline";
+    if (spec.state_colors != null && !timeline) {
+      warning(out, `${path}.${key}.state_colors`, "only used with mode: timeline");
+    }
+    for (const opt of ["sample", "coerce", "transforms", "unit", "series_type"]) {
+      if (!timeline || spec[opt] == null) continue;
+      warning(out, `${path}.${key}.${opt}`, "ignored: a timeline charts states as they are");
+    }
+  }
+
+  if (key === "$history" && isPlainObject(spec) && spec.end != null) {
+    for (const flag of ["live", "stream"]) {
+      if (spec[flag] !== true) continue;
+      warning(
+        out,
+        `${path}.${key}.${flag}`,
+        `ignored: a ${flag} window always ends at "now"; drop \`end\``,
+      );
+    }
+    if (spec.extend_to_now === true) {
+      warning(out, `${path}.${key}.extend_to_now`, "ignored: the window ends at `end`, not now");
+    }
+  }
+
+  for (const sibling of Object.keys(node)) {
+    if (sibling === key) continue;
+    warning(out, `${path}.${sibling}`, `ignored: keys next to "${key}" are replaced by its output`);
+  }
+}
+
+/* ------------------------------------------------------------------
+ * Public API
+ * ------------------------------------------------------------------ */
+
+/** Walk an ECharts option tree and validate every token object found in it. */
+export function validateOptionTree(option: unknown, path = "option"): ValidationIssue[] {
+  const out: ValidationIssue[] = [];
+
+  const walk = (v: unknown, p: string): void => {
+    if (Array.isArray(v)) {
+      v.forEach((x, i) => walk(x, `${p}[${i}]`));
+      return;
+    }
+    if (!isPlainObject(v)) return;
+
+    // same precedence as deepResolveTokensAsync
+    if (isHistoryGenerator(v)) return validateGenerator(v, "$history", p, out);
+    if (isStatisticsGenerator(v)) return validateGenerator(v, "$statistics", p, out);
+    if (isServiceToken(v) || isForecastToken(v)) return validateService(v, p, out);
+    if (isAttrSeriesGenerator(v)) return validateGenerator(v, "$attr_series", p, out);
+    if (isDataGenerator(v)) return validateGenerator(v, "$data", p, out);
+    if (isTokenObject(v)) return object(TOKEN_SHAPE, { unknown: "error" })(v, p, out);
+    if (isUnitOfToken(v)) return object(UNIT_OF_SHAPE, { unknown: "error" })(v, p, out);
+    if (isTemplateToken(v)) return templateCheck(v, p, out);
+    if (isFormatterToken(v)) return validateFormatter(v, p, out);
+    if (isColorToken(v)) {
+      colorScaleCheck(COLOR_SHAPE, "error")(v, p, out);
+      return walk(v.$color, `${p}.$color`);
+    }
+    if (isExprToken(v) || isFormatToken(v)) {
+      if (isExprToken(v)) validateExpr(v, p, out);
+      else validateFormat(v, p, out);
+      if (isPlainObject(v.vars)) {
+        for (const [name, child] of Object.entries(v.vars)) walk(child, `${p}.vars.${name}`);
+      }
+      return;
+    }
+
+    for (const [key, child] of Object.entries(v)) {
+      // warnings only: ECharts ignores keys it doesn't know, so the chart still renders
+      if (key.startsWith("$") && !ECHARTS_DOLLAR_KEYS.has(key)) {
+        if (key in TOKEN_SHAPE) {
+          const owner =
+            key in VALUE_OPTIONS_SHAPE ? '"$entity", "$template" or "$expr"' : '"$entity"';
+          warning(out, `${p}.${key}`, `"${key}" only has an effect next to ${owner}`);
+        } else {
+          const hint = closestMatch(key, [...TOKEN_ROOT_KEYS, ...Object.keys(TOKEN_SHAPE)]);
+          warning(out, `${p}.${key}`, `unknown token "${key}"${didYouMean(hint)}`);
+        }
+        continue;
+      }
+      walk(child, `${p}.${key}`);
+    }
+  };
+
+  walk(option, path);
+  return out;
+}
+
+const extendsCheck: Check = (v, p, out) => {
+  if (typeof v !== "string") return str()(v, p, out);
+  if (isTemplatePath(v) && !isLocalTemplatePath(v)) {
+    error(out, p, `template files must be /local/ paths (your www/ folder), got "${v}"`);
+  }
+};
+
+const debugCheck: Check = (v, p, out) => {
+  if (typeof v === "boolean") return;
+  object({
+    show_resolved_option: bool(),
+    log_resolved_option: bool(),
+    max_chars: num({ integer: true, exclusiveMin: 0 }),
+  })(v, p, out);
+};
+
+const heightCheck: Check = (v, p, out) => {
+  if (typeof v === "string") return;
+  if (typeof v === "number") {
+    warning(out, p, `should be a CSS length such as "${v}px"; a bare number is ignored`);
+    return;
+  }
+  error(out, p, `must be a CSS length string, got ${typeName(v)}`);
+};
+
+const optionCheck: Check = (v, p, out) => {
+  if (!isPlainObject(v)) {
+    error(out, p, `must be a mapping (an ECharts option object), got ${typeName(v)}`);
+    return;
+  }
+  out.push(...validateOptionTree(v, p));
+};
+
+const ACTION_BINDING_SHAPE: Shape = {
+  event: oneOf(["click", "dblclick", "hold"]),
+  series_name: stringOrList,
+  data_name: stringOrList,
+  component_type: stringOrList,
+
+  action: oneOf([
+    "call-service",
+    "perform-action",
+    "more-info",
+    "navigate",
+    "url",
+    "toggle",
+    "none",
+  ]),
+  entity: str(),
+  service: str(),
+  perform_action: str(),
+  data: mapping,
+  service_data: mapping,
+  target: mapping,
+  navigation_path: str(),
+  navigation_replace: bool(),
+  url_path: str(),
+  new_tab: bool(),
+};
+
+const themeCheck: Check = (v, p, out) => {
+  if (isPlainObject(v)) return;
+  if (typeof v !== "string") {
+    error(out, p, `must be a theme name or an inline ECharts theme mapping, got ${typeName(v)}`);
+    return;
+  }
+  if ((THEME_KEYWORDS as readonly string[]).includes(v)) return;
+  const hint = closestMatch(v, THEME_KEYWORDS);
+  if (hint) warning(out, p, `"${v}" is treated as a registered theme name${didYouMean(hint)}`);
+};
+
+const CARD_SHAPE: Shape = {
+  type: str(),
+  option: optionCheck,
+  height: heightCheck,
+  renderer: oneOf(["canvas", "svg"]),
+  title: str(),
+  debug: debugCheck,
+  theme: themeCheck,
+  actions: listOf(object(ACTION_BINDING_SHAPE, { required: ["action"] })),
+  // free-form; checked where `$ref` / `$var` use them
+  vars: mapping,
+  extends: extendsCheck,
+  array_merge: oneOf(["replace", "by_name"]),
+
+  // Lovelace-level keys handled by HA itself
+  view_layout: any,
+  layout_options: any,
+  grid_options: any,
+  visibility: any,
+  card_mod: any,
+};
+
+/** Validate a whole card config; paths are relative to the card root. */
+export function validateCardConfig(config: unknown): ValidationIssue[] {
+  const out: ValidationIssue[] = [];
+  if (!isPlainObject(config)) {
+    error(out, "", `card config must be a mapping, got ${typeName(config)}`);
+    return out;
+  }
+
+  // `extends` templates merge first, so the card is checked as it will render
+  // (a template file that hasn't loaded yet leaves only the card's own keys to check)
+  let card = config;
+  if (typeof config.extends === "string" && !pendingTemplateFile(config)) {
+    try {
+      card = applyExtends(config);
+    } catch (err) {
+      error(out, "extends", stripPrefix(err, "extends"));
+    }
+  }
+
+  if (!("option" in card) && !("extends" in card)) error(out, "option", "is required");
+
+  for (const [key, value] of Object.entries(card)) {
+    if (key === "option") {
+      // references expand first, so the option is checked as it will resolve
+      try {
+        optionCheck(expandRefs(value, card), key, out);
+      } catch (err) {
+        error(out, key, stripPrefix(err, "$ref"));
+      }
+      continue;
+    }
+    const check = CARD_SHAPE[key];
+    if (check) {
+      check(value, key, out);
+      continue;
+    }
+    const hint = closestMatch(key, Object.keys(CARD_SHAPE));
+    warning(out, key, `unknown card option "${key}"${didYouMean(hint)}`);
+  }
+
+  return out;
+}
+
+/** One issue per line, `path: message`, for the card's error / warning panels. */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map((i) => (i.path ? `${i.path}: ${i.message}` : i.message)).join("\n");
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildActionContext,
+  hasBindingFor,
+  matchBindings,
+  renderActionPayload,
+} from "../src/actions/bindings";
+import type { ChartActionBinding } from "../src/types";
+
+const bindings: ChartActionBinding[] = [
+  { action: "more-info", component_type: "series", series_name: "Power" },
+  { action: "toggle", event: "hold", data_name: ["Kitchen", "Office"] },
+  { action: "navigate", event: "dblclick", navigation_path: "/energy" },
+];
+
+// ---------------------------------------------------------------------------
+// matchBindings / hasBindingFor
+// ---------------------------------------------------------------------------
+describe("matchBindings", () => {
+  it("defaults the event to click and applies filters", () => {
+    const hit = matchBindings(bindings, "click", { componentType: "series", seriesName: "Power" });
+    expect(hit).toEqual([bindings[0]]);
+
+    const miss = matchBindings(bindings, "click", { componentType: "series", seriesName: "Gas" });
+    expect(miss).toEqual([]);
+  });
+
+  it("matches any entry of a list filter", () => {
+    expect(matchBindings(bindings, "hold", { name: "Office" })).toEqual([bindings[1]]);
+    expect(matchBindings(bindings, "hold", { name: "Garage" })).toEqual([]);
+  });
+
+  it("a filter never matches when the event lacks that field", () => {
+    expect(matchBindings(bindings, "click", { componentType: "series" })).toEqual([]);
+  });
+
+  it("unfiltered bindings match every element", () => {
+    expect(matchBindings(bindings, "dblclick", {})).toEqual([bindings[2]]);
+  });
+
+  it("handles missing bindings", () => {
+    expect(matchBindings(undefined, "click", {})).toEqual([]);
+    expect(hasBindingFor(undefined, "click")).toBe(false);
+  });
+
+  it("hasBindingFor reports configured events", () => {
+    expect(hasBindingFor(bindings, "dblclick")).toBe(true);
+    expect(hasBindingFor([{ action: "none" }], "click")).toBe(true);
+    expect(hasBindingFor([{ action: "none" }], "hold")).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildActionContext
+// ---------------------------------------------------------------------------
+describe("buildActionContext", () => {
+  const lookup = (name: string) => ({ Kitchen: "sensor.kitchen_power" })[name];
+
+  it("prefers entity_id carried on the data item", () => {
+    const ctx = buildActionContext(
+      { name: "Kitchen", value: 42, data: { name: "Kitchen", value: 42, entity_id: "switch.k" } },
+      lookup,
+    );
+    expect(ctx.entity_id).toBe("switch.k");
+    expect(ctx.value).toBe(42);
+  });
+
+  it("falls back to looking up the data name, then the series name", () => {
+    expect(buildActionContext({ name: "Kitchen" }, lookup).entity_id).toBe("sensor.kitchen_power");
+    expect(buildActionContext({ name: "x", seriesName: "Kitchen" }, lookup).entity_id).toBe(
+      "sensor.kitchen_power",
+    );
+    expect(buildActionContext({ name: "x" }, lookup).entity_id).toBeUndefined();
+  });
+
+  it("uses the y component of [ts, value] points", () => {
+    const ctx = buildActionContext({ value: [1700000000000, 3.5], dataIndex: 4 }, lookup);
+    expect(ctx.value).toBe(3.5);
+    expect(ctx.data_index).toBe(4);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// renderActionPayload
+// ---------------------------------------------------------------------------
+describe("renderActionPayload", () => {
+  const ctx = { name: "Kitchen", value: 42, entity_id: "switch.kitchen" };
+
+  it("interpolates placeholders inside strings", () => {
+    expect(renderActionPayload("{{ name }} is {{value}} W", ctx)).toBe("Kitchen is 42 W");
+  });
+
+  it("keeps raw values for whole-string placeholders", () => {
+    expect(renderActionPayload({ brightness: "{{ value }}" }, ctx)).toEqual({ brightness: 42 });
+  });
+
+  it("walks nested payloads", () => {
+    const out = renderActionPayload(
+      { action: "call-service", target: { entity_id: ["{{ entity_id }}"] }, n: 1 },
+      ctx,
+    );
+    expect(out).toEqual({
+      action: "call-service",
+      target: { entity_id: ["switch.kitchen"] },
+      n: 1,
+    });
+  });
+
+  it("renders unknown placeholders as empty", () => {
+    expect(renderActionPayload("a{{ series_name }}b", ctx)).toBe("ab");
+  });
+});
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { performChartAction } from "../src/actions/perform";
+import type { HomeAssistant } from "../src/ha-types";
+
+function makeHass() {
+  const callService = vi.fn().mockResolvedValue(undefined);
+  return { hass: { states: {}, themes: {}, callService } as unknown as HomeAssistant, callService };
+}
+
+// node has EventTarget but no DOM: stand-ins for the card element, window and history
+function makeElement() {
+  const el = new EventTarget();
+  const events: Array<{ type: string; detail: unknown }> = [];
+  el.addEventListener("hass-more-info", (e) =>
+    events.push({ type: e.type, detail: (e as CustomEvent).detail }),
+  );
+  return { el: el as unknown as HTMLElement, events };
+}
+
+let win: EventTarget & { open: ReturnType<typeof vi.fn> };
+let hist: { pushState: ReturnType<typeof vi.fn>; replaceState: ReturnType<typeof vi.fn> };
+
+beforeEach(() => {
+  win = Object.assign(new EventTarget(), { open: vi.fn() });
+  hist = { pushState: vi.fn(), replaceState: vi.fn() };
+  vi.stubGlobal("window", win);
+  vi.stubGlobal("history", hist);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("performChartAction", () => {
+  it("more-info opens the clicked item's entity", async () => {
+    const { el, events } = makeElement();
+    await performChartAction(el, undefined, { action: "more-info" }, { entity_id: "sensor.a" });
+    expect(events).toEqual([{ type: "hass-more-info", detail: { entityId: "sensor.a" } }]);
+  });
+
+  it("toggle calls homeassistant.toggle, preferring the binding's entity", async () => {
+    const { hass, callService } = makeHass();
+    const { el } = makeElement();
+
+    await performChartAction(el, hass, { action: "toggle" }, { entity_id: "light.kitchen" });
+    await performChartAction(el, hass, { action: "toggle", entity: "light.hall" }, {});
+
+    expect(callService.mock.calls).toEqual([
+      ["homeassistant", "toggle", { entity_id: "light.kitchen" }],
+      ["homeassistant", "toggle", { entity_id: "light.hall" }],
+    ]);
+    await expect(performChartAction(el, hass, { action: "toggle" }, {})).rejects.toThrow(
+      "no entity to toggle",
+    );
+  });
+
+  it("perform-action splits domain and service and passes data and target", async () => {
+    const { hass, callService } = makeHass();
+    const { el } = makeElement();
+
+    await performChartAction(
+      el,
+      hass,
+      {
+        action: "perform-action",
+        perform_action: "light.turn_on",
+        data: { brightness_pct: 50 },
+        target: { area_id: "kitchen" },
+      },
+      {},
+    );
+
+    expect(callService).toHaveBeenCalledWith(
+      "light",
+      "turn_on",
+      { brightness_pct: 50 },
+      { area_id: "kitchen" },
+    );
+  });
+
+  it("call-service reads service and service_data, rendering item placeholders", async () => {
+    const { hass, callService } = makeHass();
+    const { el } = makeElement();
+
+    await performChartAction(
+      el,
+      hass,
+      {
+        action: "call-service",
+        service: "switch.turn_off",
+        service_data: { entity_id: "{{ entity_id }}" },
+      },
+      { entity_id: "switch.pump" },
+    );
+
+    expect(callService).toHaveBeenCalledWith(
+      "switch",
+      "turn_off",
+      { entity_id: "switch.pump" },
+      undefined,
+    );
+  });
+
+  it("rejects a service without a domain", async () => {
+    const { hass, callService } = makeHass();
+    const { el } = makeElement();
+
+    await expect(
+      performChartAction(el, hass, { action: "perform-action", perform_action: "turn_on" }, {}),
+    ).rejects.toThrow('needs a "domain.service", got "turn_on"');
+    expect(callService).not.toHaveBeenCalled();
+  });
+
+  it("navigate pushes (or replaces) the path and announces it", async () => {
+    const { el } = makeElement();
+    const changed = vi.fn();
+    win.addEventListener("location-changed", (e) => changed((e as CustomEvent).detail));
+
+    await performChartAction(el, undefined, { action: "navigate", navigation_path: "/energy" }, {});
+    await performChartAction(
+      el,
+      undefined,
+      { action: "navigate", navigation_path: "/lights", navigation_replace: true },
+      {},
+    );
+
+    expect(hist.pushState).toHaveBeenCalledWith(null, "", "/energy");
+    expect(hist.replaceState).toHaveBeenCalledWith(null, "", "/lights");
+    expect(changed.mock.calls).toEqual([[{ replace: false }], [{ replace: true }]]);
+  });
+
+  it("url opens a new tab without an opener, or the same tab with new_tab: false", async () => {
+    const { el } = makeElement();
+
+    await performChartAction(el, undefined, { action: "url", url_path: "https://example.com" }, {});
+    await performChartAction(
+      el,
+      undefined,
+      { action: "url", url_path: "/local/report.html", new_tab: false },
+      {},
+    );
+
+    expect(win.open.mock.calls).toEqual([
+      ["https://example.com", "_blank", "noopener"],
+      ["/local/report.html", "_self"],
+    ]);
+  });
+});
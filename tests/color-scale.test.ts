@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import { formatColor, parseColor, resolveColor } from "../src/color/parse";
+import { colorForValue, oklchToRgb, rgbToOklch } from "../src/color/scale";
+import { deepResolveTokensAsync } from "../src/tokens/resolve";
+import type { HomeAssistant } from "../src/ha-types";
+
+const cssVars: Record<string, string> = {
+  "--error-color": "#db4437",
+  "--amber-color": "#ffb300",
+  "--alias-color": "var(--error-color)",
+};
+const readVar = (name: string) => cssVars[name];
+
+// ---------------------------------------------------------------------------
+// parseColor / resolveColor
+// ---------------------------------------------------------------------------
+describe("parseColor", () => {
+  it.each([
+    ["#f80", { r: 255, g: 136, b: 0, a: 1 }],
+    ["#ff880080", { r: 255, g: 136, b: 0, a: 128 / 255 }],
+    ["rgb(1, 2, 3)", { r: 1, g: 2, b: 3, a: 1 }],
+    ["rgba(1 2 3 / 50%)", { r: 1, g: 2, b: 3, a: 0.5 }],
+    ["hsl(120, 100%, 50%)", { r: 0, g: 255, b: 0, a: 1 }],
+    ["transparent", { r: 0, g: 0, b: 0, a: 0 }],
+  ])("%s", (text, rgba) => {
+    expect(parseColor(text)).toEqual(rgba);
+  });
+
+  it("reads CSS variables and HA colour names from the theme", () => {
+    expect(resolveColor("var(--error-color)", readVar)).toBe("#db4437");
+    expect(resolveColor("var(--alias-color)", readVar)).toBe("#db4437");
+    expect(resolveColor("var(--missing, #123456)", readVar)).toBe("#123456");
+    // themed, then HA's default palette
+    expect(resolveColor("amber", readVar)).toBe("#ffb300");
+    expect(resolveColor("green", readVar)).toBe("#4caf50");
+    expect(resolveColor("var(--green-color)")).toBe("#4caf50");
+  });
+
+  it("passes through colours it doesn't know", () => {
+    expect(parseColor("rebeccapurple")).toBeUndefined();
+    expect(resolveColor("rebeccapurple")).toBe("rebeccapurple");
+    expect(formatColor({ r: 10, g: 20, b: 30, a: 0.25 })).toBe("rgba(10, 20, 30, 0.25)");
+  });
+
+  it("doesn't take Object.prototype keys for HA colour names", () => {
+    expect(parseColor("constructor")).toBeUndefined();
+    expect(parseColor("var(--constructor-color)")).toBeUndefined();
+    expect(resolveColor("toString")).toBe("toString");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// colorForValue
+// ---------------------------------------------------------------------------
+describe("colorForValue", () => {
+  const thresholds: Array<[number, string]> = [
+    [20, "red"],
+    [50, "amber"],
+    [100, "green"],
+  ];
+
+  it("picks the first threshold at or above the value", () => {
+    const at = (v: unknown) => colorForValue(v, { thresholds });
+    expect([at(5), at(20), at(21), at(80), at(120), at("35")]).toEqual([
+      "#f44336",
+      "#f44336",
+      "#ffc107",
+      "#4caf50",
+      "#4caf50",
+      "#ffc107",
+    ]);
+    expect(at("unavailable")).toBeUndefined();
+    expect(colorForValue("unavailable", { thresholds }, undefined, "grey")).toBe("#9e9e9e");
+  });
+
+  it("interpolates gradients in RGB and OKLCH, clamped at the ends", () => {
+    const gradient: Array<[number, string]> = [
+      [0, "#000000"],
+      [100, "#ffffff"],
+    ];
+    expect(colorForValue(50, { gradient, space: "rgb" })).toBe("#808080");
+    // OKLCH midpoint is perceptually mid-grey, lighter than the sRGB average
+    expect(colorForValue(50, { gradient })).toBe("#636363");
+    expect(colorForValue(-10, { gradient })).toBe("#000000");
+    expect(colorForValue(500, { gradient })).toBe("#ffffff");
+  });
+
+  it("keeps OKLCH blends on the short way round the hue circle", () => {
+    const mid = colorForValue(0.5, {
+      gradient: [
+        [0, "#ff0000"],
+        [1, "#ff00ff"],
+      ],
+    })!;
+    const { h } = rgbToOklch(parseColor(mid)!);
+    // red ≈ 29°, magenta ≈ 328°: the blend wraps through 0°, not through green/blue
+    expect(h > 328 || h < 29).toBe(true);
+  });
+
+  it("round-trips sRGB through OKLCH", () => {
+    const rgba = { r: 12, g: 200, b: 99, a: 1 };
+    expect(formatColor(oklchToRgb(rgbToOklch(rgba)))).toBe(formatColor(rgba));
+  });
+
+  it("without a scale, treats a string value as the colour", () => {
+    expect(colorForValue("var(--error-color)", {}, readVar)).toBe("#db4437");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// deepResolveTokensAsync — $color and $data.color
+// ---------------------------------------------------------------------------
+describe("deepResolveTokensAsync — $color", () => {
+  const hass = {
+    states: {
+      "sensor.phone_battery": {
+        entity_id: "sensor.phone_battery",
+        state: "15",
+        attributes: { friendly_name: "Phone" },
+        last_changed: "",
+        last_updated: "",
+      },
+      "sensor.tablet_battery": {
+        entity_id: "sensor.tablet_battery",
+        state: "64",
+        attributes: { friendly_name: "Tablet" },
+        last_changed: "",
+        last_updated: "",
+      },
+    },
+    themes: {},
+  } as HomeAssistant;
+  const noopHistory = async () => [];
+
+  it("colours from an $entity value and watches it", async () => {
+    const watched = new Set<string>();
+    const result = await deepResolveTokensAsync(
+      {
+        itemStyle: {
+          color: {
+            $color: { $entity: "sensor.phone_battery" },
+            thresholds: [
+              [20, "var(--error-color)"],
+              [100, "green"],
+            ],
+          },
+        },
+      },
+      { hass, watched, fetchHistory: noopHistory, readCssVar: readVar },
+    );
+
+    expect(result).toEqual({ itemStyle: { color: "#db4437" } });
+    expect([...watched]).toEqual(["sensor.phone_battery"]);
+  });
+
+  it("adds itemStyle.color to $data pairs", async () => {
+    const result = await deepResolveTokensAsync(
+      {
+        $data: {
+          entities: ["sensor.phone_battery", "sensor.tablet_battery"],
+          color: {
+            thresholds: [
+              [20, "red"],
+              [100, "green"],
+            ],
+          },
+        },
+      },
+      { hass, watched: new Set(), fetchHistory: noopHistory },
+    );
+
+    expect(result).toEqual([
+      {
+        name: "Phone",
+        value: 15,
+        entity_id: "sensor.phone_battery",
+        itemStyle: { color: "#f44336" },
+      },
+      {
+        name: "Tablet",
+        value: 64,
+        entity_id: "sensor.tablet_battery",
+        itemStyle: { color: "#4caf50" },
+      },
+    ]);
+  });
+});
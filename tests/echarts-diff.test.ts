@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { deepEqual, planOptionUpdate } from "../src/echarts/diff";
+
+function option(data: number[][], extra?: Record<string, unknown>): Record<string, unknown> {
+  return {
+    backgroundColor: "transparent",
+    legend: {},
+    xAxis: { type: "time" },
+    yAxis: { type: "value" },
+    series: data.map((d, i) => ({ name: `S${i}`, type: "line", data: d })),
+    ...extra,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// deepEqual
+// ---------------------------------------------------------------------------
+describe("deepEqual", () => {
+  it("compares nested structures", () => {
+    expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+    expect(deepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(deepEqual([1], { 0: 1 })).toBe(false);
+    expect(deepEqual(NaN, NaN)).toBe(true);
+  });
+
+  it("compares functions by identity", () => {
+    const f = () => 1;
+    expect(deepEqual({ f }, { f })).toBe(true);
+    expect(deepEqual({ f }, { f: () => 1 })).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// planOptionUpdate
+// ---------------------------------------------------------------------------
+describe("planOptionUpdate", () => {
+  it("needs a full update without a previous option", () => {
+    expect(planOptionUpdate(undefined, option([[1]]))).toEqual({ kind: "full" });
+  });
+
+  it("does nothing when the option is unchanged", () => {
+    expect(planOptionUpdate(option([[1], [2]]), option([[1], [2]]))).toEqual({ kind: "none" });
+  });
+
+  it("patches only the series whose data changed", () => {
+    const plan = planOptionUpdate(option([[1], [2]]), option([[1], [2, 3]]));
+    expect(plan).toEqual({ kind: "merge", patch: { series: [{}, { data: [2, 3] }] } });
+  });
+
+  it("patches value changes outside series data", () => {
+    const prev = option([[1]], { yAxis: { type: "value", max: 10 } });
+    const next = option([[1]], { yAxis: { type: "value", max: 20 } });
+    expect(planOptionUpdate(prev, next)).toEqual({ kind: "merge", patch: { yAxis: { max: 20 } } });
+  });
+
+  it("falls back to full when the series count changes", () => {
+    expect(planOptionUpdate(option([[1]]), option([[1], [2]]))).toEqual({ kind: "full" });
+  });
+
+  it("falls back to full when a series type or name changes", () => {
+    const prev = option([[1]]);
+    const typed = option([[1]]);
+    (typed.series as Array<Record<string, unknown>>)[0].type = "bar";
+    expect(planOptionUpdate(prev, typed)).toEqual({ kind: "full" });
+
+    const renamed = option([[1]]);
+    (renamed.series as Array<Record<string, unknown>>)[0].name = "Other";
+    expect(planOptionUpdate(prev, renamed)).toEqual({ kind: "full" });
+  });
+
+  it("falls back to full when an axis type changes", () => {
+    const next = option([[1]], { xAxis: { type: "category" } });
+    expect(planOptionUpdate(option([[1]]), next)).toEqual({ kind: "full" });
+  });
+
+  it("falls back to full when keys are removed or added at the top level", () => {
+    const prev = option([[1]], { tooltip: {} });
+    expect(planOptionUpdate(prev, option([[1]]))).toEqual({ kind: "full" });
+    expect(planOptionUpdate(option([[1]]), prev)).toEqual({ kind: "full" });
+  });
+
+  it("falls back to full when a nested key is removed", () => {
+    const prev = option([[1]], { title: { text: "a", subtext: "b" } });
+    const next = option([[1]], { title: { text: "a" } });
+    expect(planOptionUpdate(prev, next)).toEqual({ kind: "full" });
+  });
+
+  it("adds new nested keys through the patch", () => {
+    const prev = option([[1]], { title: { text: "a" } });
+    const next = option([[1]], { title: { text: "a", subtext: "b" } });
+    expect(planOptionUpdate(prev, next)).toEqual({
+      kind: "merge",
+      patch: { title: { subtext: "b" } },
+    });
+  });
+
+  it("treats switching a component between object and list form as structural", () => {
+    const prev = option([[1]]);
+    const next = option([[1]], { xAxis: [{ type: "time" }] });
+    expect(planOptionUpdate(prev, next)).toEqual({ kind: "full" });
+  });
+});
@@ -0,0 +1,138 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  buildEchartsTheme,
+  chooseTheme,
+  haThemeKey,
+  hashString,
+  readHaThemeVars,
+  themeNameFor,
+  type HaThemeVars,
+} from "../src/echarts/theme";
+
+const vars: HaThemeVars = {
+  primaryText: "#111",
+  secondaryText: "#666",
+  divider: "#ddd",
+  cardBackground: "#fff",
+  primary: "#123456",
+  accent: "#abcdef",
+};
+
+function stubComputedStyle(props: Record<string, string>) {
+  vi.stubGlobal("getComputedStyle", () => ({
+    getPropertyValue: (name: string) => props[name] ?? "",
+  }));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// ---------------------------------------------------------------------------
+// readHaThemeVars
+// ---------------------------------------------------------------------------
+describe("readHaThemeVars", () => {
+  it("reads and trims CSS variables", () => {
+    stubComputedStyle({ "--primary-text-color": "  #010203 ", "--primary-color": "red" });
+    const out = readHaThemeVars({} as Element, false);
+    expect(out.primaryText).toBe("#010203");
+    expect(out.primary).toBe("red");
+  });
+
+  it("falls back to HA defaults for the current mode", () => {
+    stubComputedStyle({});
+    expect(readHaThemeVars({} as Element, false).primaryText).toBe("#212121");
+    expect(readHaThemeVars({} as Element, true).primaryText).toBe("#e1e1e1");
+  });
+
+  it("prefers --ha-card-background over --card-background-color", () => {
+    stubComputedStyle({ "--ha-card-background": "#222", "--card-background-color": "#333" });
+    expect(readHaThemeVars({} as Element, true).cardBackground).toBe("#222");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildEchartsTheme
+// ---------------------------------------------------------------------------
+describe("buildEchartsTheme", () => {
+  it("maps HA variables onto ECharts theme keys", () => {
+    const theme = buildEchartsTheme(vars) as Record<string, Record<string, unknown>>;
+    expect(theme.textStyle).toEqual({ color: "#111" });
+    expect(theme.tooltip).toMatchObject({
+      backgroundColor: "#fff",
+      borderColor: "#ddd",
+      textStyle: { color: "#111" },
+    });
+    expect(theme.valueAxis).toMatchObject({
+      axisLabel: { color: "#666" },
+      splitLine: { lineStyle: { color: ["#ddd"] } },
+    });
+  });
+
+  it("starts the palette with primary and accent colours", () => {
+    const theme = buildEchartsTheme(vars);
+    const color = theme.color as string[];
+    expect(color.slice(0, 2)).toEqual(["#123456", "#abcdef"]);
+    expect(new Set(color).size).toBe(color.length);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// naming helpers
+// ---------------------------------------------------------------------------
+describe("theme naming", () => {
+  it("hashString is stable and discriminating", () => {
+    expect(hashString("abc")).toBe(hashString("abc"));
+    expect(hashString("abc")).not.toBe(hashString("abd"));
+  });
+
+  it("themeNameFor depends on content only", () => {
+    const a = themeNameFor("ha", buildEchartsTheme(vars));
+    const b = themeNameFor("ha", buildEchartsTheme({ ...vars }));
+    const c = themeNameFor("ha", buildEchartsTheme({ ...vars, primary: "#000" }));
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+    expect(a.startsWith("ha-")).toBe(true);
+  });
+
+  it("haThemeKey changes with theme name and dark mode", () => {
+    expect(haThemeKey({ theme: "x", darkMode: false })).not.toBe(
+      haThemeKey({ theme: "x", darkMode: true }),
+    );
+    expect(haThemeKey(undefined)).toBe("|light");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// chooseTheme
+// ---------------------------------------------------------------------------
+describe("chooseTheme", () => {
+  it("derives from the HA theme only when asked", () => {
+    expect(chooseTheme("ha", true)).toEqual({ kind: "ha" });
+    expect(chooseTheme("ha", false)).toEqual({ kind: "ha" });
+  });
+
+  it("auto (the default) follows HA dark mode with the built-in themes", () => {
+    expect(chooseTheme("auto", true)).toEqual({ kind: "name", name: "dark" });
+    expect(chooseTheme("auto", false)).toEqual({ kind: "name", name: undefined });
+    expect(chooseTheme(undefined, true)).toEqual({ kind: "name", name: "dark" });
+    expect(chooseTheme(undefined, false)).toEqual({ kind: "name", name: undefined });
+  });
+
+  it("light and dark ignore HA dark mode", () => {
+    expect(chooseTheme("dark", false)).toEqual({ kind: "name", name: "dark" });
+    expect(chooseTheme("light", true)).toEqual({ kind: "name", name: undefined });
+  });
+
+  it("passes other strings through as registered names", () => {
+    expect(chooseTheme("company", false)).toEqual({ kind: "name", name: "company" });
+  });
+
+  it("registers inline themes under a stable content hash", () => {
+    const a = chooseTheme({ color: ["#f00"] }, false);
+    const b = chooseTheme({ color: ["#f00"] }, true);
+    expect(a.kind).toBe("inline");
+    expect(a).toEqual(b);
+    expect(a.kind === "inline" && a.name.startsWith("inline-")).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyFormValues,
+  formValuesFromConfig,
+  servicePreviewPlaceholder,
+  validateOptionValue,
+} from "../src/editor/config";
+import type { EchartsRawCardConfig } from "../src/types";
+
+function makeConfig(extra?: Partial<EchartsRawCardConfig>): EchartsRawCardConfig {
+  return { type: "custom:echarts-raw-card", option: { series: [] }, ...extra };
+}
+
+// ---------------------------------------------------------------------------
+// formValuesFromConfig
+// ---------------------------------------------------------------------------
+describe("formValuesFromConfig", () => {
+  it("fills defaults for missing fields", () => {
+    expect(formValuesFromConfig(makeConfig())).toEqual({
+      title: "",
+      height: "",
+      renderer: "canvas",
+      debug: false,
+    });
+  });
+
+  it("reports object-form debug as enabled", () => {
+    const cfg = makeConfig({ debug: { show_resolved_option: true } });
+    expect(formValuesFromConfig(cfg).debug).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// applyFormValues
+// ---------------------------------------------------------------------------
+describe("applyFormValues", () => {
+  it("sets title, height and renderer", () => {
+    const next = applyFormValues(makeConfig(), {
+      title: "Power",
+      height: "240px",
+      renderer: "svg",
+      debug: false,
+    });
+    expect(next.title).toBe("Power");
+    expect(next.height).toBe("240px");
+    expect(next.renderer).toBe("svg");
+    expect("debug" in next).toBe(false);
+  });
+
+  it("drops empty strings and the default renderer", () => {
+    const next = applyFormValues(makeConfig({ title: "Old", height: "100px", renderer: "svg" }), {
+      title: "  ",
+      height: "",
+      renderer: "canvas",
+    });
+    expect("title" in next).toBe(false);
+    expect("height" in next).toBe(false);
+    expect("renderer" in next).toBe(false);
+  });
+
+  it("keeps object-form debug while the toggle stays on", () => {
+    const debug = { log_resolved_option: true };
+    const next = applyFormValues(makeConfig({ debug }), { debug: true });
+    expect(next.debug).toBe(debug);
+  });
+
+  it("removes debug when toggled off", () => {
+    const next = applyFormValues(makeConfig({ debug: true }), { debug: false });
+    expect("debug" in next).toBe(false);
+  });
+
+  it("never touches option", () => {
+    const cfg = makeConfig();
+    expect(applyFormValues(cfg, { title: "x" }).option).toBe(cfg.option);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateOptionValue
+// ---------------------------------------------------------------------------
+describe("validateOptionValue", () => {
+  it("accepts a mapping", () => {
+    expect(validateOptionValue({ series: [] })).toBeUndefined();
+  });
+
+  it("rejects missing, scalar and list values", () => {
+    expect(validateOptionValue(undefined)).toMatch(/required/);
+    expect(validateOptionValue("line")).toMatch(/mapping/);
+    expect(validateOptionValue([1, 2])).toMatch(/mapping/);
+  });
+});
+
+describe("servicePreviewPlaceholder", () => {
+  it("names the service it didn't call", () => {
+    expect(servicePreviewPlaceholder({ $service: "script.turn_on_heating" })).toMatch(
+      /^<script\.turn_on_heating: not called in the preview/,
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import { evaluateExpr } from "../src/expr/evaluate";
+import { exprVariables, parseExpr } from "../src/expr/parse";
+import { deepResolveTokensAsync } from "../src/tokens/resolve";
+import type { HassEntity, HomeAssistant } from "../src/ha-types";
+
+function entity(entity_id: string, state: string): HassEntity {
+  return { entity_id, state, attributes: {}, last_changed: "", last_updated: "" };
+}
+
+const noopHistory = async () => [];
+
+// ---------------------------------------------------------------------------
+// parseExpr
+// ---------------------------------------------------------------------------
+describe("parseExpr", () => {
+  it("respects precedence and associativity", () => {
+    expect(evaluateExpr("1 + 2 * 3", {})).toBe(7);
+    expect(evaluateExpr("(1 + 2) * 3", {})).toBe(9);
+    expect(evaluateExpr("10 - 4 - 3", {})).toBe(3);
+    expect(evaluateExpr("-2 * -3", {})).toBe(6);
+    expect(evaluateExpr("1 < 2 && 3 > 4 || true", {})).toBe(true);
+  });
+
+  it("lists the variables an expression reads", () => {
+    expect(exprVariables(parseExpr("a > 0 ? max(a, b) : c + a"))).toEqual(["a", "b", "c"]);
+  });
+
+  it("reports syntax errors with a position", () => {
+    expect(() => parseExpr("1 +")).toThrow("unexpected end of expression at position 4");
+    expect(() => parseExpr("a b")).toThrow('unexpected "b" at position 3');
+    expect(() => parseExpr("(1")).toThrow('expected ")"');
+    expect(() => parseExpr("'abc")).toThrow("unterminated string");
+  });
+
+  it("rejects unknown functions and wrong arity", () => {
+    expect(() => parseExpr("eval('1')")).toThrow('unknown function "eval"');
+    expect(() => parseExpr("pow(2)")).toThrow("wrong number of arguments to pow()");
+    expect(() => parseExpr("constructor(1)")).toThrow('unknown function "constructor"');
+    expect(() => parseExpr("toString()")).toThrow('unknown function "toString"');
+  });
+
+  it("tags errors with a code", () => {
+    expect.assertions(1);
+    try {
+      parseExpr("1 +");
+    } catch (err) {
+      expect((err as { code?: string }).code).toBe("ECHARTS_RAW_CARD_INVALID_EXPR");
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// evaluateExpr
+// ---------------------------------------------------------------------------
+describe("evaluateExpr", () => {
+  it("does arithmetic on numeric strings", () => {
+    expect(evaluateExpr("grid - solar", { grid: "1200", solar: 450 })).toBe(750);
+  });
+
+  it("supports the built-in functions", () => {
+    expect(evaluateExpr("min(a, b, 3)", { a: 5, b: 4 })).toBe(3);
+    expect(evaluateExpr("max(a, 0)", { a: -2 })).toBe(0);
+    expect(evaluateExpr("abs(a)", { a: -2 })).toBe(2);
+    expect(evaluateExpr("round(a, 1)", { a: 3.456 })).toBe(3.5);
+    expect(evaluateExpr("pow(2, 10)", {})).toBe(1024);
+  });
+
+  it("concatenates when either side of + is text", () => {
+    expect(evaluateExpr("'COP ' + round(heat / power, 2)", { heat: 7, power: 2 })).toBe("COP 3.5");
+    expect(evaluateExpr("a + b", { a: "1", b: "2" })).toBe(3);
+  });
+
+  it("compares strings and numbers", () => {
+    expect(evaluateExpr("mode == 'heat' ? 1 : 0", { mode: "heat" })).toBe(1);
+    expect(evaluateExpr("a == 2", { a: "2" })).toBe(true);
+    expect(evaluateExpr("a < b", { a: "apple", b: "banana" })).toBe(true);
+    expect(evaluateExpr("a < b", { a: "9", b: "10" })).toBe(true);
+  });
+
+  it("short-circuits logical operators", () => {
+    expect(evaluateExpr("false && missing", {})).toBe(false);
+    expect(evaluateExpr("!a", { a: 0 })).toBe(true);
+  });
+
+  it("turns non-finite results into undefined", () => {
+    expect(evaluateExpr("a / b", { a: 1, b: 0 })).toBeUndefined();
+    expect(evaluateExpr("a * 2", { a: "unavailable" })).toBeUndefined();
+  });
+
+  it("throws on unbound variables", () => {
+    expect(() => evaluateExpr("a + c", { a: 1 })).toThrow('unknown variable "c"');
+  });
+
+  it("reads Object.prototype names as variables", () => {
+    expect(parseExpr("toString")).toEqual({ kind: "var", name: "toString" });
+    expect(evaluateExpr("toString * 2", { toString: 21 })).toBe(42);
+    expect(evaluateExpr("hasOwnProperty + 1", { hasOwnProperty: 1 })).toBe(2);
+    expect(() => evaluateExpr("hasOwnProperty", {})).toThrow('unknown variable "hasOwnProperty"');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// deepResolveTokensAsync — $expr
+// ---------------------------------------------------------------------------
+describe("deepResolveTokensAsync — $expr", () => {
+  const hass: HomeAssistant = {
+    states: {
+      "sensor.grid_import": entity("sensor.grid_import", "1500"),
+      "sensor.solar_export": entity("sensor.solar_export", "400"),
+      "sensor.battery": entity("sensor.battery", "unavailable"),
+    },
+    themes: {},
+  };
+
+  it("resolves vars as tokens, watches their entities and applies value options", async () => {
+    const watched = new Set<string>();
+    const result = await deepResolveTokensAsync(
+      {
+        value: {
+          $expr: "grid - solar",
+          vars: {
+            grid: { $entity: "sensor.grid_import" },
+            solar: { $entity: "sensor.solar_export" },
+          },
+          $scale: 0.001,
+          $round: 2,
+        },
+      },
+      { hass, watched, fetchHistory: noopHistory },
+    );
+
+    expect(result).toEqual({ value: 1.1 });
+    expect([...watched].sort()).toEqual(["sensor.grid_import", "sensor.solar_export"]);
+  });
+
+  it("falls back to $default when an input is unavailable", async () => {
+    const result = await deepResolveTokensAsync(
+      { $expr: "pct * 100", vars: { pct: { $entity: "sensor.battery" } }, $default: 0 },
+      { hass, watched: new Set(), fetchHistory: noopHistory },
+    );
+    expect(result).toBe(0);
+  });
+});
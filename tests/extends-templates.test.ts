@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mergeDeep } from "../src/extends/merge";
+import {
+  applyExtends,
+  isLocalTemplatePath,
+  loadTemplateFile,
+  missingTemplate,
+  onTemplateRegistered,
+  pendingTemplateFile,
+  registerTemplate,
+  resolveExtends,
+} from "../src/extends/templates";
+
+// ---------------------------------------------------------------------------
+// mergeDeep
+// ---------------------------------------------------------------------------
+describe("mergeDeep", () => {
+  const parent = {
+    grid: { left: 40, top: 24 },
+    color: ["#111", "#222"],
+    series: [
+      { name: "Import", type: "bar", stack: "total" },
+      { name: "Export", type: "bar", stack: "total" },
+    ],
+    yAxis: [{ type: "value" }, { type: "value", position: "right" }],
+  };
+
+  it("replaces lists by default", () => {
+    expect(mergeDeep(parent, { grid: { top: 8 }, series: [{ name: "Solar" }] })).toEqual({
+      ...parent,
+      grid: { left: 40, top: 8 },
+      series: [{ name: "Solar" }],
+    });
+  });
+
+  it("merges by name (unnamed items by index) and appends the rest", () => {
+    const out = mergeDeep(
+      parent,
+      {
+        color: ["#333"],
+        series: [
+          { name: "Export", stack: "out" },
+          { name: "Solar", type: "line" },
+        ],
+        yAxis: [{ min: 0 }],
+      },
+      "by_name",
+    ) as typeof parent;
+
+    expect(out.series).toEqual([
+      { name: "Import", type: "bar", stack: "total" },
+      { name: "Export", type: "bar", stack: "out" },
+      { name: "Solar", type: "line" },
+    ]);
+    expect(out.yAxis).toEqual([{ type: "value", min: 0 }, parent.yAxis[1]]);
+    // lists of scalars are replaced
+    expect(out.color).toEqual(["#333"]);
+  });
+
+  it("never copies __proto__ / constructor keys", () => {
+    const child = JSON.parse(
+      '{ "__proto__": { "polluted": 1 }, "grid": { "__proto__": { "polluted": 2 }, "top": 8 } }',
+    );
+    const out = mergeDeep(parent, child) as Record<string, Record<string, unknown>>;
+    expect(Object.getPrototypeOf(out)).toBe(Object.prototype);
+    expect(Object.getPrototypeOf(out.grid)).toBe(Object.prototype);
+    expect(out.polluted).toBeUndefined();
+    expect(out.grid).toEqual({ left: 40, top: 8 });
+
+    const layered = applyExtends<Record<string, unknown>>({
+      extends: "t_base",
+      ...JSON.parse('{ "__proto__": { "polluted": 3 }, "constructor": "x" }'),
+    });
+    expect(Object.getPrototypeOf(layered)).toBe(Object.prototype);
+    expect(Object.hasOwn(layered, "constructor")).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Registered templates
+// ---------------------------------------------------------------------------
+describe("applyExtends", () => {
+  registerTemplate("t_base", {
+    height: "240px",
+    option: { grid: { left: 40 }, tooltip: { trigger: "axis" }, series: [{ name: "A" }] },
+    vars: { accent: "#f00" },
+  });
+  registerTemplate("t_bar", {
+    extends: "t_base",
+    array_merge: "by_name",
+    option: { series: [{ name: "A", type: "bar" }] },
+  });
+  registerTemplate("t_loop_a", { extends: "t_loop_b" });
+  registerTemplate("t_loop_b", { extends: "t_loop_a" });
+
+  it("merges the chain under the card; the card's own keys win", () => {
+    const out = applyExtends({
+      type: "custom:echarts-raw-card",
+      extends: "t_bar",
+      height: "300px",
+      option: { grid: { top: 8 } },
+      vars: { unit: "kWh" },
+    });
+
+    expect(out).toEqual({
+      type: "custom:echarts-raw-card",
+      extends: "t_bar",
+      height: "300px",
+      option: {
+        grid: { left: 40, top: 8 },
+        tooltip: { trigger: "axis" },
+        series: [{ name: "A", type: "bar" }],
+      },
+      vars: { accent: "#f00", unit: "kWh" },
+    });
+  });
+
+  it("reports unknown templates and cycles", () => {
+    expect(() => applyExtends({ extends: "t_nope" })).toThrowError(/unknown template "t_nope"/);
+    expect(() => applyExtends({ extends: "t_loop_a" })).toThrowError(
+      "template cycle t_loop_a → t_loop_b → t_loop_a",
+    );
+  });
+
+  it("tells listeners about templates registered later", () => {
+    const config: Record<string, unknown> = { extends: "t_late_child" };
+    registerTemplate("t_late_child", { extends: "t_late", option: { legend: {} } });
+    expect(missingTemplate(config)).toBe("t_late");
+    expect(pendingTemplateFile(config)).toBeUndefined();
+
+    const listener = vi.fn();
+    const unsubscribe = onTemplateRegistered(listener);
+    registerTemplate("t_late", { option: { grid: { left: 8 } } });
+    unsubscribe();
+    registerTemplate("t_after", {});
+
+    expect(listener.mock.calls).toEqual([["t_late"]]);
+    expect(missingTemplate(config)).toBeUndefined();
+    expect(applyExtends(config).option).toEqual({ grid: { left: 8 }, legend: {} });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Template files
+// ---------------------------------------------------------------------------
+describe("resolveExtends — files", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("loads a YAML file once and chains into registered templates", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      text: async () => "extends: t_base\noption:\n  legend: { show: false }\n",
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const config = { extends: "/local/echarts/energy.yaml", option: {} };
+    expect(pendingTemplateFile(config)).toBe("/local/echarts/energy.yaml");
+
+    const out = await resolveExtends(config);
+    await resolveExtends(config);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(pendingTemplateFile(config)).toBeUndefined();
+    expect(out.option).toEqual({
+      grid: { left: 40 },
+      tooltip: { trigger: "axis" },
+      series: [{ name: "A" }],
+      legend: { show: false },
+    });
+  });
+
+  it("reports HTTP and parse failures and retries later", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: false, status: 404, text: async () => "" })
+      .mockResolvedValueOnce({ ok: true, status: 200, text: async () => "{ nope" });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const config = { extends: "/local/missing.json" };
+    await expect(resolveExtends(config)).rejects.toThrowError("HTTP 404");
+    await expect(resolveExtends(config)).rejects.toThrowError(/could not parse/);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("loadTemplateFile", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  const ok = (text: string) => ({ ok: true, status: 200, text: async () => text });
+
+  it("fetches a /local/ file and registers it under its path", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(ok('{ "option": { "grid": { "top": 4 } } }'));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await loadTemplateFile("/local/echarts/load_ok.json");
+
+    expect(fetchMock).toHaveBeenCalledWith("/local/echarts/load_ok.json", { cache: "no-cache" });
+    expect(
+      applyExtends<Record<string, unknown>>({ extends: "/local/echarts/load_ok.json" }).option,
+    ).toEqual({
+      grid: { top: 4 },
+    });
+  });
+
+  it("rejects on HTTP errors", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({ ok: false, status: 404, text: async () => "" }),
+    );
+    await expect(loadTemplateFile("/local/echarts/load_404.yaml")).rejects.toMatchObject({
+      code: "ECHARTS_RAW_CARD_TEMPLATE_LOAD",
+      message: expect.stringContaining("HTTP 404"),
+    });
+  });
+
+  it("refuses paths outside /local/ without fetching them", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(ok("option: {}"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    for (const path of ["//evil.example/x.yaml", "/api/states", "/local/../api/x.yaml"]) {
+      expect(isLocalTemplatePath(path), path).toBe(false);
+      await expect(loadTemplateFile(path)).rejects.toThrowError(/is not a \/local\/ file/);
+    }
+    expect(isLocalTemplatePath("/local/echarts/energy_bar.yaml")).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
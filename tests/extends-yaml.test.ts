@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { parseYaml } from "../src/extends/yaml";
+
+describe("parseYaml", () => {
+  it("reads nested mappings, sequences and scalars", () => {
+    const src = `
+# energy bar template
+option:
+  grid: { left: 40, right: 16, top: 24, bottom: 32 }
+  tooltip:
+    trigger: axis   # axis tooltips
+    confine: true
+  legend:
+    show: false
+  color: ["#03a9f4", '#ff9800', "it's"]
+  series:
+    - type: bar
+      name: Import
+      stack: total
+    - type: line
+      smooth: 0.4
+      data:
+        - [1, 2]
+        - [3, ~]
+  yAxis:
+  - type: value
+    name: kWh
+height: 240px
+empty:
+`;
+    expect(parseYaml(src)).toEqual({
+      option: {
+        grid: { left: 40, right: 16, top: 24, bottom: 32 },
+        tooltip: { trigger: "axis", confine: true },
+        legend: { show: false },
+        color: ["#03a9f4", "#ff9800", "it's"],
+        series: [
+          { type: "bar", name: "Import", stack: "total" },
+          {
+            type: "line",
+            smooth: 0.4,
+            data: [
+              [1, 2],
+              [3, null],
+            ],
+          },
+        ],
+        yAxis: [{ type: "value", name: "kWh" }],
+      },
+      height: "240px",
+      empty: null,
+    });
+  });
+
+  it("keeps quoted text, colons in values and hashes without a leading space", () => {
+    expect(
+      parseYaml(`
+"quoted: key": "a \\"b\\" # not a comment"
+url: http://example.com/a#b
+single: 'don''t'
+number_text: "42"
+`),
+    ).toEqual({
+      "quoted: key": 'a "b" # not a comment',
+      url: "http://example.com/a#b",
+      single: "don't",
+      number_text: "42",
+    });
+  });
+
+  it("reads block scalars and multi-line flow collections", () => {
+    expect(
+      parseYaml(`
+literal: |
+  line 1
+    indented
+folded: >-
+  one
+  two
+
+  three
+flow: {
+  a: 1,
+  b: [x, y],
+}
+`),
+    ).toEqual({
+      literal: "line 1\n  indented\n",
+      folded: "one two\nthree",
+      flow: { a: 1, b: ["x", "y"] },
+    });
+  });
+
+  it("reads nested sequences and sequences of mappings", () => {
+    expect(parseYaml("- - a\n  - b\n- key: 1\n  other: 2\n- plain")).toEqual([
+      ["a", "b"],
+      { key: 1, other: 2 },
+      "plain",
+    ]);
+  });
+
+  it("supports anchors and aliases, and keeps timestamps as strings", () => {
+    expect(
+      parseYaml(`
+base: &base { type: bar, stack: total }
+series:
+  - *base
+day: 2026-03-01
+`),
+    ).toEqual({
+      base: { type: "bar", stack: "total" },
+      series: [{ type: "bar", stack: "total" }],
+      day: "2026-03-01",
+    });
+  });
+
+  it.each([
+    ["unknown tags", "a: !secret x"],
+    ["tabs", "a:\n\tb: 1"],
+    ["multiple documents", "a: 1\n---\nb: 2"],
+    ["bad indentation", "a: 1\n   b: 2"],
+  ])("rejects %s", (_label, src) => {
+    expect(() => parseYaml(src)).toThrowError(/\[echarts-raw-card\] YAML: /);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { BUILTIN_FORMATTERS, formatDatePattern } from "../src/format/builtins";
+
+const f = BUILTIN_FORMATTERS;
+const en = { locale: "en-US" };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// numbers
+// ---------------------------------------------------------------------------
+describe("number / unit / percent", () => {
+  it("formats with locale separators, decimals and affixes", () => {
+    expect(f.number(1234.5678, en)).toBe("1,234.57");
+    expect(f.number("1234.5", { locale: "de-DE", decimals: 2 })).toBe("1.234,50");
+    expect(f.unit(21.46, { ...en, decimals: 1, unit: "°C" })).toBe("21.5 °C");
+    expect(f.number(5, { ...en, prefix: "£" })).toBe("£5");
+  });
+
+  it("passes non-numeric values through", () => {
+    expect(f.number("unavailable", en)).toBe("unavailable");
+    expect(f.number(null, en)).toBe("");
+  });
+
+  it("formats percentages of 0–100 or ratios", () => {
+    expect(f.percent(42, en)).toBe("42%");
+    expect(f.percent(0.425, { ...en, ratio: true, decimals: 1 })).toBe("42.5%");
+  });
+});
+
+describe("bytes", () => {
+  it("scales by 1000 or 1024", () => {
+    expect(f.bytes(512, en)).toBe("512 B");
+    expect(f.bytes(1_500_000, en)).toBe("1.5 MB");
+    expect(f.bytes(2048, { ...en, binary: true })).toBe("2.0 KiB");
+  });
+});
+
+describe("energy / power", () => {
+  it("autoscales from the input unit", () => {
+    expect(f.energy(1530, { ...en, unit: "kWh" })).toBe("1.53 MWh");
+    expect(f.energy(0.25, { ...en, unit: "kWh" })).toBe("250.00 Wh");
+    expect(f.power(850, en)).toBe("850.00 W");
+    expect(f.power(2450, { ...en, decimals: 1 })).toBe("2.5 kW");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// time
+// ---------------------------------------------------------------------------
+describe("duration", () => {
+  it("renders the largest parts of a duration", () => {
+    expect(f.duration(3725, en)).toBe("1h 2m");
+    expect(f.duration(3725, { ...en, max_parts: 3 })).toBe("1h 2m 5s");
+    expect(f.duration(90, { ...en, unit: "min" })).toBe("1h 30m");
+    expect(f.duration(0, en)).toBe("0s");
+    expect(f.duration(-45, en)).toBe("-45s");
+  });
+});
+
+describe("relative", () => {
+  it("describes a timestamp relative to now", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.parse("2026-03-01T12:00:00Z"));
+    expect(f.relative(Date.parse("2026-03-01T11:55:00Z"), en)).toBe("5 minutes ago");
+    expect(f.relative("2026-03-01T14:00:00Z", en)).toBe("in 2 hours");
+    expect(f.relative(Date.parse("2026-02-28T12:00:00Z") / 1000, en)).toBe("yesterday");
+  });
+});
+
+describe("date", () => {
+  const ms = Date.parse("2026-03-07T09:05:03Z");
+
+  it("renders patterns in a time zone", () => {
+    expect(formatDatePattern(ms, "YYYY-MM-DD HH:mm:ss", "en-US", "UTC")).toBe(
+      "2026-03-07 09:05:03",
+    );
+    expect(formatDatePattern(ms, "ddd D MMM, h:mm A", "en-US", "UTC")).toBe("Sat 7 Mar, 9:05 AM");
+    expect(formatDatePattern(ms, "HH:mm [UTC]", "en-US", "UTC")).toBe("09:05 UTC");
+    expect(formatDatePattern(ms, "HH:mm", "en-US", "Europe/Berlin")).toBe("10:05");
+  });
+
+  it("uses the locale's medium style without a pattern", () => {
+    expect(f.date(ms, { ...en, time_zone: "UTC" })).toBe("Mar 7, 2026, 9:05 AM");
+    expect(f.date("not a date", en)).toBe("not a date");
+  });
+
+  it("falls back to the browser's zone for an unknown time_zone", () => {
+    expect(f.date(ms, { ...en, time_zone: "Mars/Olympus" })).toBe(
+      f.date(ms, { ...en, time_zone: undefined }),
+    );
+  });
+});
+
+describe("Intl formatter reuse", () => {
+  it("builds one Intl.NumberFormat per locale and options", () => {
+    const Real = Intl.NumberFormat;
+    let built = 0;
+    vi.spyOn(Intl, "NumberFormat").mockImplementation(function (
+      ...args: ConstructorParameters<typeof Intl.NumberFormat>
+    ) {
+      built++;
+      return new Real(...args);
+    } as unknown as typeof Intl.NumberFormat);
+    try {
+      for (let i = 0; i < 5; i++) f.number(i, { locale: "en-GB", decimals: 3 });
+      expect(f.number(1.5, { locale: "en-GB", decimals: 3 })).toBe("1.500");
+      expect(built).toBe(1);
+
+      f.number(1.5, { locale: "de-DE", decimals: 3 });
+      expect(built).toBe(2);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+});
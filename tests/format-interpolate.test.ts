@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  RELATIVE_TIME_REFRESH_SECONDS,
+  formatRefreshSeconds,
+  parseFormatString,
+  renderFormat,
+} from "../src/format/interpolate";
+import { deepResolveTokensAsync } from "../src/tokens/resolve";
+import type { HassEntity, HomeAssistant } from "../src/ha-types";
+
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+
+const temp: HassEntity = {
+  entity_id: "sensor.living_room_temperature",
+  state: "21.437",
+  attributes: { friendly_name: "Living room", unit_of_measurement: "°C" },
+  last_changed: new Date(NOW - 3 * 60_000).toISOString(),
+  last_updated: new Date(NOW - 60_000).toISOString(),
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// parseFormatString
+// ---------------------------------------------------------------------------
+describe("parseFormatString", () => {
+  it("splits text and placeholders", () => {
+    expect(parseFormatString("A: {t} {t:unit}!")).toEqual([
+      "A: ",
+      { name: "t" },
+      " ",
+      { name: "t", modifier: "unit" },
+      "!",
+    ]);
+  });
+
+  it("supports escaped braces", () => {
+    expect(parseFormatString("{{x}} {y}")).toEqual(["{x} ", { name: "y" }]);
+  });
+
+  it("rejects malformed placeholders", () => {
+    expect(() => parseFormatString("{t")).toThrow('unclosed "{"');
+    expect(() => parseFormatString("t}")).toThrow('unmatched "}"');
+    expect(() => parseFormatString("{t:unitz}")).toThrow('unknown modifier "unitz"');
+    expect(() => parseFormatString("{1t}")).toThrow('invalid placeholder "{1t}"');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// renderFormat
+// ---------------------------------------------------------------------------
+describe("renderFormat", () => {
+  it("formats numbers for the locale and fills entity metadata", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    const bindings = { t: { value: 1234.5, entity: temp } };
+
+    expect(renderFormat("{t:name}: {t} {t:unit} (updated {t:changed})", bindings, "en-US")).toBe(
+      "Living room: 1,234.5 °C (updated 3 minutes ago)",
+    );
+    expect(renderFormat("{t:.1}", bindings, "de-DE")).toBe("1.234,5");
+    expect(renderFormat("{t:updated}", bindings, "en-US")).toBe("1 minute ago");
+  });
+
+  it("renders missing values and metadata as empty text", () => {
+    expect(renderFormat("[{a}|{b:unit}|{c}]", { a: { value: undefined }, b: { value: 1 } })).toBe(
+      "[||]",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// deepResolveTokensAsync — $format
+// ---------------------------------------------------------------------------
+describe("formatRefreshSeconds", () => {
+  it("asks for a periodic re-render only when a $format shows a relative time", () => {
+    const vars = { t: { $entity: "sensor.living_room_temperature" } };
+    expect(
+      formatRefreshSeconds({ title: { text: { $format: "updated {t:changed}", vars } } }),
+    ).toBe(RELATIVE_TIME_REFRESH_SECONDS);
+    expect(formatRefreshSeconds([{ name: { $format: "{t:updated}", vars } }])).toBe(
+      RELATIVE_TIME_REFRESH_SECONDS,
+    );
+    expect(formatRefreshSeconds({ text: { $format: "{t:name}: {t}", vars } })).toBeUndefined();
+    expect(formatRefreshSeconds({ text: { $format: "{t:changed", vars } })).toBeUndefined();
+    expect(formatRefreshSeconds({ text: "{t:changed}" })).toBeUndefined();
+  });
+});
+
+describe("deepResolveTokensAsync — $format", () => {
+  it("resolves vars as tokens and watches their entities", async () => {
+    const hass: HomeAssistant = {
+      states: { [temp.entity_id]: temp },
+      themes: {},
+      locale: { language: "en", number_format: "comma_decimal" },
+    };
+    const watched = new Set<string>();
+
+    const result = await deepResolveTokensAsync(
+      {
+        title: {
+          text: {
+            $format: "{t:name}: {t} {t:unit}",
+            vars: { t: { $entity: temp.entity_id, $round: 1 } },
+          },
+        },
+      },
+      { hass, watched, fetchHistory: async () => [] },
+    );
+
+    expect(result).toEqual({ title: { text: "Living room: 21.4 °C" } });
+    expect([...watched]).toEqual([temp.entity_id]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  createFormatter,
+  formatterValue,
+  isGeneratedFormatter,
+  registerFormatter,
+} from "../src/format/registry";
+import { hassNumberLocale } from "../src/format/locale";
+import { deepResolveTokensAsync } from "../src/tokens/resolve";
+import type { HomeAssistant } from "../src/ha-types";
+
+describe("formatterValue", () => {
+  it("unwraps ECharts callback params", () => {
+    expect(formatterValue(12)).toBe(12);
+    expect(formatterValue({ value: 3 })).toBe(3);
+    expect(formatterValue({ value: [1700000000000, 4.5] })).toBe(4.5);
+  });
+});
+
+describe("createFormatter", () => {
+  it("returns a cached function per token and locale", () => {
+    const a = createFormatter({ $formatter: "number", decimals: 1 }, "en-US");
+    const b = createFormatter({ $formatter: "number", decimals: 1 }, "en-US");
+    expect(a).toBe(b);
+    expect(isGeneratedFormatter(a)).toBe(true);
+    expect(isGeneratedFormatter(() => "")).toBe(false);
+    expect(a({ value: 2.25 })).toBe("2.3");
+  });
+
+  it("formats dates in the time zone it's given unless the token sets one", () => {
+    const ms = Date.parse("2026-03-07T09:05:03Z");
+    const berlin = createFormatter(
+      { $formatter: "date", pattern: "HH:mm" },
+      "en-US",
+      "Europe/Berlin",
+    );
+    const utc = createFormatter(
+      { $formatter: "date", pattern: "HH:mm", time_zone: "UTC" },
+      "en-US",
+      "Europe/Berlin",
+    );
+    expect(berlin(ms)).toBe("10:05");
+    expect(utc(ms)).toBe("09:05");
+  });
+
+  it("formats each series of an axis tooltip", () => {
+    const fmt = createFormatter({ $formatter: "power" }, "en-US");
+    expect(
+      fmt([
+        { marker: "●", seriesName: "Solar", value: [0, 1500] },
+        { marker: "○", seriesName: "Grid", value: [0, 200] },
+      ]),
+    ).toBe("●Solar: 1.50 kW<br/>○Grid: 200.00 W");
+  });
+
+  it("supports custom formatters with options and raw params", () => {
+    registerFormatter(
+      "stars",
+      (value, options, params) =>
+        `${"★".repeat(Number(value))}${options.suffix ?? ""}${(params as { name?: string }).name}`,
+    );
+    const fmt = createFormatter({ $formatter: "stars", suffix: " " }, "en-US");
+    expect(fmt({ value: 3, name: "Kitchen" })).toBe("★★★ Kitchen");
+  });
+
+  it("falls back to the raw value when a custom formatter throws", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    registerFormatter("broken", () => {
+      throw new Error("nope");
+    });
+    expect(createFormatter({ $formatter: "broken" })({ value: 7 })).toBe("7");
+  });
+
+  it("rejects unknown formatter names", () => {
+    expect(() => createFormatter({ $formatter: "nope" })).toThrow('Unknown $formatter "nope"');
+  });
+});
+
+describe("hassNumberLocale", () => {
+  const base: HomeAssistant = { states: {}, themes: {} };
+
+  it("follows the HA number format, then the language", () => {
+    expect(
+      hassNumberLocale({ ...base, locale: { language: "en", number_format: "decimal_comma" } }),
+    ).toBe("de-DE");
+    expect(
+      hassNumberLocale({ ...base, locale: { language: "nl", number_format: "language" } }),
+    ).toBe("nl");
+    expect(hassNumberLocale({ ...base, locale: { language: "nl", number_format: "system" } })).toBe(
+      undefined,
+    );
+    expect(hassNumberLocale(undefined)).toBeUndefined();
+  });
+});
+
+describe("deepResolveTokensAsync — $formatter", () => {
+  it("replaces the token with a formatter using the HA locale", async () => {
+    const hass: HomeAssistant = {
+      states: {},
+      themes: {},
+      locale: { language: "de", number_format: "language" },
+    };
+    const result = (await deepResolveTokensAsync(
+      { yAxis: { axisLabel: { formatter: { $formatter: "energy", unit: "kWh", decimals: 1 } } } },
+      { hass, watched: new Set(), fetchHistory: async () => [] },
+    )) as { yAxis: { axisLabel: { formatter: (v: unknown) => string } } };
+
+    expect(result.yAxis.axisLabel.formatter(1234.5)).toBe("1,2 MWh");
+  });
+
+  it("formats dates in HA's time zone", async () => {
+    const hass: HomeAssistant = { states: {}, themes: {}, config: { time_zone: "Asia/Tokyo" } };
+    const result = (await deepResolveTokensAsync(
+      { formatter: { $formatter: "date", pattern: "HH:mm" } },
+      { hass, watched: new Set(), fetchHistory: async () => [] },
+    )) as { formatter: (v: unknown) => string };
+
+    expect(result.formatter(Date.parse("2026-03-07T09:05:03Z"))).toBe("18:05");
+  });
+});
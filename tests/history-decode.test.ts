@@ -1,5 +1,11 @@
 import { describe, it, expect } from "vitest";
-import { histEntityId, histState, histAttributes, histTimestampMs } from "../src/history/decode";
+import {
+  decodeCompressedStates,
+  histEntityId,
+  histState,
+  histAttributes,
+  histTimestampMs,
+} from "../src/history/decode";
 
 // ---------------------------------------------------------------------------
 // histEntityId
@@ -157,3 +163,62 @@ describe("histTimestampMs", () => {
     expect(histTimestampMs({ last_changed: Infinity })).toBeUndefined();
   });
 });
+
+// ---------------------------------------------------------------------------
+// decodeCompressedStates
+// ---------------------------------------------------------------------------
+describe("decodeCompressedStates", () => {
+  it("expands short keys and converts epoch seconds to ms", () => {
+    const out = decodeCompressedStates("sensor.temp", [
+      { s: "20", a: { unit: "°C" }, lu: 1000, lc: 900 },
+    ]);
+    expect(out).toEqual([
+      {
+        entity_id: "sensor.temp",
+        state: "20",
+        attributes: { unit: "°C" },
+        last_changed: 900_000,
+        last_updated: 1000_000,
+      },
+    ]);
+  });
+
+  it("defaults last_changed to last_updated and carries attributes forward", () => {
+    const out = decodeCompressedStates("sensor.temp", [
+      { s: "20", a: { unit: "°C" }, lu: 1000 },
+      { s: "21", lu: 1060 },
+    ]);
+    expect(out[1]).toMatchObject({
+      state: "21",
+      attributes: { unit: "°C" },
+      last_changed: 1060_000,
+    });
+  });
+
+  it("applies +/- deltas against the previous state", () => {
+    const out = decodeCompressedStates(
+      "light.desk",
+      [{ "+": { a: { brightness: 200 }, lu: 2000 }, "-": { a: ["color_mode"] } }],
+      {
+        entity_id: "light.desk",
+        state: "on",
+        attributes: { brightness: 100, color_mode: "hs" },
+        last_changed: 1000_000,
+        last_updated: 1500_000,
+      },
+    );
+    expect(out).toEqual([
+      {
+        entity_id: "light.desk",
+        state: "on",
+        attributes: { brightness: 200 },
+        last_changed: 1000_000,
+        last_updated: 2000_000,
+      },
+    ]);
+  });
+
+  it("skips entries without any timestamp", () => {
+    expect(decodeCompressedStates("sensor.temp", [{ s: "1" }])).toEqual([]);
+  });
+});
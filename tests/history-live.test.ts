@@ -0,0 +1,277 @@
+import { describe, it, expect, vi } from "vitest";
+import { LiveHistoryStore, trimWindow } from "../src/history/live";
+import { fetchHistory, livePointFromState, withBoundaryPoints } from "../src/history/fetch";
+import type { HassEntity, HomeAssistant } from "../src/ha-types";
+import type { HistoryGenerator } from "../src/types";
+
+const HOUR = 3600_000;
+const NOW = Date.parse("2026-03-01T12:00:00.000Z");
+
+function iso(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+function entity(state: string, changedMs: number, attributes = {}): HassEntity {
+  return {
+    entity_id: "sensor.power",
+    state,
+    attributes: { friendly_name: "Power", ...attributes },
+    last_changed: iso(changedMs),
+    last_updated: iso(changedMs),
+  };
+}
+
+function makeHass(st: HassEntity, history: unknown[][]): HomeAssistant {
+  return {
+    states: { [st.entity_id]: st },
+    themes: {},
+    callApi: vi.fn().mockResolvedValue(history),
+  };
+}
+
+const spec: HistoryGenerator["$history"] = { entities: ["sensor.power"], hours: 1, live: true };
+
+// ---------------------------------------------------------------------------
+// helpers
+// ---------------------------------------------------------------------------
+describe("livePointFromState", () => {
+  it("uses last_changed and the coerced state", () => {
+    expect(livePointFromState(entity("12.5", NOW), spec)).toEqual([NOW, 12.5]);
+  });
+
+  it("uses last_updated for attribute specs", () => {
+    const st = { ...entity("on", NOW - 1000, { power: "7" }), last_updated: iso(NOW) };
+    expect(livePointFromState(st, { ...spec, attr: "power" })).toEqual([NOW, 7]);
+  });
+
+  it("maps non-numeric states through default, like fetched history", () => {
+    expect(livePointFromState(entity("unavailable", NOW), { ...spec, default: 5 })).toEqual([
+      NOW,
+      5,
+    ]);
+  });
+
+  it("skips states without a usable timestamp", () => {
+    const st = { ...entity("1", NOW), last_changed: "", last_updated: "" };
+    expect(livePointFromState(st, spec)).toBeUndefined();
+  });
+});
+
+describe("trimWindow", () => {
+  it("drops points before the window start in place", () => {
+    const pts: Array<[number, number]> = [
+      [1, 1],
+      [5, 2],
+      [9, 3],
+    ];
+    trimWindow(pts, 5);
+    expect(pts).toEqual([
+      [5, 2],
+      [9, 3],
+    ]);
+  });
+
+  it("keeps the state in force at the window start for timelines", () => {
+    const pts: Array<[number, string]> = [
+      [1, "off"],
+      [3, "heating"],
+      [9, "idle"],
+    ];
+    trimWindow(pts, 5, true);
+    expect(pts).toEqual([
+      [5, "heating"],
+      [9, "idle"],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// LiveHistoryStore
+// ---------------------------------------------------------------------------
+describe("LiveHistoryStore", () => {
+  it("seeds once from the history API, then appends new states", async () => {
+    const seedHistory = [
+      [
+        { entity_id: "sensor.power", state: "1", last_changed: iso(NOW - 30 * 60_000) },
+        { state: "2", last_changed: iso(NOW - 60_000) },
+      ],
+    ];
+    const hass = makeHass(entity("2", NOW - 60_000), seedHistory);
+    const store = new LiveHistoryStore();
+    const watched = new Set<string>();
+
+    const first = await store.resolve(hass, spec, watched, NOW);
+    expect(first).toEqual([
+      [NOW - 30 * 60_000, 1],
+      [NOW - 60_000, 2],
+    ]);
+    expect(watched.has("sensor.power")).toBe(true);
+
+    // new state arrives through hass
+    hass.states["sensor.power"] = entity("3", NOW + 5000);
+    const second = await store.resolve(hass, spec, watched, NOW + 5000);
+
+    expect(hass.callApi).toHaveBeenCalledTimes(1);
+    expect(second).toEqual([
+      [NOW - 30 * 60_000, 1],
+      [NOW - 60_000, 2],
+      [NOW + 5000, 3],
+    ]);
+  });
+
+  it("does not append the same state twice", async () => {
+    const hass = makeHass(entity("2", NOW), [[]]);
+    const store = new LiveHistoryStore();
+
+    await store.resolve(hass, spec, new Set(), NOW);
+    hass.states["sensor.power"] = entity("5", NOW + 1000);
+    await store.resolve(hass, spec, new Set(), NOW + 1000);
+    const out = await store.resolve(hass, spec, new Set(), NOW + 2000);
+
+    expect(out).toEqual([[NOW + 1000, 5]]);
+  });
+
+  it("slides the window forward", async () => {
+    const seedHistory = [
+      [{ entity_id: "sensor.power", state: "1", last_changed: iso(NOW - 50 * 60_000) }],
+    ];
+    const hass = makeHass(entity("1", NOW - 50 * 60_000), seedHistory);
+    const store = new LiveHistoryStore();
+
+    await store.resolve(hass, spec, new Set(), NOW);
+    hass.states["sensor.power"] = entity("4", NOW + 20 * 60_000);
+    const out = await store.resolve(hass, spec, new Set(), NOW + 20 * 60_000);
+
+    // the seeded point is now more than `hours` old
+    expect(out).toEqual([[NOW + 20 * 60_000, 4]]);
+  });
+
+  it("returns fresh arrays so option diffs see the change", async () => {
+    const hass = makeHass(entity("1", NOW), [[]]);
+    const store = new LiveHistoryStore();
+
+    const a = (await store.resolve(hass, spec, new Set(), NOW)) as unknown[];
+    hass.states["sensor.power"] = entity("2", NOW + HOUR / 2);
+    const b = (await store.resolve(hass, spec, new Set(), NOW + HOUR / 2)) as unknown[];
+
+    expect(a).not.toBe(b);
+    expect(a).toEqual([]);
+  });
+
+  it("re-seeds after clear()", async () => {
+    const hass = makeHass(entity("1", NOW), [[]]);
+    const store = new LiveHistoryStore();
+
+    await store.resolve(hass, spec, new Set(), NOW);
+    store.clear();
+    await store.resolve(hass, spec, new Set(), NOW);
+
+    expect(hass.callApi).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// include_start_state / extend_to_now
+// ---------------------------------------------------------------------------
+describe("withBoundaryPoints", () => {
+  const START = NOW - HOUR;
+  const boundarySpec: HistoryGenerator["$history"] = {
+    entities: ["sensor.power"],
+    include_start_state: true,
+    extend_to_now: true,
+  };
+
+  it("adds a start point from the boundary state and an end point from hass", () => {
+    const hass = makeHass(entity("7", NOW - 10 * 60_000), []);
+    const points = {
+      "sensor.power": [
+        [START - 5 * HOUR, 3],
+        [START + 60_000, 5],
+      ] as Array<[number, number]>,
+    };
+
+    expect(withBoundaryPoints(hass, boundarySpec, points, START, NOW)).toEqual({
+      "sensor.power": [
+        [START, 3],
+        [START + 60_000, 5],
+        [NOW - 10 * 60_000, 7],
+        [NOW, 7],
+      ],
+    });
+    // the input stays as fetched
+    expect(points["sensor.power"]).toHaveLength(2);
+  });
+
+  it("uses the current state for a quiet window, and only extends open windows", () => {
+    const hass = makeHass(entity("4", START - HOUR), []);
+    const quiet = { "sensor.power": [] as Array<[number, number]> };
+
+    expect(withBoundaryPoints(hass, boundarySpec, quiet, START, NOW)).toEqual({
+      "sensor.power": [
+        [START, 4],
+        [NOW, 4],
+      ],
+    });
+    expect(
+      withBoundaryPoints(
+        hass,
+        { ...boundarySpec, include_start_state: false, end: NOW },
+        quiet,
+        START,
+        NOW,
+      ),
+    ).toEqual(quiet);
+  });
+
+  it("follows hass between cached fetches", async () => {
+    const callWS = vi.fn().mockResolvedValue({
+      "sensor.power": [{ s: "2", lu: (NOW - 20 * 60_000) / 1000 }],
+    });
+    const hass: HomeAssistant = { ...makeHass(entity("2", NOW - 20 * 60_000), []), callWS };
+    const cache = new Map();
+    const args = {
+      hass,
+      spec: { entities: ["sensor.power"], hours: 1, extend_to_now: true },
+      watchedEntities: new Set<string>(),
+      cache,
+    };
+
+    expect(await fetchHistory({ ...args, nowMs: NOW })).toEqual([
+      [NOW - 20 * 60_000, 2],
+      [NOW, 2],
+    ]);
+
+    hass.states["sensor.power"] = entity("6", NOW + 5000);
+    expect(await fetchHistory({ ...args, nowMs: NOW + 10_000 })).toEqual([
+      [NOW - 20 * 60_000, 2],
+      [NOW + 5000, 6],
+      [NOW + 10_000, 6],
+    ]);
+    expect(callWS).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares cached points between specs that only shape them differently", async () => {
+    const callWS = vi.fn().mockResolvedValue({
+      "sensor.power": [{ s: "2", lu: (NOW - 20 * 60_000) / 1000 }],
+    });
+    const hass: HomeAssistant = { ...makeHass(entity("2", NOW - 20 * 60_000), []), callWS };
+    const cache = new Map();
+    const base = { entities: ["sensor.power"], hours: 1 };
+    const run = (extra: Partial<HistoryGenerator["$history"]>) =>
+      fetchHistory({
+        hass,
+        spec: { ...base, ...extra },
+        watchedEntities: new Set<string>(),
+        cache,
+        nowMs: NOW,
+      });
+
+    await run({ mode: "series", series_type: "line" });
+    await run({ mode: "values", sample: { max_points: 10 } });
+    await run({ series_overrides: { Power: { smooth: true } } });
+    expect(callWS).toHaveBeenCalledTimes(1);
+
+    await run({ mode: "timeline" });
+    expect(callWS).toHaveBeenCalledTimes(2);
+  });
+});
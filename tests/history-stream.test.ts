@@ -0,0 +1,227 @@
+import { describe, it, expect, vi } from "vitest";
+import { fetchHistoryPoints } from "../src/history/fetch";
+import { HistoryStreamStore, STREAM_READY_TIMEOUT_MS } from "../src/history/stream";
+import type { HomeAssistant } from "../src/ha-types";
+import type { HistoryGenerator } from "../src/types";
+
+const HOUR = 3600_000;
+const NOW = Date.parse("2026-03-01T12:00:00.000Z");
+const sec = (ms: number) => ms / 1000;
+
+const spec: HistoryGenerator["$history"] = { entities: ["sensor.power"], hours: 1 };
+
+function baseHass(extra: Partial<HomeAssistant>): HomeAssistant {
+  return { states: {}, themes: {}, ...extra };
+}
+
+// ---------------------------------------------------------------------------
+// transport
+// ---------------------------------------------------------------------------
+describe("fetchHistoryPoints transport", () => {
+  it("uses history_during_period over the WebSocket by default", async () => {
+    const callWS = vi.fn().mockResolvedValue({
+      "sensor.power": [
+        { s: "2", lu: sec(NOW - 10_000) },
+        { s: "1", lu: sec(NOW - 20_000) },
+      ],
+    });
+    const callApi = vi.fn();
+    const hass = baseHass({ callWS, callApi });
+
+    const points = await fetchHistoryPoints(hass, spec, NOW - HOUR, NOW);
+
+    expect(points["sensor.power"]).toEqual([
+      [NOW - 20_000, 1],
+      [NOW - 10_000, 2],
+    ]);
+    expect(callApi).not.toHaveBeenCalled();
+    expect(callWS).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "history/history_during_period",
+        entity_ids: ["sensor.power"],
+        minimal_response: false,
+        no_attributes: true,
+        significant_changes_only: true,
+      }),
+    );
+  });
+
+  it("requests attributes and all changes when attr is set", async () => {
+    const callWS = vi.fn().mockResolvedValue({
+      "sensor.power": [{ s: "on", a: { watts: 5 }, lu: sec(NOW) }],
+    });
+    const points = await fetchHistoryPoints(
+      baseHass({ callWS }),
+      { ...spec, attr: "watts" },
+      NOW - HOUR,
+      NOW,
+    );
+
+    expect(points["sensor.power"]).toEqual([[NOW, 5]]);
+    expect(callWS).toHaveBeenCalledWith(
+      expect.objectContaining({ no_attributes: false, significant_changes_only: false }),
+    );
+  });
+
+  it("falls back to REST when the WebSocket call fails in auto mode", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const callWS = vi.fn().mockRejectedValue(new Error("unknown command"));
+    const callApi = vi
+      .fn()
+      .mockResolvedValue([
+        [{ entity_id: "sensor.power", state: "3", last_changed: new Date(NOW).toISOString() }],
+      ]);
+
+    const points = await fetchHistoryPoints(baseHass({ callWS, callApi }), spec, NOW - HOUR, NOW);
+
+    expect(points["sensor.power"]).toEqual([[NOW, 3]]);
+    expect(callApi).toHaveBeenCalledOnce();
+  });
+
+  it("does not fall back with transport: websocket", async () => {
+    const callWS = vi.fn().mockRejectedValue(new Error("unknown command"));
+    const callApi = vi.fn();
+    const hass = baseHass({ callWS, callApi });
+
+    await expect(
+      fetchHistoryPoints(hass, { ...spec, transport: "websocket" }, NOW - HOUR, NOW),
+    ).rejects.toThrow("unknown command");
+    expect(callApi).not.toHaveBeenCalled();
+  });
+
+  it("skips the WebSocket with transport: rest", async () => {
+    const callWS = vi.fn();
+    const callApi = vi.fn().mockResolvedValue([]);
+
+    await fetchHistoryPoints(
+      baseHass({ callWS, callApi }),
+      { ...spec, transport: "rest" },
+      NOW - HOUR,
+      NOW,
+    );
+
+    expect(callWS).not.toHaveBeenCalled();
+    expect(callApi).toHaveBeenCalledOnce();
+  });
+
+  it("sends the spec's minimal_response over either transport", async () => {
+    const callWS = vi.fn().mockResolvedValue({});
+    const callApi = vi.fn().mockResolvedValue([]);
+    const hass = baseHass({ callWS, callApi });
+    const minimal = { ...spec, minimal_response: true };
+
+    await fetchHistoryPoints(hass, minimal, NOW - HOUR, NOW);
+    await fetchHistoryPoints(hass, { ...minimal, transport: "rest" }, NOW - HOUR, NOW);
+
+    expect(callWS).toHaveBeenCalledWith(expect.objectContaining({ minimal_response: true }));
+    expect(callApi.mock.calls[0][1]).toContain("minimal_response=1");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// HistoryStreamStore
+// ---------------------------------------------------------------------------
+function makeStreamHass() {
+  let push: ((msg: unknown) => void) | undefined;
+  const unsub = vi.fn().mockResolvedValue(undefined);
+  const subscribeMessage = vi.fn(async (cb: (msg: unknown) => void) => {
+    push = cb;
+    return unsub;
+  });
+  const hass = baseHass({
+    connection: { subscribeMessage } as unknown as HomeAssistant["connection"],
+  });
+  return { hass, subscribeMessage, unsub, push: (msg: unknown) => push?.(msg) };
+}
+
+describe("HistoryStreamStore", () => {
+  const streamSpec = { ...spec, stream: true };
+  const noFallback = () => Promise.reject(new Error("fallback should not run"));
+
+  it("resolves with the first message, then appends pushes and notifies", async () => {
+    const onUpdate = vi.fn();
+    const store = new HistoryStreamStore(onUpdate);
+    const { hass, subscribeMessage, push } = makeStreamHass();
+
+    const pending = store.resolve(hass, streamSpec, new Set(), NOW, noFallback);
+    await Promise.resolve();
+    push({ states: { "sensor.power": [{ s: "1", lu: sec(NOW - 60_000) }] } });
+
+    expect(await pending).toEqual([[NOW - 60_000, 1]]);
+    expect(onUpdate).not.toHaveBeenCalled();
+    expect(subscribeMessage).toHaveBeenCalledWith(
+      expect.any(Function),
+      expect.objectContaining({ type: "history/stream", entity_ids: ["sensor.power"] }),
+    );
+
+    push({ states: { "sensor.power": [{ s: "2", lu: sec(NOW) }] } });
+    expect(onUpdate).toHaveBeenCalledOnce();
+
+    expect(await store.resolve(hass, streamSpec, new Set(), NOW, noFallback)).toEqual([
+      [NOW - 60_000, 1],
+      [NOW, 2],
+    ]);
+    expect(subscribeMessage).toHaveBeenCalledOnce();
+  });
+
+  it("trims points that slid out of the window", async () => {
+    const store = new HistoryStreamStore(() => {});
+    const { hass, push } = makeStreamHass();
+
+    const pending = store.resolve(hass, streamSpec, new Set(), NOW, noFallback);
+    await Promise.resolve();
+    push({ states: { "sensor.power": [{ s: "1", lu: sec(NOW - 30 * 60_000) }] } });
+    await pending;
+
+    expect(await store.resolve(hass, streamSpec, new Set(), NOW + HOUR, noFallback)).toEqual([]);
+  });
+
+  it("unsubscribes on clear and ignores late messages", async () => {
+    const onUpdate = vi.fn();
+    const store = new HistoryStreamStore(onUpdate);
+    const { hass, unsub, push } = makeStreamHass();
+
+    const pending = store.resolve(hass, streamSpec, new Set(), NOW, noFallback);
+    await Promise.resolve();
+    push({ states: {} });
+    await pending;
+
+    store.clear();
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(unsub).toHaveBeenCalledOnce();
+
+    push({ states: { "sensor.power": [{ s: "2", lu: sec(NOW) }] } });
+    expect(onUpdate).not.toHaveBeenCalled();
+  });
+
+  it("uses the fallback while the stream stays silent, then switches over", async () => {
+    vi.useFakeTimers();
+    try {
+      const onUpdate = vi.fn();
+      const store = new HistoryStreamStore(onUpdate);
+      const { hass, subscribeMessage, push } = makeStreamHass();
+      const fallback = vi.fn().mockResolvedValue([[NOW - HOUR, 0]]);
+
+      const pending = store.resolve(hass, streamSpec, new Set(), NOW, fallback);
+      await vi.advanceTimersByTimeAsync(STREAM_READY_TIMEOUT_MS);
+      expect(await pending).toEqual([[NOW - HOUR, 0]]);
+
+      // no second wait while the subscription is still silent
+      expect(await store.resolve(hass, streamSpec, new Set(), NOW, fallback)).toEqual([
+        [NOW - HOUR, 0],
+      ]);
+      expect(fallback).toHaveBeenCalledTimes(2);
+      expect(subscribeMessage).toHaveBeenCalledOnce();
+
+      push({ states: { "sensor.power": [{ s: "1", lu: sec(NOW - 60_000) }] } });
+      expect(onUpdate).toHaveBeenCalledOnce();
+      expect(await store.resolve(hass, streamSpec, new Set(), NOW, fallback)).toEqual([
+        [NOW - 60_000, 1],
+      ]);
+      expect(fallback).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
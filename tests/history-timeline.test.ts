@@ -0,0 +1,176 @@
+import { describe, it, expect, vi } from "vitest";
+import type { CustomSeriesRenderItemAPI, CustomSeriesRenderItemParams } from "echarts";
+import { renderTimelineItem, timelineColors, timelineSegments } from "../src/history/timeline";
+import { fetchHistory } from "../src/history/fetch";
+import type { HomeAssistant } from "../src/ha-types";
+import type { HistoryGenerator } from "../src/types";
+
+const MIN = 60_000;
+const NOW = Date.parse("2026-03-01T12:00:00.000Z");
+
+// ---------------------------------------------------------------------------
+// timelineSegments / timelineColors
+// ---------------------------------------------------------------------------
+describe("timelineSegments", () => {
+  it("merges equal neighbours and runs the last segment to the end", () => {
+    expect(
+      timelineSegments(
+        [
+          [0, "idle"],
+          [10, "heating"],
+          [20, "heating"],
+          [30, "idle"],
+        ],
+        50,
+      ),
+    ).toEqual([
+      [0, 10, "idle"],
+      [10, 30, "heating"],
+      [30, 50, "idle"],
+    ]);
+    expect(timelineSegments([], 50)).toEqual([]);
+  });
+
+  it("treats numeric states as their text", () => {
+    expect(
+      timelineSegments(
+        [
+          [0, 1],
+          [5, "1"],
+        ],
+        9,
+      ),
+    ).toEqual([[0, 9, "1"]]);
+  });
+});
+
+describe("timelineColors", () => {
+  it("uses state_colors first, then palette colours shared across entities", () => {
+    const colors = timelineColors(
+      { state_colors: { heating: "#ff6d00" } },
+      {
+        a: [
+          [0, 1, "heating"],
+          [1, 2, "idle"],
+        ],
+        b: [
+          [0, 1, "idle"],
+          [1, 2, "off"],
+        ],
+      },
+    );
+    expect(Object.fromEntries(colors)).toEqual({
+      heating: "#ff6d00",
+      idle: "#5470c6",
+      off: "#91cc75",
+    });
+  });
+
+  it("resolves CSS variables and HA colour names in state_colors", () => {
+    const vars: Record<string, string> = { "--state-heat-color": "#ff8100", "--red-color": "#e00" };
+    const colors = timelineColors(
+      { state_colors: { heating: "var(--state-heat-color)", off: "red", idle: "teal" } },
+      {},
+      (name) => vars[name],
+    );
+    expect(Object.fromEntries(colors)).toEqual({
+      heating: "#ff8100",
+      off: "#ee0000",
+      idle: "#009688",
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// renderTimelineItem
+// ---------------------------------------------------------------------------
+describe("renderTimelineItem", () => {
+  const params = { coordSys: { x: 100, y: 0, width: 200, height: 100 } };
+  const api = (start: number, end: number) =>
+    ({
+      value: (dim: number) => [0, start, end, "on"][dim],
+      coord: ([x, row]: number[]) => [x, 50 + Number(row) * 20],
+      size: () => [0, 20],
+      style: () => ({ fill: "#fff" }),
+    }) as unknown as CustomSeriesRenderItemAPI;
+
+  it("draws a bar on the entity's row, clipped to the grid", () => {
+    const item = renderTimelineItem(
+      params as unknown as CustomSeriesRenderItemParams,
+      api(50, 150),
+    );
+    expect(item).toMatchObject({
+      type: "rect",
+      shape: { x: 100, y: 44, width: 50, height: 12 },
+      style: { fill: "#fff" },
+    });
+    expect(
+      renderTimelineItem(params as unknown as CustomSeriesRenderItemParams, api(320, 400)),
+    ).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// $history mode: timeline
+// ---------------------------------------------------------------------------
+describe("$history mode: timeline", () => {
+  it("fetches states and builds one custom series per entity", async () => {
+    const callWS = vi.fn().mockResolvedValue({
+      "climate.lounge": [
+        { s: "idle", lu: (NOW - 60 * MIN) / 1000 },
+        { s: "heating", lu: (NOW - 40 * MIN) / 1000 },
+        { s: "heating", lu: (NOW - 30 * MIN) / 1000 },
+        { s: "idle", lu: (NOW - 10 * MIN) / 1000 },
+      ],
+    });
+    const hass: HomeAssistant = {
+      states: {
+        "climate.lounge": {
+          entity_id: "climate.lounge",
+          state: "idle",
+          attributes: { friendly_name: "Lounge" },
+          last_changed: "",
+          last_updated: "",
+        },
+      },
+      themes: {},
+      callWS,
+    };
+    const spec: HistoryGenerator["$history"] = {
+      entities: ["climate.lounge"],
+      hours: 1,
+      mode: "timeline",
+      state_colors: { heating: "#ff6d00", idle: "#9e9e9e" },
+      series_overrides: { Lounge: { z: 3 } },
+    };
+
+    const result = (await fetchHistory({
+      hass,
+      spec,
+      watchedEntities: new Set(),
+      cache: new Map(),
+      nowMs: NOW,
+    })) as Array<Record<string, unknown>>;
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ name: "Lounge", type: "custom", z: 3 });
+    expect(result[0].renderItem).toBe(renderTimelineItem);
+    expect(result[0].data).toEqual([
+      {
+        name: "idle",
+        value: ["Lounge", NOW - 60 * MIN, NOW - 40 * MIN, "idle"],
+        itemStyle: { color: "#9e9e9e" },
+      },
+      {
+        name: "heating",
+        value: ["Lounge", NOW - 40 * MIN, NOW - 10 * MIN, "heating"],
+        itemStyle: { color: "#ff6d00" },
+      },
+      {
+        name: "idle",
+        value: ["Lounge", NOW - 10 * MIN, NOW, "idle"],
+        itemStyle: { color: "#9e9e9e" },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { globToRegExp, selectEntities } from "../src/registry/select";
+import { RegistryStore, loadRegistries, type Registries } from "../src/registry/registries";
+import { deepResolveTokensAsync } from "../src/tokens/resolve";
+import type { HassEntity, HomeAssistant } from "../src/ha-types";
+
+function entity(entity_id: string, state: string, attributes = {}): HassEntity {
+  return {
+    entity_id,
+    state,
+    attributes: { friendly_name: entity_id, ...attributes },
+    last_changed: "",
+    last_updated: "",
+  };
+}
+
+const hass: HomeAssistant = {
+  states: Object.fromEntries(
+    [
+      entity("sensor.kitchen_plug_power", "120", { device_class: "power" }),
+      entity("sensor.office_plug_power", "40", { device_class: "power" }),
+      entity("sensor.phone_battery", "80", { device_class: "battery" }),
+      entity("sensor.remote_battery", "15", { device_class: "battery" }),
+      entity("light.kitchen", "on"),
+    ].map((e) => [e.entity_id, e]),
+  ),
+  themes: {},
+};
+
+const reg: Registries = {
+  entities: new Map([
+    [
+      "sensor.kitchen_plug_power",
+      { entity_id: "sensor.kitchen_plug_power", device_id: "dev_k", platform: "shelly" },
+    ],
+    [
+      "sensor.office_plug_power",
+      { entity_id: "sensor.office_plug_power", device_id: "dev_o", platform: "tplink" },
+    ],
+    [
+      "sensor.remote_battery",
+      { entity_id: "sensor.remote_battery", area_id: "kitchen", labels: ["critical"] },
+    ],
+    ["light.kitchen", { entity_id: "light.kitchen", device_id: "dev_k" }],
+  ]),
+  devices: new Map([
+    ["dev_k", { id: "dev_k", area_id: "kitchen", name: "Kitchen plug", labels: [] }],
+    ["dev_o", { id: "dev_o", area_id: "office", name: "Plug", name_by_user: "Office plug" }],
+  ]),
+  areas: [
+    { area_id: "kitchen", name: "Kitchen" },
+    { area_id: "office", name: "Office" },
+  ],
+  labels: [{ label_id: "critical", name: "Critical" }],
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// selectEntities
+// ---------------------------------------------------------------------------
+describe("globToRegExp", () => {
+  it("matches * and ? only", () => {
+    expect(globToRegExp("sensor.*_power").test("sensor.kitchen_plug_power")).toBe(true);
+    expect(globToRegExp("sensor.*_power").test("sensorXkitchen_power")).toBe(false);
+    expect(globToRegExp("light.?itchen").test("light.kitchen")).toBe(true);
+  });
+});
+
+describe("selectEntities", () => {
+  it("filters by domain, device_class and glob", () => {
+    expect(selectEntities(hass, reg, { domain: "sensor", device_class: "battery" })).toEqual([
+      "sensor.phone_battery",
+      "sensor.remote_battery",
+    ]);
+    expect(selectEntities(hass, reg, { entity_glob: ["sensor.*_power", "light.*"] })).toEqual([
+      "light.kitchen",
+      "sensor.kitchen_plug_power",
+      "sensor.office_plug_power",
+    ]);
+  });
+
+  it("resolves areas through the entity or its device, by id or name", () => {
+    expect(selectEntities(hass, reg, { area: "Kitchen", domain: "sensor" })).toEqual([
+      "sensor.kitchen_plug_power",
+      "sensor.remote_battery",
+    ]);
+  });
+
+  it("matches devices by user name, labels by name and integrations", () => {
+    expect(selectEntities(hass, reg, { device: "office plug" })).toEqual([
+      "sensor.office_plug_power",
+    ]);
+    expect(selectEntities(hass, reg, { label: "Critical" })).toEqual(["sensor.remote_battery"]);
+    expect(selectEntities(hass, reg, { integration: "shelly" })).toEqual([
+      "sensor.kitchen_plug_power",
+    ]);
+  });
+
+  it("applies exclude and ORs selector lists", () => {
+    expect(
+      selectEntities(hass, reg, [{ device_class: "power" }, { label: "critical" }], {
+        area: "office",
+      }),
+    ).toEqual(["sensor.kitchen_plug_power", "sensor.remote_battery"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// registries
+// ---------------------------------------------------------------------------
+describe("loadRegistries / RegistryStore", () => {
+  function wsHass() {
+    const callWS = vi.fn(async (msg: { type: string }) => {
+      if (msg.type === "config/label_registry/list") throw new Error("unknown command");
+      if (msg.type === "config/area_registry/list")
+        return [{ area_id: "kitchen", name: "Kitchen" }];
+      return [];
+    });
+    let fire: () => void = () => {};
+    const unsub = vi.fn().mockResolvedValue(undefined);
+    const subscribeMessage = vi.fn(async (cb: () => void) => {
+      fire = cb;
+      return unsub;
+    });
+    const h: HomeAssistant = {
+      ...hass,
+      callWS: callWS as unknown as HomeAssistant["callWS"],
+      connection: { subscribeMessage } as unknown as HomeAssistant["connection"],
+    };
+    return { h, callWS, subscribeMessage, unsub, fire: () => fire() };
+  }
+
+  it("tolerates a failing registry list", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { h } = wsHass();
+    const loaded = await loadRegistries(h);
+    expect(loaded.areas).toEqual([{ area_id: "kitchen", name: "Kitchen" }]);
+    expect(loaded.labels).toEqual([]);
+  });
+
+  it("loads once, then reloads and notifies after a registry event", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const onChange = vi.fn();
+    const store = new RegistryStore(onChange);
+    const { h, callWS, subscribeMessage, fire } = wsHass();
+
+    await store.get(h);
+    await store.get(h);
+    expect(callWS).toHaveBeenCalledTimes(4);
+    expect(subscribeMessage).toHaveBeenCalledWith(expect.any(Function), {
+      type: "subscribe_events",
+      event_type: "entity_registry_updated",
+    });
+
+    fire();
+    fire();
+    vi.advanceTimersByTime(1000);
+    expect(onChange).toHaveBeenCalledOnce();
+
+    await store.get(h);
+    expect(callWS).toHaveBeenCalledTimes(8);
+  });
+
+  it("unsubscribes on clear", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const store = new RegistryStore(() => {});
+    const { h, unsub } = wsHass();
+    await store.get(h);
+
+    store.clear();
+    await vi.waitFor(() => expect(unsub).toHaveBeenCalledTimes(4));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// deepResolveTokensAsync — selectors
+// ---------------------------------------------------------------------------
+describe("deepResolveTokensAsync — include / exclude", () => {
+  it("expands selectors in $data and watches the selected entities", async () => {
+    const watched = new Set<string>();
+    const result = await deepResolveTokensAsync(
+      {
+        $data: {
+          entities: ["light.kitchen"],
+          include: { area: "kitchen", domain: "sensor" },
+          exclude: { label: "critical" },
+          mode: "names",
+          name_from: "entity_id",
+        },
+      },
+      { hass, watched, fetchHistory: async () => [], loadRegistries: async () => reg },
+    );
+
+    expect(result).toEqual(["light.kitchen", "sensor.kitchen_plug_power"]);
+    expect([...watched]).toEqual(["light.kitchen", "sensor.kitchen_plug_power"]);
+  });
+
+  it("passes the expanded list to $history and $statistics", async () => {
+    const fetchHistory = vi.fn().mockResolvedValue([]);
+    const fetchStatistics = vi.fn().mockResolvedValue([]);
+    await deepResolveTokensAsync(
+      {
+        a: { $history: { include: { device_class: "battery" }, hours: 24 } },
+        b: { $statistics: { include: { entity_glob: "sensor.*_power" } } },
+      },
+      { hass, watched: new Set(), fetchHistory, fetchStatistics },
+    );
+
+    expect(fetchHistory).toHaveBeenCalledWith({
+      entities: ["sensor.phone_battery", "sensor.remote_battery"],
+      hours: 24,
+    });
+    expect(fetchStatistics).toHaveBeenCalledWith({
+      entities: ["sensor.kitchen_plug_power", "sensor.office_plug_power"],
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  fetchService,
+  forecastToService,
+  serviceRefreshSeconds,
+  shapeServiceResponse,
+} from "../src/service/fetch";
+import { deepResolveTokensAsync } from "../src/tokens/resolve";
+import type { HomeAssistant } from "../src/ha-types";
+import type { ServiceToken } from "../src/types";
+
+const T0 = Date.parse("2026-03-01T10:00:00Z");
+const HOUR = 3600_000;
+
+const forecastResponse = {
+  "weather.home": {
+    forecast: [
+      { datetime: "2026-03-01T11:00:00Z", temperature: 8, precipitation: 0.4 },
+      { datetime: "2026-03-01T10:00:00Z", temperature: 7.5, precipitation: 0 },
+      { datetime: "2026-03-01T12:00:00Z", temperature: "n/a" },
+    ],
+  },
+};
+
+function baseHass(callWS: HomeAssistant["callWS"]): HomeAssistant {
+  return { states: {}, themes: {}, callWS };
+}
+
+// ---------------------------------------------------------------------------
+// shapeServiceResponse
+// ---------------------------------------------------------------------------
+describe("shapeServiceResponse", () => {
+  it("maps fields to sorted [ts, value] points, skipping non-numbers", () => {
+    const spec: ServiceToken = {
+      $service: "weather.get_forecasts",
+      fields: { time: "datetime", value: "temperature" },
+    };
+    expect(shapeServiceResponse(spec, forecastResponse)).toEqual([
+      [T0, 7.5],
+      [T0 + HOUR, 8],
+    ]);
+  });
+
+  it("builds one series per value field", () => {
+    const spec: ServiceToken = {
+      $service: "weather.get_forecasts",
+      fields: { value: ["temperature", "precipitation"] },
+      series_type: "bar",
+      series_overrides: { precipitation: { yAxisIndex: 1 } },
+    };
+    expect(shapeServiceResponse(spec, forecastResponse)).toEqual([
+      {
+        name: "temperature",
+        type: "bar",
+        showSymbol: false,
+        data: [
+          [T0, 7.5],
+          [T0 + HOUR, 8],
+        ],
+      },
+      {
+        name: "precipitation",
+        type: "bar",
+        showSymbol: false,
+        yAxisIndex: 1,
+        data: [
+          [T0, 0],
+          [T0 + HOUR, 0.4],
+        ],
+      },
+    ]);
+  });
+
+  it("returns the raw item list without fields, following `path` when given", () => {
+    const raw = shapeServiceResponse({ $service: "a.b" }, forecastResponse);
+    expect(raw).toHaveLength(3);
+
+    const rates = { rates: [{ start: 1772359200, price: 0.2 }], currency: "GBP" };
+    expect(
+      shapeServiceResponse(
+        { $service: "a.b", path: "rates", fields: { time: "start", value: "price" } },
+        rates,
+      ),
+    ).toEqual([[1772359200_000, 0.2]]);
+  });
+
+  it("throws when no list is found", () => {
+    expect(() =>
+      shapeServiceResponse({ $service: "a.b", fields: { value: "x" } }, { one: [], two: [] }),
+    ).toThrow(/a\.b returned no list \(set `path`\)/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// fetchService / $forecast
+// ---------------------------------------------------------------------------
+describe("fetchService", () => {
+  it("calls the service with return_response and caches for cache_seconds", async () => {
+    const callWS = vi.fn().mockResolvedValue({ response: forecastResponse });
+    const cache = new Map();
+    const spec = forecastToService({ $forecast: "weather.home", cache_seconds: 60 });
+
+    const first = await fetchService({ hass: baseHass(callWS), spec, cache, nowMs: T0 });
+    const cached = await fetchService({ hass: baseHass(callWS), spec, cache, nowMs: T0 + 59_000 });
+    await fetchService({ hass: baseHass(callWS), spec, cache, nowMs: T0 + 61_000 });
+
+    expect(first).toEqual([
+      [T0, 7.5],
+      [T0 + HOUR, 8],
+    ]);
+    expect(cached).toBe(first);
+    expect(callWS).toHaveBeenCalledTimes(2);
+    expect(callWS).toHaveBeenCalledWith({
+      type: "call_service",
+      domain: "weather",
+      service: "get_forecasts",
+      service_data: { type: "hourly" },
+      target: { entity_id: "weather.home" },
+      return_response: true,
+    });
+  });
+
+  it("caches a failed call for cache_seconds too", async () => {
+    const callWS = vi
+      .fn()
+      .mockRejectedValue({ code: "service_validation_error", message: "Entity not found" });
+    const cache = new Map();
+    const spec = { $service: "weather.get_forecasts", cache_seconds: 60 };
+    const run = (nowMs: number) => fetchService({ hass: baseHass(callWS), spec, cache, nowMs });
+
+    await expect(run(T0)).rejects.toThrow("weather.get_forecasts: Entity not found");
+    await expect(run(T0 + 30_000)).rejects.toThrow("Entity not found");
+    expect(callWS).toHaveBeenCalledTimes(1);
+
+    await expect(run(T0 + 61_000)).rejects.toThrow("Entity not found");
+    expect(callWS).toHaveBeenCalledTimes(2);
+  });
+
+  it("reads the forecast of the targeted entity and keeps custom fields", () => {
+    expect(
+      forecastToService({ $forecast: "weather.home", type: "daily", fields: { value: "templow" } }),
+    ).toMatchObject({
+      data: { type: "daily" },
+      path: '["weather.home"].forecast',
+      fields: { time: "datetime", value: "templow" },
+    });
+  });
+
+  it("resolves $forecast tokens through the card's fetcher", async () => {
+    const fetch = vi.fn().mockResolvedValue([[T0, 7.5]]);
+    const result = await deepResolveTokensAsync(
+      { series: [{ type: "line", data: { $forecast: "weather.home" } }] },
+      {
+        hass: baseHass(undefined),
+        watched: new Set(),
+        fetchHistory: async () => [],
+        fetchService: fetch,
+      },
+    );
+
+    expect(result).toEqual({ series: [{ type: "line", data: [[T0, 7.5]] }] });
+    expect(fetch.mock.calls[0][0]).toMatchObject({ $service: "weather.get_forecasts" });
+  });
+
+  it("refreshes on the shortest cache window", () => {
+    expect(
+      serviceRefreshSeconds({
+        a: { $forecast: "weather.home" },
+        b: [{ $service: "x.y", cache_seconds: 120 }],
+      }),
+    ).toBe(120);
+    expect(serviceRefreshSeconds({ a: { $forecast: "weather.home" } })).toBe(900);
+    expect(serviceRefreshSeconds({ a: 1 })).toBeUndefined();
+  });
+});
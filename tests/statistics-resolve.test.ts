@@ -66,13 +66,12 @@ describe("deepResolveTokensAsync — $statistics", () => {
     };
 
     const watched = new Set<string>();
-    const result = (await deepResolveTokensAsync(
-      input,
-      makeHass(),
+    const result = (await deepResolveTokensAsync(input, {
+      hass: makeHass(),
       watched,
-      noopHistory,
-      fetchStats,
-    )) as Record<string, unknown>;
+      fetchHistory: noopHistory,
+      fetchStatistics: fetchStats,
+    })) as Record<string, unknown>;
 
     // The $statistics token should be replaced with the mock data
     const series = result.series as Array<Record<string, unknown>>;
@@ -118,13 +117,12 @@ describe("deepResolveTokensAsync — $statistics", () => {
     };
 
     const watched = new Set<string>();
-    const result = (await deepResolveTokensAsync(
-      input,
-      makeHass(),
+    const result = (await deepResolveTokensAsync(input, {
+      hass: makeHass(),
       watched,
-      noopHistory,
-      fetchStats,
-    )) as Record<string, unknown>;
+      fetchHistory: noopHistory,
+      fetchStatistics: fetchStats,
+    })) as Record<string, unknown>;
 
     expect(result.series).toEqual(mockSeries);
     expect(watched.has("sensor.solar_production")).toBe(true);
@@ -149,13 +147,12 @@ describe("deepResolveTokensAsync — $statistics", () => {
     };
 
     const watched = new Set<string>();
-    const result = (await deepResolveTokensAsync(
-      input,
-      makeHass(),
+    const result = (await deepResolveTokensAsync(input, {
+      hass: makeHass(),
       watched,
-      noopHistory,
+      fetchHistory: noopHistory,
       // no fetchStatistics callback
-    )) as Record<string, unknown>;
+    })) as Record<string, unknown>;
 
     const series = result.series as Array<Record<string, unknown>>;
     expect(series[0].data).toEqual([]);
@@ -185,13 +182,12 @@ describe("deepResolveTokensAsync — $statistics", () => {
       ],
     };
 
-    const result = (await deepResolveTokensAsync(
-      input,
-      makeHass(),
-      new Set(),
-      noopHistory,
-      fetchStats,
-    )) as Record<string, unknown>;
+    const result = (await deepResolveTokensAsync(input, {
+      hass: makeHass(),
+      watched: new Set(),
+      fetchHistory: noopHistory,
+      fetchStatistics: fetchStats,
+    })) as Record<string, unknown>;
 
     expect(result.backgroundColor).toBe("transparent");
     expect((result.title as Record<string, unknown>).text).toBe("Test");
@@ -221,13 +217,12 @@ describe("deepResolveTokensAsync — $statistics", () => {
       ],
     };
 
-    const result = (await deepResolveTokensAsync(
-      input,
-      makeHass(),
-      new Set(),
+    const result = (await deepResolveTokensAsync(input, {
+      hass: makeHass(),
+      watched: new Set(),
       fetchHistory,
-      fetchStats,
-    )) as Record<string, unknown>;
+      fetchStatistics: fetchStats,
+    })) as Record<string, unknown>;
 
     const series = result.series as Array<Record<string, unknown>>;
     expect(series[0].data).toEqual([[1, 99]]);
@@ -321,6 +316,53 @@ describe("fetchStatistics — values mode", () => {
 
     expect(result).toEqual([[new Date("2025-02-01T00:00:00Z").getTime(), 2.16]]);
   });
+
+  it("asks HA to convert to `unit` and rounds what comes back", async () => {
+    const callWS = vi.fn().mockResolvedValue({
+      "sensor.grid_energy": [
+        { start: "2025-02-01T00:00:00Z", end: "2025-02-02T00:00:00Z", change: 12.345 },
+      ],
+    });
+    const hass = makeHass({ callWS });
+    // the current unit doesn't matter: HA converts from the statistic's own unit
+    hass.states["sensor.grid_energy"] = {
+      entity_id: "sensor.grid_energy",
+      state: "0",
+      attributes: { unit_of_measurement: "Wh" },
+      last_changed: "",
+      last_updated: "",
+    };
+
+    const result = await fetchStatistics({
+      hass,
+      spec: { entities: ["sensor.grid_energy"], unit: "kWh" },
+      watchedEntities: new Set(),
+      cache: new Map(),
+      nowMs: Date.now(),
+    });
+
+    expect(callWS).toHaveBeenCalledWith(expect.objectContaining({ units: { energy: "kWh" } }));
+    expect(result).toEqual([[new Date("2025-02-01T00:00:00Z").getTime(), 12.35]]);
+  });
+
+  it("names the unit class the way HA does", async () => {
+    const callWS = vi.fn().mockResolvedValue({});
+    const run = (unit?: string) =>
+      fetchStatistics({
+        hass: makeHass({ callWS }),
+        spec: { entities: ["sensor.a"], unit },
+        watchedEntities: new Set(),
+        cache: new Map(),
+        nowMs: Date.now(),
+      });
+
+    await run("°F");
+    await run("GiB");
+    await run(undefined);
+    expect(callWS.mock.calls[0][0].units).toEqual({ temperature: "°F" });
+    expect(callWS.mock.calls[1][0].units).toEqual({ information: "GiB" });
+    expect(callWS.mock.calls[2][0]).not.toHaveProperty("units");
+  });
 });
 
 // ---------------------------------------------------------------------------
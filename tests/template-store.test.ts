@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from "vitest";
+import { TemplateStore } from "../src/template/store";
+import { deepResolveTokensAsync } from "../src/tokens/resolve";
+import type { HomeAssistant } from "../src/ha-types";
+import type { TemplateToken } from "../src/types";
+
+function makeHass() {
+  const pushers: Array<(msg: unknown) => void> = [];
+  const unsub = vi.fn().mockResolvedValue(undefined);
+  const subscribeMessage = vi.fn(async (cb: (msg: unknown) => void) => {
+    pushers.push(cb);
+    return unsub;
+  });
+  const hass: HomeAssistant = {
+    states: {
+      "sensor.a": {
+        entity_id: "sensor.a",
+        state: "4",
+        attributes: { friendly_name: "A" },
+        last_changed: "",
+        last_updated: "",
+      },
+    },
+    themes: {},
+    connection: { subscribeMessage } as unknown as HomeAssistant["connection"],
+  };
+  return { hass, subscribeMessage, unsub, push: (msg: unknown, i = 0) => pushers[i]?.(msg) };
+}
+
+const noopHistory = async () => [];
+
+// ---------------------------------------------------------------------------
+// TemplateStore
+// ---------------------------------------------------------------------------
+describe("TemplateStore", () => {
+  const token: TemplateToken = { $template: "{{ 1 + 1 }}" };
+
+  it("subscribes to render_template and resolves with the first result", async () => {
+    const store = new TemplateStore(() => {});
+    const { hass, subscribeMessage, push } = makeHass();
+
+    const pending = store.resolve(hass, token);
+    await Promise.resolve();
+    push({ result: 2, listeners: {} });
+
+    expect(await pending).toBe(2);
+    expect(subscribeMessage).toHaveBeenCalledWith(expect.any(Function), {
+      type: "render_template",
+      template: "{{ 1 + 1 }}",
+      variables: {},
+      report_errors: true,
+    });
+  });
+
+  it("notifies on changed results only and reuses the subscription", async () => {
+    const onUpdate = vi.fn();
+    const store = new TemplateStore(onUpdate);
+    const { hass, subscribeMessage, push } = makeHass();
+
+    const pending = store.resolve(hass, token);
+    await Promise.resolve();
+    push({ result: [1, 2] });
+    await pending;
+
+    push({ result: [1, 2] });
+    expect(onUpdate).not.toHaveBeenCalled();
+
+    push({ result: [1, 3] });
+    expect(onUpdate).toHaveBeenCalledOnce();
+    expect(await store.resolve(hass, token)).toEqual([1, 3]);
+    expect(subscribeMessage).toHaveBeenCalledOnce();
+  });
+
+  it("surfaces render errors and ignores warnings", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const store = new TemplateStore(() => {});
+    const { hass, push } = makeHass();
+
+    const pending = store.resolve(hass, token);
+    await Promise.resolve();
+    push({ error: "'foo' is undefined", level: "WARNING" });
+    push({ error: "UndefinedError: boom", level: "ERROR" });
+
+    await expect(pending).rejects.toThrow("UndefinedError: boom");
+  });
+
+  it("rejects when the subscription itself fails", async () => {
+    const store = new TemplateStore(() => {});
+    const { hass, subscribeMessage } = makeHass();
+    subscribeMessage.mockRejectedValueOnce(new Error("TemplateSyntaxError"));
+
+    await expect(store.resolve(hass, token)).rejects.toThrow("TemplateSyntaxError");
+  });
+
+  it("unsubscribes on clear and ignores late results", async () => {
+    const onUpdate = vi.fn();
+    const store = new TemplateStore(onUpdate);
+    const { hass, unsub, push } = makeHass();
+
+    const pending = store.resolve(hass, token);
+    await Promise.resolve();
+    push({ result: 1 });
+    await pending;
+
+    store.clear();
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(unsub).toHaveBeenCalledOnce();
+
+    push({ result: 5 });
+    expect(onUpdate).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// deepResolveTokensAsync — $template
+// ---------------------------------------------------------------------------
+describe("deepResolveTokensAsync — $template", () => {
+  it("resolves anywhere in the tree and applies coercion and transforms", async () => {
+    const { hass } = makeHass();
+    const render = vi.fn(async (t: TemplateToken) => (t.$template.includes("max") ? "12.345" : 3));
+
+    const result = await deepResolveTokensAsync(
+      {
+        yAxis: { min: { $template: "{{ 3 }}" }, max: { $template: "max", $round: 1 } },
+        title: { text: { $template: "max", $coerce: "string" } },
+      },
+      { hass, watched: new Set(), fetchHistory: noopHistory, renderTemplate: render },
+    );
+
+    expect(result).toEqual({ yAxis: { min: 3, max: 12.3 }, title: { text: "12.345" } });
+  });
+
+  it("falls back to $default when no result is available", async () => {
+    const result = await deepResolveTokensAsync(
+      { min: { $template: "{{ x }}", $default: 0 } },
+      { hass: undefined, watched: new Set(), fetchHistory: noopHistory },
+    );
+    expect(result).toEqual({ min: 0 });
+  });
+
+  it("expands templated entity lists inside $data", async () => {
+    const { hass } = makeHass();
+    const watched = new Set<string>();
+    const render = vi.fn().mockResolvedValue(["sensor.a"]);
+
+    const result = await deepResolveTokensAsync(
+      { data: { $data: { entities: [{ $template: "{{ ids }}" }], mode: "values" } } },
+      { hass, watched, fetchHistory: noopHistory, renderTemplate: render },
+    );
+
+    expect(result).toEqual({ data: [4] });
+    expect(watched.has("sensor.a")).toBe(true);
+  });
+});
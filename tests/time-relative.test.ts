@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  evaluateTimeExpression,
+  hassTimeSettings,
+  isTimeExpression,
+  type TimeContext,
+} from "../src/time/relative";
+import { historyRange } from "../src/history/fetch";
+import { fetchStatistics } from "../src/statistics/fetch";
+import type { HomeAssistant } from "../src/ha-types";
+
+// Wednesday 2026-03-04 09:30 in Berlin (UTC+1)
+const NOW = Date.parse("2026-03-04T08:30:00Z");
+const berlin: TimeContext = { nowMs: NOW, timeZone: "Europe/Berlin", weekStart: 1 };
+
+const at = (expr: string, ctx: TimeContext = berlin) =>
+  new Date(evaluateTimeExpression(expr, ctx)!).toISOString();
+
+// ---------------------------------------------------------------------------
+// evaluateTimeExpression
+// ---------------------------------------------------------------------------
+describe("evaluateTimeExpression", () => {
+  it("reads now and clock offsets", () => {
+    expect(at("now")).toBe("2026-03-04T08:30:00.000Z");
+    expect(at("now-6h")).toBe("2026-03-04T02:30:00.000Z");
+    expect(at("-30m")).toBe("2026-03-04T08:00:00.000Z");
+    expect(at("now - 1d + 90s")).toBe("2026-03-03T08:31:30.000Z");
+  });
+
+  it("anchors days, weeks, months and years in the server's time zone", () => {
+    expect(at("today")).toBe("2026-03-03T23:00:00.000Z");
+    expect(at("yesterday")).toBe("2026-03-02T23:00:00.000Z");
+    expect(at("tomorrow")).toBe("2026-03-04T23:00:00.000Z");
+    expect(at("end_of_day")).toBe("2026-03-04T23:00:00.000Z");
+    expect(at("start_of_week")).toBe("2026-03-01T23:00:00.000Z");
+    expect(at("end_of_week")).toBe("2026-03-08T23:00:00.000Z");
+    expect(at("start_of_month")).toBe("2026-02-28T23:00:00.000Z");
+    expect(at("start_of_month-1M")).toBe("2026-01-31T23:00:00.000Z");
+    expect(at("start_of_year")).toBe("2025-12-31T23:00:00.000Z");
+    expect(at("today", { ...berlin, timeZone: "America/New_York" })).toBe(
+      "2026-03-04T05:00:00.000Z",
+    );
+  });
+
+  it("uses the configured week start", () => {
+    expect(at("start_of_week", { ...berlin, weekStart: 0 })).toBe("2026-02-28T23:00:00.000Z");
+    expect(at("start_of_week", { ...berlin, weekStart: 3 })).toBe("2026-03-03T23:00:00.000Z");
+  });
+
+  it("keeps midnight across DST changes and clamps month ends", () => {
+    // Berlin switches to UTC+2 on 2026-03-29
+    const afterDst: TimeContext = { ...berlin, nowMs: Date.parse("2026-03-30T10:00:00Z") };
+    expect(at("today", afterDst)).toBe("2026-03-29T22:00:00.000Z");
+    expect(at("today-1w", afterDst)).toBe("2026-03-22T23:00:00.000Z");
+    expect(at("now-1M", { ...berlin, nowMs: Date.parse("2026-03-31T10:00:00Z") })).toBe(
+      "2026-02-28T11:00:00.000Z",
+    );
+  });
+
+  it("ignores strings outside the grammar", () => {
+    for (const s of ["2026-03-04T00:00:00Z", "", "soon", "today+1x", "start_of_weak"]) {
+      expect(evaluateTimeExpression(s, berlin), s).toBeUndefined();
+      expect(isTimeExpression(s), s).toBe(false);
+    }
+  });
+});
+
+describe("hassTimeSettings", () => {
+  it("reads the server zone and the user's first weekday", () => {
+    const hass = {
+      states: {},
+      themes: {},
+      config: { time_zone: "Europe/Berlin" },
+      locale: { language: "en", first_weekday: "sunday" },
+    } as HomeAssistant;
+    expect(hassTimeSettings(hass)).toEqual({ timeZone: "Europe/Berlin", weekStart: 0 });
+    expect(hassTimeSettings(hass, "saturday").weekStart).toBe(6);
+    expect(hassTimeSettings(undefined)).toEqual({ timeZone: undefined, weekStart: 1 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// windows and cache keys
+// ---------------------------------------------------------------------------
+describe("time expressions in $history / $statistics windows", () => {
+  const settings = { timeZone: "Europe/Berlin", weekStart: 1 };
+
+  it("buckets clock-relative bounds but keeps calendar boundaries exact", () => {
+    const spec = { entities: ["sensor.a"], start: "now-6h", cache_seconds: 60 };
+    const a = historyRange(spec, NOW + 10_000, true, settings);
+    const b = historyRange(spec, NOW + 50_000, true, settings);
+    expect(a).toEqual(b);
+    expect(a.startMs).toBe(NOW - 6 * 3600_000);
+
+    const today = historyRange(
+      { entities: ["sensor.a"], start: "today", end: "end_of_day", cache_seconds: 7 },
+      NOW + 3_000,
+      true,
+      settings,
+    );
+    expect(today).toEqual({
+      startMs: Date.parse("2026-03-03T23:00:00Z"),
+      endMs: Date.parse("2026-03-04T23:00:00Z"),
+    });
+  });
+
+  it("requests statistics from the server's month start", async () => {
+    const callWS = vi.fn().mockResolvedValue({});
+    const hass = {
+      states: {},
+      themes: {},
+      config: { time_zone: "Europe/Berlin" },
+      callWS,
+    } as HomeAssistant;
+
+    await fetchStatistics({
+      hass,
+      spec: { entities: ["sensor.energy"], start: "start_of_month-1M", end: "start_of_month" },
+      watchedEntities: new Set(),
+      cache: new Map(),
+      nowMs: NOW,
+    });
+
+    expect(callWS.mock.calls[0][0]).toMatchObject({
+      start_time: "2026-01-31T23:00:00.000Z",
+      end_time: "2026-02-28T23:00:00.000Z",
+    });
+  });
+});
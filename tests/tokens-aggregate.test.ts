@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import {
+  aggregateRows,
+  foldOthers,
+  groupNameFor,
+  normalizeRows,
+  UNGROUPED_NAME,
+} from "../src/tokens/aggregate";
+import { EMPTY_REGISTRIES, type Registries } from "../src/registry/registries";
+import { deepResolveTokensAsync } from "../src/tokens/resolve";
+import type { HassEntity, HomeAssistant } from "../src/ha-types";
+
+function entity(entity_id: string, state: string, attributes = {}): HassEntity {
+  return {
+    entity_id,
+    state,
+    attributes: { friendly_name: entity_id, ...attributes },
+    last_changed: "",
+    last_updated: "",
+  };
+}
+
+const hass: HomeAssistant = {
+  states: Object.fromEntries(
+    [
+      entity("sensor.kitchen_kettle", "2000", { device_class: "power", floor: "ground" }),
+      entity("sensor.kitchen_fridge", "150", { device_class: "power", floor: "ground" }),
+      entity("sensor.office_pc", "250", { device_class: "power", floor: "first" }),
+      entity("sensor.garage_tool", "unavailable", { device_class: "power" }),
+      entity("sensor.loose_plug", "50", { device_class: "power" }),
+    ].map((e) => [e.entity_id, e]),
+  ),
+  themes: {},
+};
+
+const reg: Registries = {
+  ...EMPTY_REGISTRIES,
+  entities: new Map([
+    ["sensor.kitchen_kettle", { entity_id: "sensor.kitchen_kettle", device_id: "kettle" }],
+    ["sensor.kitchen_fridge", { entity_id: "sensor.kitchen_fridge", area_id: "kitchen" }],
+    ["sensor.office_pc", { entity_id: "sensor.office_pc", area_id: "office" }],
+  ]),
+  devices: new Map([["kettle", { id: "kettle", area_id: "kitchen", name: "Kettle" }]]),
+  areas: [
+    { area_id: "kitchen", name: "Kitchen" },
+    { area_id: "office", name: "Office" },
+  ],
+};
+
+const noopHistory = async () => [];
+
+// ---------------------------------------------------------------------------
+// aggregateRows / groupNameFor
+// ---------------------------------------------------------------------------
+describe("aggregateRows", () => {
+  const rows = [
+    { id: "a", name: "a", value: 1, num: 1 },
+    { id: "b", name: "b", value: 3, num: 3 },
+    { id: "c", name: "c", value: "on" },
+    { id: "d", name: "d", value: 10, num: 10 },
+  ];
+  const groupOf = (r: { id?: string }) => (r.id === "d" ? "y" : r.id === "c" ? undefined : "x");
+
+  it.each([
+    ["sum", [4, null, 10]],
+    ["mean", [2, null, 10]],
+    ["min", [1, null, 10]],
+    ["max", [3, null, 10]],
+    ["count", [2, 1, 1]],
+  ] as const)("%s", (aggregate, expected) => {
+    const out = aggregateRows(rows, groupOf, aggregate);
+    expect(out.map((r) => r.name)).toEqual(["x", UNGROUPED_NAME, "y"]);
+    expect(out.map((r) => r.value)).toEqual(expected);
+  });
+});
+
+describe("groupNameFor", () => {
+  it("groups by area (entity or device), device, domain, class and attribute", () => {
+    expect(groupNameFor(hass, reg, "sensor.kitchen_kettle", "area")).toBe("Kitchen");
+    expect(groupNameFor(hass, reg, "sensor.kitchen_kettle", "device")).toBe("Kettle");
+    expect(groupNameFor(hass, reg, "sensor.loose_plug", "area")).toBeUndefined();
+    expect(groupNameFor(hass, reg, "sensor.loose_plug", "domain")).toBe("sensor");
+    expect(groupNameFor(hass, reg, "sensor.loose_plug", "device_class")).toBe("power");
+    expect(groupNameFor(hass, reg, "sensor.office_pc", "attribute:floor")).toBe("first");
+  });
+});
+
+describe("foldOthers / normalizeRows", () => {
+  const rows = [
+    { name: "a", value: 60, num: 60 },
+    { name: "b", value: 25, num: 25 },
+    { name: "c", value: 10, num: 10 },
+    { name: "d", value: 5, num: 5 },
+  ];
+
+  it("truncates without others and folds the remainder with it", () => {
+    expect(foldOthers(rows, 2, undefined, 100).map((r) => r.name)).toEqual(["a", "b"]);
+    expect(foldOthers(rows, 2, {}, 100).map((r) => [r.name, r.value])).toEqual([
+      ["a", 60],
+      ["b", 25],
+      ["Other", 15],
+    ]);
+  });
+
+  it("folds rows below min_share", () => {
+    expect(
+      foldOthers(rows, undefined, { label: "Rest", min_share: 0.1 }, 100).map((r) => r.name),
+    ).toEqual(["a", "b", "c", "Rest"]);
+    expect(foldOthers(rows, undefined, { min_share: 0.01 }, 100)).toHaveLength(4);
+  });
+
+  it("normalizes to percent or fraction of the total", () => {
+    expect(normalizeRows(rows, "percent", 200).map((r) => r.value)).toEqual([30, 12.5, 5, 2.5]);
+    expect(normalizeRows(rows, "fraction", 100).map((r) => r.value)).toEqual([
+      0.6, 0.25, 0.1, 0.05,
+    ]);
+    expect(normalizeRows(rows, "percent", 0).map((r) => r.value)).toEqual([null, null, null, null]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// deepResolveTokensAsync — $data group_by
+// ---------------------------------------------------------------------------
+describe("deepResolveTokensAsync — $data group_by", () => {
+  it("sums power per area, then sorts and limits the groups", async () => {
+    const result = await deepResolveTokensAsync(
+      {
+        $data: {
+          include: { device_class: "power" },
+          group_by: "area",
+          sort: "desc",
+          limit: 2,
+        },
+      },
+      { hass, watched: new Set(), fetchHistory: noopHistory, loadRegistries: async () => reg },
+    );
+
+    expect(result).toEqual([
+      { name: "Kitchen", value: 2150 },
+      { name: "Office", value: 250 },
+    ]);
+  });
+
+  it("feeds names and values modes", async () => {
+    const spec = {
+      entities: ["sensor.kitchen_kettle", "sensor.kitchen_fridge", "sensor.office_pc"],
+      group_by: "attribute:floor",
+      aggregate: "mean",
+    };
+    expect(
+      await deepResolveTokensAsync(
+        { $data: { ...spec, mode: "names" } },
+        { hass, watched: new Set(), fetchHistory: noopHistory },
+      ),
+    ).toEqual(["ground", "first"]);
+    expect(
+      await deepResolveTokensAsync(
+        { $data: { ...spec, mode: "values" } },
+        { hass, watched: new Set(), fetchHistory: noopHistory },
+      ),
+    ).toEqual([1075, 250]);
+  });
+});
+
+describe("deepResolveTokensAsync — $data others / normalize", () => {
+  it("keeps the top rows, folds the rest and normalizes against the full total", async () => {
+    const result = await deepResolveTokensAsync(
+      {
+        $data: {
+          entities: ["sensor.kitchen_kettle", "sensor.kitchen_fridge", "sensor.office_pc"],
+          sort: "desc",
+          limit: 1,
+          others: { label: "Rest" },
+          normalize: "percent",
+        },
+      },
+      { hass, watched: new Set(), fetchHistory: noopHistory },
+    );
+
+    expect(result).toEqual([
+      {
+        name: "sensor.kitchen_kettle",
+        value: expect.closeTo(83.33, 2),
+        entity_id: "sensor.kitchen_kettle",
+      },
+      { name: "Rest", value: expect.closeTo(16.67, 2) },
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { isMultiPath, parseAttrPath, readAttr } from "../src/tokens/attr-path";
+import { resolveEntityNowValue } from "../src/tokens/entity";
+import { deepResolveTokensAsync } from "../src/tokens/resolve";
+import { fetchHistoryPoints } from "../src/history/fetch";
+import type { HomeAssistant } from "../src/ha-types";
+
+const attributes = {
+  friendly_name: "Home",
+  hvac_modes: ["off", "heat", "cool"],
+  forecast: [
+    { datetime: "2026-03-01", condition: "sunny", temperature: 12 },
+    { datetime: "2026-03-02", condition: "rainy", temperature: 9 },
+    { datetime: "2026-03-03", condition: "rainy" },
+  ],
+  rates: [
+    { start: "2026-03-01T00:00:00Z", value_inc_vat: 0.21 },
+    { start: "2026-03-01T00:30:00Z", value_inc_vat: "0.35" },
+  ],
+  "odd.key": { "a]b": 1 },
+};
+
+// ---------------------------------------------------------------------------
+// readAttr
+// ---------------------------------------------------------------------------
+describe("readAttr", () => {
+  it("reads keys and indices", () => {
+    expect(readAttr(attributes, "forecast[0].temperature")).toBe(12);
+    expect(readAttr(attributes, "forecast[-1].condition")).toBe("rainy");
+    expect(readAttr(attributes, "hvac_modes")).toEqual(["off", "heat", "cool"]);
+    expect(readAttr(attributes, "hvac_modes[1]")).toBe("heat");
+    expect(readAttr(attributes, "forecast[5].temperature")).toBeUndefined();
+    expect(readAttr(attributes, "missing.deeper")).toBeUndefined();
+    // Object.prototype keys are not attributes
+    expect(readAttr(attributes, "constructor")).toBeUndefined();
+    expect(readAttr(attributes, "forecast[0].toString")).toBeUndefined();
+  });
+
+  it("reads a list for wildcards, keeping missing values aligned", () => {
+    expect(readAttr(attributes, "rates[*].value_inc_vat")).toEqual([0.21, "0.35"]);
+    expect(readAttr(attributes, "forecast[*].temperature")).toEqual([12, 9, undefined]);
+    expect(readAttr({ a: { x: 1, y: 2 } }, "a[*]")).toEqual([1, 2]);
+  });
+
+  it("filters list items", () => {
+    expect(readAttr(attributes, "forecast[?condition=rainy].datetime")).toEqual([
+      "2026-03-02",
+      "2026-03-03",
+    ]);
+    expect(readAttr(attributes, "forecast[?temperature >= 10].datetime")).toEqual(["2026-03-01"]);
+    expect(readAttr(attributes, "forecast[?temperature].datetime")).toHaveLength(2);
+    expect(readAttr(attributes, 'rates[?start > "2026-03-01T00:15:00Z"].value_inc_vat')).toEqual([
+      "0.35",
+    ]);
+    expect(readAttr(attributes, "rates[?value_inc_vat < 0.3].start")).toEqual([
+      "2026-03-01T00:00:00Z",
+    ]);
+  });
+
+  it("reads quoted keys and whole-path attribute names", () => {
+    expect(readAttr(attributes, '["odd.key"]["a]b"]')).toBe(1);
+    expect(readAttr(attributes, "odd.key")).toEqual({ "a]b": 1 });
+  });
+
+  it("rejects malformed paths", () => {
+    for (const path of ["a..b", "a[", "a]", "a[x y]", "a.", ""]) {
+      expect(() => parseAttrPath(path), path).toThrow(/\$attr: /);
+    }
+    expect(isMultiPath("a[*].b")).toBe(true);
+    expect(isMultiPath("a[?b=1]")).toBe(true);
+    expect(isMultiPath("a[0].b")).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// tokens and generators
+// ---------------------------------------------------------------------------
+describe("attribute paths in tokens", () => {
+  const hass = {
+    states: {
+      "weather.home": {
+        entity_id: "weather.home",
+        state: "sunny",
+        attributes,
+        last_changed: "",
+        last_updated: "",
+      },
+    },
+    themes: {},
+  } as HomeAssistant;
+  const noopHistory = async () => [];
+  const resolve = (input: unknown) =>
+    deepResolveTokensAsync(input, { hass, watched: new Set(), fetchHistory: noopHistory });
+
+  it("$entity reads a path and transforms each wildcard item", async () => {
+    expect(await resolve({ $entity: "weather.home", $attr: "forecast[1].temperature" })).toBe(9);
+    expect(
+      await resolve({ $entity: "weather.home", $attr: "rates[*].value_inc_vat", $scale: 100 }),
+    ).toEqual([21, 35]);
+    expect(
+      await resolve({ $entity: "weather.home", $attr: "forecast[*].temperature", $default: 0 }),
+    ).toEqual([12, 9, 0]);
+  });
+
+  it("$data and resolveEntityNowValue read paths", async () => {
+    expect(
+      await resolve({
+        $data: { entities: ["weather.home"], attr: "forecast[0].temperature", mode: "values" },
+      }),
+    ).toEqual([12]);
+    expect(
+      resolveEntityNowValue(hass, "weather.home", { attr: "hvac_modes[*]" }, new Set()),
+    ).toEqual(["off", "heat", "cool"]);
+  });
+
+  it("$history reads a path from each state's attributes", async () => {
+    const NOW = Date.parse("2026-03-01T12:00:00.000Z");
+    const callWS = async () => ({
+      "weather.home": [
+        { s: "sunny", a: { forecast: [{ temperature: 12 }] }, lu: (NOW - 20_000) / 1000 },
+        { s: "sunny", a: { forecast: [{ temperature: 14 }] }, lu: (NOW - 10_000) / 1000 },
+      ],
+    });
+
+    const points = await fetchHistoryPoints(
+      { ...hass, callWS } as HomeAssistant,
+      { entities: ["weather.home"], attr: "forecast[0].temperature" },
+      NOW - 3600_000,
+      NOW,
+    );
+
+    expect(points["weather.home"]).toEqual([
+      [NOW - 20_000, 12],
+      [NOW - 10_000, 14],
+    ]);
+  });
+});
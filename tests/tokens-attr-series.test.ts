@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { attrSeries, parseWindowTime } from "../src/tokens/attr-series";
+import { deepResolveTokensAsync } from "../src/tokens/resolve";
+import type { HomeAssistant } from "../src/ha-types";
+
+const NOW = Date.parse("2026-03-01T10:15:00Z");
+const HALF_HOUR = 1800_000;
+const T0 = Date.parse("2026-03-01T10:00:00Z");
+
+const rates = [
+  { start: "2026-03-01T10:30:00Z", end: "2026-03-01T11:00:00Z", value_inc_vat: "0.35" },
+  { start: "2026-03-01T10:00:00Z", end: "2026-03-01T10:30:00Z", value_inc_vat: 0.21 },
+  { start: "2026-03-01T09:30:00Z", end: "2026-03-01T10:00:00Z", value_inc_vat: 0.05 },
+  { start: "2026-03-02T10:00:00Z", end: "2026-03-02T10:30:00Z", value_inc_vat: 0.1 },
+];
+
+const hass = {
+  states: {
+    "event.rates": {
+      entity_id: "event.rates",
+      state: "2026-03-01T00:00:00Z",
+      attributes: { rates, unit_of_measurement: "GBP/kWh" },
+      last_changed: "",
+      last_updated: "",
+    },
+    "sensor.solcast": {
+      entity_id: "sensor.solcast",
+      state: "3.2",
+      attributes: {
+        unit_of_measurement: "kW",
+        detailedForecast: [
+          { period_start: T0 / 1000, pv_estimate: 1.2 },
+          { period_start: (T0 + HALF_HOUR) / 1000, pv_estimate: 2.5 },
+        ],
+      },
+      last_changed: "",
+      last_updated: "",
+    },
+  },
+  themes: {},
+} as HomeAssistant;
+
+const spec = {
+  entity: "event.rates",
+  attr: "rates",
+  time_field: "start",
+  end_field: "end",
+  value_field: "value_inc_vat",
+};
+
+// ---------------------------------------------------------------------------
+// attrSeries
+// ---------------------------------------------------------------------------
+describe("attrSeries", () => {
+  it("builds sorted points, keeping items that overlap the window", () => {
+    expect(attrSeries(hass, { ...spec, start: "now", end: "+12h" }, NOW)).toEqual([
+      [T0, 0.21],
+      [T0 + HALF_HOUR, 0.35],
+    ]);
+    expect(attrSeries(hass, spec, NOW)).toHaveLength(4);
+  });
+
+  it("emits both edges of every item for step charts", () => {
+    expect(
+      attrSeries(
+        hass,
+        { ...spec, mode: "step", start: "now", end: "+1h", transforms: { scale: 100 } },
+        NOW,
+      ),
+    ).toEqual([
+      [T0, 21],
+      [T0 + HALF_HOUR, 21],
+      [T0 + HALF_HOUR, 35],
+      [T0 + 2 * HALF_HOUR, 35],
+    ]);
+  });
+
+  it("builds markArea ranges, coloured by value", () => {
+    const areas = attrSeries(
+      hass,
+      {
+        ...spec,
+        attr: "rates[?value_inc_vat <= 0.1]",
+        mode: "areas",
+        color: {
+          thresholds: [
+            [0.08, "#00ff00"],
+            [1, "#ffaa00"],
+          ],
+        },
+      },
+      NOW,
+    );
+    expect(areas).toEqual([
+      [{ xAxis: T0 - HALF_HOUR, itemStyle: { color: "#00ff00" } }, { xAxis: T0 }],
+      [
+        { xAxis: Date.parse("2026-03-02T10:00:00Z"), itemStyle: { color: "#ffaa00" } },
+        { xAxis: Date.parse("2026-03-02T10:30:00Z") },
+      ],
+    ]);
+  });
+
+  it("reads epoch-second times, ends items at the next start and converts units", () => {
+    const solcast = {
+      entity: "sensor.solcast",
+      attr: "detailedForecast",
+      time_field: "period_start",
+      value_field: "pv_estimate",
+      unit: "W",
+    };
+    expect(attrSeries(hass, { ...solcast, mode: "step" }, NOW)).toEqual([
+      [T0, 1200],
+      [T0 + HALF_HOUR, 1200],
+      [T0 + HALF_HOUR, 2500],
+    ]);
+  });
+
+  it("returns nothing for a missing entity or a non-list attribute", () => {
+    expect(attrSeries(hass, { ...spec, entity: "event.nope" }, NOW)).toEqual([]);
+    expect(attrSeries(hass, { ...spec, attr: "unit_of_measurement" }, NOW)).toEqual([]);
+  });
+});
+
+describe("parseWindowTime", () => {
+  it("reads time expressions, ISO and epoch ms", () => {
+    expect(parseWindowTime("now", NOW)).toBe(NOW);
+    expect(parseWindowTime("+24h", NOW)).toBe(NOW + 24 * 3600_000);
+    expect(parseWindowTime("-30m", NOW)).toBe(NOW - HALF_HOUR);
+    expect(parseWindowTime("+1.5d", NOW)).toBe(NOW + 36 * 3600_000);
+    expect(parseWindowTime("2026-03-01T10:00:00Z", NOW)).toBe(T0);
+    expect(parseWindowTime(T0, NOW)).toBe(T0);
+    expect(parseWindowTime("tomorrow", NOW, { timeZone: "UTC" })).toBe(
+      Date.parse("2026-03-02T00:00:00Z"),
+    );
+    expect(() => parseWindowTime("soon", NOW)).toThrow(/\$attr_series: "soon"/);
+  });
+});
+
+describe("$attr_series in the option tree", () => {
+  it("resolves and watches the entity", async () => {
+    const watched = new Set<string>();
+    const result = await deepResolveTokensAsync(
+      { series: [{ type: "line", data: { $attr_series: spec } }] },
+      { hass, watched, fetchHistory: async () => [] },
+    );
+    expect((result as { series: Array<{ data: unknown[] }> }).series[0].data).toHaveLength(4);
+    expect([...watched]).toEqual(["event.rates"]);
+  });
+});
@@ -4,6 +4,7 @@ import {
   isHistoryGenerator,
   isStatisticsGenerator,
   isTokenObject,
+  containsEntitySelector,
   containsHistoryToken,
 } from "../src/tokens/guards";
 
@@ -181,3 +182,28 @@ describe("containsHistoryToken", () => {
     expect(containsHistoryToken({ $entity: "sensor.x" })).toBe(false);
   });
 });
+
+// ---------------------------------------------------------------------------
+// containsEntitySelector
+// ---------------------------------------------------------------------------
+describe("containsEntitySelector", () => {
+  it("finds include selectors in any generator", () => {
+    const option = {
+      series: [
+        { data: { $history: { entities: ["sensor.a"] } } },
+        { data: { $data: { include: { domain: "light" }, mode: "pairs" } } },
+      ],
+    };
+    expect(containsEntitySelector(option)).toBe(true);
+    expect(
+      containsEntitySelector({ $statistics: { include: [{ entity_glob: "sensor.*" }] } }),
+    ).toBe(true);
+  });
+
+  it("ignores explicit entity lists and exclude-only specs", () => {
+    expect(containsEntitySelector({ $data: { entities: ["sensor.a"] } })).toBe(false);
+    expect(
+      containsEntitySelector({ $history: { entities: ["sensor.a"], exclude: { domain: "x" } } }),
+    ).toBe(false);
+  });
+});
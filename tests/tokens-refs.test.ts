@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from "vitest";
+import { expandRefs } from "../src/tokens/refs";
+import { deepResolveTokensAsync } from "../src/tokens/resolve";
+import { fetchHistory } from "../src/history/fetch";
+import type { HomeAssistant } from "../src/ha-types";
+import type { HistoryGenerator } from "../src/types";
+
+// ---------------------------------------------------------------------------
+// expandRefs
+// ---------------------------------------------------------------------------
+describe("expandRefs", () => {
+  it("replaces $ref and $var with the referenced value", () => {
+    const config = {
+      vars: { accent: "#ff9800", colors: ["#111", "#222"], axis: { type: "value", min: 0 } },
+      option: {
+        color: { $ref: "vars.colors" },
+        yAxis: { $ref: "vars.axis" },
+        series: [
+          { itemStyle: { color: { $var: "accent" } } },
+          { color: { $ref: "vars.colors[1]" } },
+        ],
+      },
+    };
+
+    expect(expandRefs(config.option, config)).toEqual({
+      color: ["#111", "#222"],
+      yAxis: { type: "value", min: 0 },
+      series: [{ itemStyle: { color: "#ff9800" } }, { color: "#222" }],
+    });
+  });
+
+  it("deep-merges local overrides; lists and scalars replace", () => {
+    const config = {
+      vars: {
+        power: { $history: { entities: ["sensor.a"], hours: 24, sample: { max_points: 200 } } },
+      },
+      option: {
+        a: { $ref: "vars.power", $history: { hours: 48, sample: { method: "last" } } },
+        b: { $ref: "vars.power", $history: { entities: ["sensor.b"] } },
+      },
+    };
+
+    expect(expandRefs(config.option, config)).toEqual({
+      a: {
+        $history: {
+          entities: ["sensor.a"],
+          hours: 48,
+          sample: { max_points: 200, method: "last" },
+        },
+      },
+      b: { $history: { entities: ["sensor.b"], hours: 24, sample: { max_points: 200 } } },
+    });
+    // the var itself is untouched
+    expect(config.vars.power.$history.hours).toBe(24);
+  });
+
+  it("expands nested references and shares one object per path", () => {
+    const config = {
+      vars: {
+        base: { type: "line", smooth: true },
+        power: { $ref: "vars.base", name: "Power" },
+      },
+      option: { series: [{ $var: "power" }, { $var: "power" }] },
+    };
+
+    const out = expandRefs(config.option, config) as { series: unknown[] };
+    expect(out.series[0]).toEqual({ type: "line", smooth: true, name: "Power" });
+    expect(out.series[0]).toBe(out.series[1]);
+  });
+
+  it("reports cycles with the whole chain", () => {
+    const config = {
+      vars: { a: { $ref: "vars.b" }, b: { nested: { $var: "a" } } },
+      option: { x: { $var: "a" } },
+    };
+
+    expect(() => expandRefs(config.option, config)).toThrowError(
+      "reference cycle vars.a → vars.b → vars.a",
+    );
+    try {
+      expandRefs(config.option, config);
+    } catch (err) {
+      expect((err as { code?: string }).code).toBe("ECHARTS_RAW_CARD_REF_CYCLE");
+    }
+  });
+
+  it("rejects unknown paths and overrides on non-mappings", () => {
+    const config = { vars: { accent: "#fff" }, option: {} };
+
+    expect(() => expandRefs({ c: { $var: "acent" } }, config)).toThrowError(
+      '"vars.acent" (used at option.c) does not exist',
+    );
+    expect(() => expandRefs({ c: { $var: "accent", x: 1 } }, config)).toThrowError(
+      "is not a mapping",
+    );
+  });
+
+  it("doesn't resolve Object.prototype members", () => {
+    const config = { vars: { accent: "#fff" }, option: {} };
+    for (const ref of ["constructor", "vars.toString", "vars.accent.length.x"]) {
+      expect(() => expandRefs({ c: { $ref: ref } }, config), ref).toThrowError("does not exist");
+    }
+    expect(() => expandRefs({ c: { $var: "hasOwnProperty" } }, config)).toThrowError(
+      '"vars.hasOwnProperty" (used at option.c) does not exist',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Shared $history vars
+// ---------------------------------------------------------------------------
+describe("shared $history vars", () => {
+  it("fetches a $history var referenced twice only once", async () => {
+    const callWS = vi.fn().mockResolvedValue({
+      "sensor.a": [
+        { s: "1", lu: 1_700_000_000 },
+        { s: "2", lu: 1_700_000_060 },
+      ],
+    });
+    const hass = { states: {}, themes: {}, callWS } as unknown as HomeAssistant;
+    const cache = new Map();
+
+    const config = {
+      vars: { power: { $history: { entities: ["sensor.a"], hours: 1 } } },
+      option: { series: [{ data: { $var: "power" } }, { data: { $var: "power" } }] },
+    };
+
+    const resolved = (await deepResolveTokensAsync(expandRefs(config.option, config), {
+      hass,
+      watched: new Set(),
+      fetchHistory: (spec: HistoryGenerator["$history"]) =>
+        fetchHistory({ hass, spec, watchedEntities: new Set(), cache, nowMs: Date.now() }),
+    })) as { series: Array<{ data: unknown }> };
+
+    expect(callWS).toHaveBeenCalledTimes(1);
+    expect(resolved.series[0].data).toEqual(resolved.series[1].data);
+  });
+});
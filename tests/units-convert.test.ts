@@ -0,0 +1,191 @@
+import { describe, it, expect, vi } from "vitest";
+import { convertUnit, effectiveUnit, entityUnitConverter, unitClass } from "../src/units/convert";
+import { fetchHistoryPoints, historyUnitWarnings } from "../src/history/fetch";
+import { deepResolveTokensAsync } from "../src/tokens/resolve";
+import type { HassEntity, HomeAssistant } from "../src/ha-types";
+
+function entity(entity_id: string, state: string, unit?: string): HassEntity {
+  const attributes: Record<string, unknown> = { friendly_name: entity_id };
+  if (unit) attributes.unit_of_measurement = unit;
+  return { entity_id, state, attributes, last_changed: "", last_updated: "" };
+}
+
+// ---------------------------------------------------------------------------
+// convertUnit
+// ---------------------------------------------------------------------------
+describe("convertUnit", () => {
+  it.each([
+    [1500, "W", "kW", 1.5],
+    [2, "MW", "kW", 2000],
+    [3.6, "MJ", "kWh", 1],
+    [2500, "Wh", "kWh", 2.5],
+    [100, "°C", "°F", 212],
+    [32, "°F", "°C", 0],
+    [0, "°C", "K", 273.15],
+    [1, "m³", "L", 1000],
+    [1, "gal", "L", 3.785411784],
+    [1013.25, "hPa", "bar", 1.01325],
+    [1, "psi", "kPa", 6.894757293168],
+    [36, "km/h", "m/s", 10],
+    [1, "mph", "km/h", 1.609344],
+    [1, "GiB", "MiB", 1024],
+    [1, "MB", "kbit", 8000],
+  ])("%s %s → %s", (value, from, to, expected) => {
+    expect(convertUnit(value, from, to)).toBeCloseTo(expected, 9);
+  });
+
+  it("converts temperature differences without the offset", () => {
+    expect(convertUnit(1, "°C", "°F", true)).toBeCloseTo(1.8, 9);
+    expect(convertUnit(9, "°F", "K", true)).toBeCloseTo(5, 9);
+    expect(convertUnit(1500, "W", "kW", true)).toBe(1.5);
+  });
+
+  it("returns undefined across classes or for unknown units", () => {
+    expect(convertUnit(1, "W", "kWh")).toBeUndefined();
+    expect(convertUnit(1, "°C", "%")).toBeUndefined();
+    expect(convertUnit(1, "lx", "lm")).toBeUndefined();
+    expect(convertUnit(20, "°C", "constructor")).toBeUndefined();
+    expect(unitClass("toString")).toBeUndefined();
+    // the same unit never needs a table entry
+    expect(convertUnit(5, "lx", "lx")).toBe(5);
+  });
+
+  it("classifies units", () => {
+    expect(["kW", "kWh", "°F", "ft³", "inHg", "kn", "TiB"].map(unitClass)).toEqual([
+      "power",
+      "energy",
+      "temperature",
+      "volume",
+      "pressure",
+      "speed",
+      "data_size",
+    ]);
+    expect(unitClass("kw")).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// entityUnitConverter / effectiveUnit
+// ---------------------------------------------------------------------------
+describe("entityUnitConverter", () => {
+  it("converts from the entity's unit_of_measurement", () => {
+    const convert = entityUnitConverter(entity("sensor.a", "0", "W"), "sensor.a", "kW");
+    expect(convert?.(2500)).toBe(2.5);
+    expect(entityUnitConverter(entity("sensor.a", "0", "kW"), "sensor.a", "kW")).toBeUndefined();
+  });
+
+  it("reports what it can't convert and passes values through", () => {
+    const warn = vi.fn();
+    const st = entity("sensor.humidity", "40", "%");
+    const bare = entity("sensor.bare", "1");
+
+    expect(entityUnitConverter(st, st.entity_id, "kW", warn)).toBeUndefined();
+    expect(entityUnitConverter(bare, bare.entity_id, "kW", warn)).toBeUndefined();
+    expect(entityUnitConverter(entity("sensor.a", "0", "W"), "sensor.a", "kW", warn)).toBeDefined();
+
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn.mock.calls[0][0]).toContain(`sensor.humidity can't be converted from "%"`);
+    expect(warn.mock.calls[1][0]).toContain("sensor.bare has no unit_of_measurement");
+  });
+
+  it("reports the unit values end up in", () => {
+    expect(effectiveUnit(entity("sensor.a", "0", "W"), "kW")).toBe("kW");
+    expect(effectiveUnit(entity("sensor.a", "0", "%"), "kW")).toBe("%");
+    expect(effectiveUnit(entity("sensor.a", "0", "W"), undefined)).toBe("W");
+    expect(effectiveUnit(undefined, "kW")).toBe("");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// tokens and generators
+// ---------------------------------------------------------------------------
+describe("unit-aware tokens", () => {
+  const hass = {
+    states: {
+      "sensor.heater": entity("sensor.heater", "1500", "W"),
+      "sensor.pump": entity("sensor.pump", "0.75", "kW"),
+      "sensor.outside": entity("sensor.outside", "50", "°F"),
+    },
+    themes: {},
+  } as HomeAssistant;
+  const noopHistory = async () => [];
+  const resolve = (input: unknown) =>
+    deepResolveTokensAsync(input, { hass, watched: new Set(), fetchHistory: noopHistory });
+
+  it("converts $entity values before the number transforms", async () => {
+    expect(await resolve({ $entity: "sensor.heater", $unit: "kW" })).toBe(1.5);
+    expect(await resolve({ $entity: "sensor.outside", $unit: "°C", $round: 1 })).toBe(10);
+  });
+
+  it("passes conversion problems to the context's warn", async () => {
+    const warn = vi.fn();
+    const result = await deepResolveTokensAsync(
+      {
+        value: { $entity: "sensor.outside", $unit: "kW" },
+        data: { $data: { entities: ["sensor.heater", "sensor.outside"], unit: "kW" } },
+      },
+      { hass, watched: new Set(), fetchHistory: noopHistory, warn },
+    );
+
+    expect(result).toMatchObject({ value: 50 });
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledWith(
+      '[echarts-raw-card] unit: sensor.outside can\'t be converted from "°F" to "kW"; its values are not converted',
+    );
+  });
+
+  it("lists $history entities that unit can't apply to", () => {
+    expect(
+      historyUnitWarnings(hass, { entities: ["sensor.heater", "sensor.outside"], unit: "kW" }),
+    ).toEqual([expect.stringContaining("sensor.outside can't be converted")]);
+    expect(historyUnitWarnings(hass, { entities: ["sensor.outside"] })).toEqual([]);
+  });
+
+  it("converts each $data entity to one unit", async () => {
+    const result = await resolve({
+      $data: { entities: ["sensor.heater", "sensor.pump"], unit: "kW", sort: "desc" },
+    });
+    expect(result).toEqual([
+      { name: "sensor.heater", value: 1.5, entity_id: "sensor.heater" },
+      { name: "sensor.pump", value: 0.75, entity_id: "sensor.pump" },
+    ]);
+  });
+
+  it("$unit_of returns the declared or converted unit", async () => {
+    expect(
+      await resolve({
+        declared: { $unit_of: "sensor.heater" },
+        converted: { $unit_of: "sensor.heater", $unit: "kW" },
+        missing: { $unit_of: "sensor.nope", $default: "W" },
+      }),
+    ).toEqual({ declared: "W", converted: "kW", missing: "W" });
+  });
+
+  it("{x:unit} shows the converted unit in $format", async () => {
+    const result = await resolve({
+      $format: "{p} {p:unit}",
+      vars: { p: { $entity: "sensor.heater", $unit: "kW" } },
+    });
+    expect(result).toBe("1.5 kW");
+  });
+
+  it("converts $history points per entity", async () => {
+    const NOW = Date.parse("2026-03-01T12:00:00.000Z");
+    const callWS = vi.fn().mockResolvedValue({
+      "sensor.heater": [{ s: "2000", lu: (NOW - 10_000) / 1000 }],
+      "sensor.pump": [{ s: "1.5", lu: (NOW - 10_000) / 1000 }],
+    });
+
+    const points = await fetchHistoryPoints(
+      { ...hass, callWS },
+      { entities: ["sensor.heater", "sensor.pump"], unit: "kW" },
+      NOW - 3600_000,
+      NOW,
+    );
+
+    expect(points).toEqual({
+      "sensor.heater": [[NOW - 10_000, 2]],
+      "sensor.pump": [[NOW - 10_000, 1.5]],
+    });
+  });
+});
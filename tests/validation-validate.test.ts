@@ -0,0 +1,751 @@
+import { describe, it, expect } from "vitest";
+import { formatIssues, validateCardConfig, validateOptionTree } from "../src/validation/validate";
+import { registerTemplate } from "../src/extends/templates";
+import { closestMatch, editDistance } from "../src/validation/suggest";
+
+function card(option: unknown, extra?: Record<string, unknown>) {
+  return { type: "custom:echarts-raw-card", option, ...extra };
+}
+
+function paths(issues: Array<{ path: string }>): string[] {
+  return issues.map((i) => i.path);
+}
+
+// ---------------------------------------------------------------------------
+// suggest
+// ---------------------------------------------------------------------------
+describe("editDistance / closestMatch", () => {
+  it("computes edit distance", () => {
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("", "abc")).toBe(3);
+    expect(editDistance("same", "same")).toBe(0);
+    expect(editDistance("drak", "dark")).toBe(1);
+  });
+
+  it("suggests close spellings only", () => {
+    expect(closestMatch("$entitiy", ["$entity", "$data"])).toBe("$entity");
+    expect(closestMatch("hour", ["hours", "start", "end"])).toBe("hours");
+    expect(closestMatch("average", ["mean", "min", "max"])).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateCardConfig — top level
+// ---------------------------------------------------------------------------
+describe("validateCardConfig", () => {
+  it("accepts a minimal valid config", () => {
+    expect(validateCardConfig(card({ series: [] }))).toEqual([]);
+  });
+
+  it("requires option to be a mapping", () => {
+    const issues = validateCardConfig(card([1, 2]));
+    expect(issues).toEqual([expect.objectContaining({ level: "error", path: "option" })]);
+  });
+
+  it("reports missing option", () => {
+    const issues = validateCardConfig({ type: "custom:echarts-raw-card" });
+    expect(issues[0]).toMatchObject({ level: "error", path: "option", message: "is required" });
+  });
+
+  it("warns about unknown card keys with a suggestion", () => {
+    const issues = validateCardConfig(card({}, { rendrer: "svg" }));
+    expect(issues).toHaveLength(1);
+    expect(issues[0].level).toBe("warning");
+    expect(issues[0].message).toContain('did you mean "renderer"');
+  });
+
+  it("rejects bad renderer and debug values", () => {
+    const issues = validateCardConfig(card({}, { renderer: "webgl", debug: { max_chars: -1 } }));
+    expect(paths(issues)).toEqual(["renderer", "debug.max_chars"]);
+    expect(issues.every((i) => i.level === "error")).toBe(true);
+  });
+
+  it("warns on numeric height", () => {
+    const issues = validateCardConfig(card({}, { height: 300 }));
+    expect(issues[0]).toMatchObject({ level: "warning", path: "height" });
+    expect(issues[0].message).toContain('"300px"');
+  });
+
+  it("accepts theme keywords, names and inline objects", () => {
+    expect(validateCardConfig(card({}, { theme: "dark" }))).toEqual([]);
+    expect(validateCardConfig(card({}, { theme: "company" }))).toEqual([]);
+    expect(validateCardConfig(card({}, { theme: { color: ["#f00"] } }))).toEqual([]);
+  });
+
+  it("warns when a theme name looks like a misspelled keyword", () => {
+    const issues = validateCardConfig(card({}, { theme: "drak" }));
+    expect(issues[0]).toMatchObject({ level: "warning", path: "theme" });
+    expect(issues[0].message).toContain('did you mean "dark"');
+  });
+
+  it("ignores Lovelace layout keys", () => {
+    expect(validateCardConfig(card({}, { grid_options: { columns: 6 } }))).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateOptionTree — tokens
+// ---------------------------------------------------------------------------
+describe("validateOptionTree", () => {
+  it("accepts valid tokens anywhere in the tree", () => {
+    const option = {
+      title: { text: { $entity: "sensor.temp", $round: 1 } },
+      series: [
+        { data: { $data: { entities: ["sensor.a", { id: "sensor.b", name: "B" }] } } },
+        { data: { $history: { entities: ["sensor.a"], hours: 12, sample: { max_points: 200 } } } },
+        { data: { $statistics: { entities: ["sensor.a"], stat_type: "sum", period: "day" } } },
+      ],
+    };
+    expect(validateOptionTree(option)).toEqual([]);
+  });
+
+  it("flags a misspelled token root with a suggestion", () => {
+    const issues = validateOptionTree({ series: [{ data: [{ $entitiy: "sensor.x" }] }] });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      level: "warning",
+      path: "option.series[0].data[0].$entitiy",
+    });
+    expect(issues[0].message).toContain('did you mean "$entity"');
+  });
+
+  it("accepts ECharts' own $action on graphic elements", () => {
+    const issues = validateOptionTree({
+      graphic: [{ type: "text", id: "label", $action: "merge", style: { text: "hi" } }],
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it("flags token fields used without $entity", () => {
+    const issues = validateOptionTree({ value: { $attr: "x" } });
+    expect(issues[0].message).toContain('next to "$entity"');
+  });
+
+  it("flags unknown $-fields inside an $entity token as errors", () => {
+    const issues = validateOptionTree({ value: { $entity: "sensor.x", $scael: 2 } });
+    expect(issues[0]).toMatchObject({ level: "error", path: "option.value.$scael" });
+    expect(issues[0].message).toContain('"$scale"');
+  });
+
+  it("gives path-precise errors inside $history", () => {
+    const option = {
+      series: [
+        {},
+        {},
+        {
+          data: {
+            $history: { entities: ["sensor.a"], hour: 24, sample: { max_points: "lots" } },
+          },
+        },
+      ],
+    };
+    const issues = validateOptionTree(option);
+    expect(issues).toContainEqual(
+      expect.objectContaining({
+        level: "error",
+        path: "option.series[2].data.$history.sample.max_points",
+      }),
+    );
+    expect(issues).toContainEqual(
+      expect.objectContaining({
+        level: "warning",
+        path: "option.series[2].data.$history.hour",
+        message: 'unknown key "hour" — did you mean "hours"?',
+      }),
+    );
+  });
+
+  it("rejects unknown stat_type and lists the allowed values", () => {
+    const issues = validateOptionTree({
+      data: { $statistics: { entities: ["sensor.a"], stat_type: "average" } },
+    });
+    expect(issues).toHaveLength(1);
+    expect(issues[0].level).toBe("error");
+    expect(issues[0].message).toContain('"mean"');
+  });
+
+  it("suggests close enum values", () => {
+    const issues = validateOptionTree({
+      v: { $entity: "sensor.a", $coerce: "numbr" },
+    });
+    expect(issues[0].message).toContain('did you mean "number"');
+  });
+
+  it("requires entities on generators", () => {
+    const issues = validateOptionTree({ data: { $data: { mode: "pairs" } } });
+    expect(issues[0]).toMatchObject({ level: "error", path: "option.data.$data.entities" });
+  });
+
+  it("warns about keys next to a generator", () => {
+    const issues = validateOptionTree({ data: { $data: { entities: [] }, type: "pie" } });
+    expect(issues[0]).toMatchObject({ level: "warning", path: "option.data.type" });
+  });
+
+  it("warns about entity ids that look wrong", () => {
+    const issues = validateOptionTree({ v: { $entity: "temperature" } });
+    expect(issues[0].level).toBe("warning");
+  });
+
+  it("validates nested transforms and $map", () => {
+    const issues = validateOptionTree({
+      d: { $data: { entities: ["sensor.a"], transforms: { map: "lg", clamp: [10, 1] } } },
+    });
+    expect(paths(issues)).toEqual([
+      "option.d.$data.transforms.map",
+      "option.d.$data.transforms.clamp",
+    ]);
+    expect(issues.map((i) => i.level)).toEqual(["error", "warning"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatIssues
+// ---------------------------------------------------------------------------
+describe("formatIssues", () => {
+  it("renders one issue per line", () => {
+    expect(
+      formatIssues([
+        { level: "error", path: "a.b", message: "bad" },
+        { level: "warning", path: "", message: "root" },
+      ]),
+    ).toBe("a.b: bad\nroot");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateCardConfig — actions
+// ---------------------------------------------------------------------------
+describe("validateCardConfig — actions", () => {
+  it("accepts action bindings", () => {
+    const issues = validateCardConfig(
+      card(
+        {},
+        {
+          actions: [
+            { event: "click", data_name: ["A", "B"], action: "more-info" },
+            { event: "hold", action: "call-service", service: "switch.toggle", data: {} },
+          ],
+        },
+      ),
+    );
+    expect(issues).toEqual([]);
+  });
+
+  it("rejects unknown events and action types", () => {
+    const issues = validateCardConfig(
+      card({}, { actions: [{ event: "tap", action: "more_info" }, { event: "click" }] }),
+    );
+    expect(paths(issues)).toEqual(["actions[0].event", "actions[0].action", "actions[1].action"]);
+    expect(issues[1].message).toContain('did you mean "more-info"');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateOptionTree — $template
+// ---------------------------------------------------------------------------
+describe("validateOptionTree — $template", () => {
+  it("accepts template tokens with value options", () => {
+    expect(
+      validateOptionTree({
+        yAxis: { max: { $template: "{{ 1 }}", $coerce: "number", $round: 0 } },
+      }),
+    ).toEqual([]);
+  });
+
+  it("accepts templates inside generator specs", () => {
+    const issues = validateOptionTree({
+      data: { $data: { entities: { $template: "{{ ids }}" }, limit: { $template: "{{ 3 }}" } } },
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it("rejects unknown keys and a non-string template", () => {
+    const issues = validateOptionTree({ min: { $template: 1, $attr: "x" } });
+    expect(paths(issues)).toEqual(["option.min.$template", "option.min.$attr"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateOptionTree — $expr
+// ---------------------------------------------------------------------------
+describe("validateOptionTree — $expr", () => {
+  it("accepts an expression whose variables are all bound", () => {
+    const issues = validateOptionTree({
+      value: { $expr: "a - b", vars: { a: { $entity: "sensor.a" }, b: 2 }, $round: 1 },
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it("reports syntax errors and unbound variables", () => {
+    expect(validateOptionTree({ v: { $expr: "a +", vars: { a: 1 } } })[0].message).toContain(
+      "unexpected end of expression",
+    );
+
+    const issues = validateOptionTree({ v: { $expr: "grid - solr", vars: { grid: 1, solar: 2 } } });
+    expect(paths(issues)).toEqual(["option.v.$expr"]);
+    expect(issues[0].message).toContain('did you mean "solar"');
+  });
+
+  it("validates tokens inside vars", () => {
+    const issues = validateOptionTree({
+      v: { $expr: "a", vars: { a: { $entity: "sensor.a", $rnd: 1 } } },
+    });
+    expect(paths(issues)).toEqual(["option.v.vars.a.$rnd"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateOptionTree — $formatter
+// ---------------------------------------------------------------------------
+describe("validateOptionTree — $formatter", () => {
+  it("accepts built-ins with their options", () => {
+    const issues = validateOptionTree({
+      a: { formatter: { $formatter: "energy", unit: "kWh", decimals: 2 } },
+      b: { formatter: { $formatter: "date", pattern: "HH:mm", time_zone: "UTC" } },
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it("checks built-in options and warns about unknown formatters", () => {
+    const issues = validateOptionTree({
+      a: { $formatter: "duration", unit: "hours" },
+      b: { $formatter: "enrgy" },
+    });
+    expect(paths(issues)).toEqual(["option.a.unit", "option.b.$formatter"]);
+    expect(issues[1]).toMatchObject({ level: "warning" });
+    expect(issues[1].message).toContain('did you mean "energy"');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateOptionTree — $format
+// ---------------------------------------------------------------------------
+describe("validateOptionTree — $format", () => {
+  it("accepts bound placeholders", () => {
+    const issues = validateOptionTree({
+      text: { $format: "{t} {t:unit} {{raw}}", vars: { t: { $entity: "sensor.t" } } },
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it("reports syntax errors, unbound names and metadata on non-entity bindings", () => {
+    expect(
+      validateOptionTree({ text: { $format: "{t:nme}", vars: { t: 1 } } })[0].message,
+    ).toContain('unknown modifier "nme"');
+
+    const issues = validateOptionTree({
+      text: { $format: "{tmp} {x:unit}", vars: { temp: 1, x: { $expr: "1" } } },
+    });
+    expect(issues.map((i) => [i.level, i.message])).toEqual([
+      ["error", '"tmp" is not defined in vars — did you mean "temp"?'],
+      ["warning", '"{x:unit}" is always empty: "x" is not bound to an $entity token'],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateOptionTree — include / exclude selectors
+// ---------------------------------------------------------------------------
+describe("validateOptionTree — selectors", () => {
+  it("accepts include without entities", () => {
+    const issues = validateOptionTree({
+      data: {
+        $data: {
+          include: [{ domain: "sensor", device_class: ["battery"] }, { label: "critical" }],
+          exclude: { entity_glob: "sensor.*_old" },
+        },
+      },
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it("still requires entities or include, and checks selector keys", () => {
+    expect(paths(validateOptionTree({ $history: { hours: 1 } }))).toEqual([
+      "option.$history.entities",
+    ]);
+
+    const issues = validateOptionTree({ $data: { include: { domian: "sensor", area: 3 } } });
+    expect(paths(issues)).toEqual(["option.$data.include.domian", "option.$data.include.area"]);
+    expect(issues[0].message).toContain('did you mean "domain"');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateOptionTree — $data group_by
+// ---------------------------------------------------------------------------
+describe("validateOptionTree — group_by", () => {
+  it("accepts known groupings and attribute:<name>", () => {
+    expect(
+      validateOptionTree({
+        a: { $data: { entities: [], group_by: "area", aggregate: "mean" } },
+        b: { $data: { entities: [], group_by: "attribute:floor" } },
+      }),
+    ).toEqual([]);
+  });
+
+  it("rejects bad groupings and warns about aggregate without group_by", () => {
+    const issues = validateOptionTree({
+      a: { $data: { entities: [], group_by: "attribute" } },
+      b: { $data: { entities: [], group_by: "room" } },
+      c: { $data: { entities: [], aggregate: "sum" } },
+    });
+    expect(issues.map((i) => [i.level, i.path])).toEqual([
+      ["error", "option.a.$data.group_by"],
+      ["error", "option.b.$data.group_by"],
+      ["warning", "option.c.$data.aggregate"],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateOptionTree — $data others / normalize
+// ---------------------------------------------------------------------------
+describe("validateOptionTree — others / normalize", () => {
+  it("accepts others with limit or min_share and a normalize mode", () => {
+    expect(
+      validateOptionTree({
+        a: { $data: { entities: [], limit: 5, others: { label: "Other" }, normalize: "percent" } },
+        b: { $data: { entities: [], others: { min_share: 0.03 } } },
+      }),
+    ).toEqual([]);
+  });
+
+  it("flags out-of-range shares, unknown modes and an others that folds nothing", () => {
+    const issues = validateOptionTree({
+      a: { $data: { entities: [], others: { min_share: 3 } } },
+      b: { $data: { entities: [], normalize: "percentage" } },
+      c: { $data: { entities: [], others: {} } },
+    });
+    expect(issues.map((i) => [i.level, i.path])).toEqual([
+      ["error", "option.a.$data.others.min_share"],
+      ["error", "option.b.$data.normalize"],
+      ["warning", "option.c.$data.others"],
+    ]);
+    expect(issues[1].message).toContain('did you mean "percent"');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateCardConfig — vars / $ref / $var
+// ---------------------------------------------------------------------------
+describe("validateCardConfig — vars", () => {
+  it("validates the option with references expanded", () => {
+    const issues = validateCardConfig({
+      type: "custom:echarts-raw-card",
+      vars: { power: { $history: { entities: ["sensor.a"], hour: 24 } } },
+      option: { series: [{ data: { $var: "power" } }] },
+    });
+    expect(issues.map((i) => [i.level, i.path])).toEqual([
+      ["warning", "option.series[0].data.$history.hour"],
+    ]);
+  });
+
+  it("reports broken references and non-mapping vars", () => {
+    expect(
+      validateCardConfig({ vars: { a: { $var: "a" } }, option: { x: { $var: "a" } } }),
+    ).toEqual([{ level: "error", path: "option", message: "reference cycle vars.a → vars.a" }]);
+    expect(validateCardConfig({ vars: [], option: {} }).map((i) => i.path)).toEqual(["vars"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateCardConfig — extends
+// ---------------------------------------------------------------------------
+describe("validateCardConfig — extends", () => {
+  registerTemplate("validate_base", {
+    option: { series: [{ data: { $data: { entities: [], sort: "up" } } }] },
+  });
+
+  it("checks the card merged over its template", () => {
+    const issues = validateCardConfig({
+      type: "custom:echarts-raw-card",
+      extends: "validate_base",
+    });
+    expect(issues.map((i) => [i.level, i.path])).toEqual([
+      ["error", "option.series[0].data.$data.sort"],
+    ]);
+  });
+
+  it("reports unknown templates and bad array_merge values", () => {
+    const issues = validateCardConfig({
+      extends: "validate_nope",
+      array_merge: "by-name",
+      option: {},
+    });
+    expect(issues.map((i) => [i.level, i.path])).toEqual([
+      ["error", "extends"],
+      ["error", "array_merge"],
+    ]);
+    expect(issues[0].message).toMatch(/^unknown template "validate_nope"/);
+  });
+
+  it("only allows /local/ template files", () => {
+    const issues = validateCardConfig({ extends: "//other.example/t.yaml", option: {} });
+    expect(issues.map((i) => [i.level, i.path])).toEqual([["error", "extends"]]);
+    expect(validateCardConfig({ extends: "/local/echarts/t.yaml", option: {} })).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateOptionTree — $color
+// ---------------------------------------------------------------------------
+describe("validateOptionTree — $color", () => {
+  it("accepts thresholds, gradients and $data.color", () => {
+    expect(
+      validateOptionTree({
+        a: {
+          $color: { $entity: "sensor.battery" },
+          thresholds: [
+            [20, "red"],
+            [100, "var(--success-color)"],
+          ],
+          default: "grey",
+        },
+        b: {
+          $color: 3,
+          gradient: [
+            [0, "#000"],
+            [10, "hsl(0, 100%, 50%)"],
+          ],
+          space: "rgb",
+        },
+        c: {
+          $data: {
+            entities: [],
+            color: {
+              gradient: [
+                [0, "amber"],
+                [1, "green"],
+              ],
+            },
+          },
+        },
+      }),
+    ).toEqual([]);
+  });
+
+  it("flags bad steps, uninterpolatable colours and nested token errors", () => {
+    const issues = validateOptionTree({
+      a: { $color: { $entity: "sensor.x", $atr: "level" }, thresholds: [[20]] },
+      b: {
+        $color: 1,
+        gradient: [
+          [0, "ambr"],
+          [1, "green"],
+        ],
+        thresholds: [[1, "red"]],
+      },
+    });
+    expect(issues.map((i) => [i.level, i.path])).toEqual([
+      ["error", "option.a.thresholds[0]"],
+      ["error", "option.a.$color.$atr"],
+      ["error", "option.b.gradient[0][1]"],
+      ["warning", "option.b.gradient"],
+    ]);
+    expect(issues[2].message).toContain('did you mean "amber"');
+  });
+});
+
+describe("validateOptionTree — units", () => {
+  it("accepts known units on tokens and generators", () => {
+    expect(
+      validateOptionTree({
+        a: { $entity: "sensor.power", $unit: "kW", $round: 2 },
+        b: { $unit_of: "sensor.power", $unit: "kW", $default: "W" },
+        c: { $data: { entities: ["sensor.power"], unit: "kW" } },
+        d: { $history: { entities: ["sensor.temp"], unit: "°C" } },
+        e: { $statistics: { entities: ["sensor.energy"], unit: "kWh" } },
+      }),
+    ).toEqual([]);
+  });
+
+  it("warns about unknown units and misplaced $unit", () => {
+    const issues = validateOptionTree({
+      a: { $entity: "sensor.power", $unit: "kw" },
+      b: { $data: { entities: [], unit: "C" } },
+      c: { $unit_of: 5 },
+      d: { $unit: "kW" },
+    });
+    expect(issues.map((i) => [i.level, i.path])).toEqual([
+      ["warning", "option.a.$unit"],
+      ["warning", "option.b.$data.unit"],
+      ["error", "option.c.$unit_of"],
+      ["warning", "option.d.$unit"],
+    ]);
+    expect(issues[0].message).toBe(
+      'unknown unit "kw"; values are not converted — did you mean "kW"?',
+    );
+    expect(issues[1].message).toContain('did you mean "°C"');
+  });
+});
+
+describe("validateOptionTree — attribute paths", () => {
+  it("accepts paths, wildcards and filters", () => {
+    expect(
+      validateOptionTree({
+        a: { $entity: "weather.home", $attr: "forecast[0].temperature" },
+        b: { $data: { entities: ["weather.home"], attr: "forecast[?condition=rainy].datetime" } },
+        c: { $history: { entities: ["weather.home"], attr: "forecast[-1].temperature" } },
+      }),
+    ).toEqual([]);
+  });
+
+  it("reports malformed paths and list paths in $history", () => {
+    const issues = validateOptionTree({
+      a: { $entity: "weather.home", $attr: "forecast[0" },
+      b: { $history: { entities: ["weather.home"], attr: "rates[*].value" } },
+    });
+    expect(issues.map((i) => [i.level, i.path])).toEqual([
+      ["error", "option.a.$attr"],
+      ["error", "option.b.$history.attr"],
+    ]);
+    expect(issues[0].message).toBe('unclosed [ in "forecast[0"');
+    expect(issues[1].message).toContain("each history point needs one value");
+  });
+});
+
+describe("validateOptionTree — $service / $forecast", () => {
+  it("accepts service calls and forecasts", () => {
+    expect(
+      validateOptionTree({
+        a: {
+          $forecast: "weather.home",
+          type: "daily",
+          fields: { value: ["temperature", "templow"] },
+        },
+        b: {
+          $service: "octopus_energy.get_rates",
+          target: { entity_id: "event.rates" },
+          data: { period: "today" },
+          path: "rates",
+          fields: { time: "start", value: "value_inc_vat" },
+          cache_seconds: 1800,
+        },
+      }),
+    ).toEqual([]);
+  });
+
+  it("flags bad service names, fields and modes without a value field", () => {
+    const issues = validateOptionTree({
+      a: { $service: "get_forecasts", fields: { value: "rates[*].x" } },
+      b: { $forecast: "weather.home", type: "weekly", target: {} },
+      c: { $service: "x.y", mode: "series" },
+    });
+    expect(issues.map((i) => [i.level, i.path])).toEqual([
+      ["error", "option.a.$service"],
+      ["error", "option.a.fields.value"],
+      ["error", "option.b.type"],
+      ["error", "option.b.target"],
+      ["warning", "option.c.mode"],
+    ]);
+  });
+});
+
+describe("validateOptionTree — $attr_series", () => {
+  it("accepts list attributes with a window", () => {
+    expect(
+      validateOptionTree({
+        a: {
+          $attr_series: {
+            entity: "event.octopus_rates",
+            attr: "rates",
+            time_field: "start",
+            end_field: "end",
+            value_field: "value_inc_vat",
+            mode: "step",
+            start: "now",
+            end: "+24h",
+            transforms: { scale: 100 },
+          },
+        },
+        b: {
+          $attr_series: {
+            entity: "event.octopus_rates",
+            attr: "rates[?value_inc_vat < 0.1]",
+            time_field: "start",
+            mode: "areas",
+          },
+        },
+      }),
+    ).toEqual([]);
+  });
+
+  it("flags missing fields, bad windows and unused options", () => {
+    const issues = validateOptionTree({
+      a: { $attr_series: { entity: "event.rates", attr: "rates" } },
+      b: {
+        $attr_series: {
+          entity: "event.rates",
+          attr: "rates",
+          time_field: "start",
+          end: "soon",
+          color: { thresholds: [[0.1, "green"]] },
+        },
+      },
+    });
+    expect(issues.map((i) => [i.level, i.path])).toEqual([
+      ["error", "option.a.$attr_series.time_field"],
+      ["warning", "option.a.$attr_series"],
+      ["error", "option.b.$attr_series.end"],
+      ["warning", "option.b.$attr_series"],
+      ["warning", "option.b.$attr_series.color"],
+    ]);
+  });
+});
+
+describe("validateOptionTree — $history timeline", () => {
+  it("accepts state colours and flags options a timeline ignores", () => {
+    const issues = validateOptionTree({
+      a: {
+        $history: {
+          entities: ["climate.lounge"],
+          mode: "timeline",
+          state_colors: { heating: "#ff6d00", idle: 3 },
+          sample: { max_points: 100 },
+        },
+      },
+      b: { $history: { entities: ["sensor.a"], state_colors: { on: "green" } } },
+    });
+    expect(issues.map((i) => [i.level, i.path])).toEqual([
+      ["error", "option.a.$history.state_colors.idle"],
+      ["warning", "option.a.$history.sample"],
+      ["warning", "option.b.$history.state_colors"],
+    ]);
+  });
+});
+
+describe("validateOptionTree — $history boundaries", () => {
+  it("accepts the flags and warns when a fixed window can't reach now", () => {
+    const issues = validateOptionTree({
+      a: { $history: { entities: ["sensor.a"], include_start_state: true, extend_to_now: true } },
+      b: { $history: { entities: ["sensor.a"], end: 1772359200000, extend_to_now: true } },
+      c: { $history: { entities: ["sensor.a"], extend_to_now: "yes" } },
+    });
+    expect(issues.map((i) => [i.level, i.path])).toEqual([
+      ["warning", "option.b.$history.extend_to_now"],
+      ["error", "option.c.$history.extend_to_now"],
+    ]);
+  });
+});
+
+describe("validateOptionTree — time expressions", () => {
+  it("accepts expressions and week starts, and hints at misspelt anchors", () => {
+    const issues = validateOptionTree({
+      a: { $history: { entities: ["sensor.a"], start: "today", end: "now-5m" } },
+      b: {
+        $statistics: {
+          entities: ["sensor.energy"],
+          start: "start_of_week-1w",
+          end: "start_of_week",
+          week_start: "sunday",
+        },
+      },
+      c: { $history: { entities: ["sensor.a"], start: "start_of_weak", week_start: "sun" } },
+    });
+    expect(issues.map((i) => [i.level, i.path])).toEqual([
+      ["error", "option.c.$history.start"],
+      ["error", "option.c.$history.week_start"],
+    ]);
+    expect(issues[0].message).toContain('did you mean "start_of_week"');
+  });
+});